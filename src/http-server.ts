@@ -0,0 +1,331 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { BarionCredentials, ToolContext } from './tools.js';
+import { BarionServer, createBarionServer } from './server.js';
+import { PaymentStateResponse } from './utils/barion-client.js';
+import { HoldRegister } from './utils/hold-register.js';
+import { PaymentRegistry } from './utils/payment-registry.js';
+import { DEFAULT_PROFILE_NAME, ProfileRegistry } from './utils/profiles.js';
+import { LogSink, createLogger, mcpLogSink, withLogSink } from './utils/logger.js';
+
+const log = createLogger('HTTP Server');
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Header names for per-session credentials (Node lowercases incoming headers)
+const POS_KEY_HEADER = 'x-barion-pos-key';
+const API_KEY_HEADER = 'x-barion-api-key';
+const ENVIRONMENT_HEADER = 'x-barion-environment';
+
+// Key in the initialize request's _meta for clients that cannot set headers
+const CREDENTIALS_META_KEY = 'barion/credentials';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  path?: string;
+  sessionTimeoutMs?: number;
+  // Server-level settings shared by every session; credentials always come from the session
+  environment: 'test' | 'prod';
+  paymentDefaults?: BarionCredentials['paymentDefaults'];
+  retry?: BarionCredentials['retry'];
+  connection?: BarionCredentials['connection'];
+  // Callback events (context.eventLog and broadcastPaymentState) only reach sessions using this POSKey
+  eventLogPoskey?: string;
+  // Saved per POSKey and environment, see credentialFilePath
+  holdsFile?: string;
+  paymentsFile?: string;
+  context?: ToolContext;
+}
+
+export interface HttpServerHandle {
+  httpServer: Server;
+  sessionCount(): number;
+  broadcastPaymentState(paymentId: string, state: PaymentStateResponse): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface Session extends BarionServer {
+  transport: StreamableHTTPServerTransport;
+  logSink: LogSink;
+  lastActivity: number;
+  // Whether the callback listener's POSKey is this session's, so its payments are the session's
+  ownsEventLog: boolean;
+  // Updated by broadcastPaymentState; shared by the sessions of a POSKey when saved to a file
+  holds: HoldRegister;
+  payments: PaymentRegistry;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+/**
+ * File of one set of payment credentials: the POSKey and environment are hashed
+ * into the name, e.g. holds.json becomes holds.3f2a9c01b7d4e6f8.json
+ */
+export function credentialFilePath(filePath: string, poskey: string, environment: string): string {
+  const id = createHash('sha256').update(`${environment}:${poskey}`).digest('hex').slice(0, 16);
+  const extension = filePath.match(/\.json$/i)?.[0] ?? '';
+  return `${filePath.slice(0, filePath.length - extension.length)}.${id}${extension}`;
+}
+
+/**
+ * Resolve the credentials of a new session from request headers, falling back to
+ * params._meta["barion/credentials"] of the initialize request.
+ */
+export function resolveSessionCredentials(
+  req: IncomingMessage,
+  initializeRequest: { params?: { _meta?: Record<string, unknown> } },
+  defaultEnvironment: 'test' | 'prod'
+): BarionCredentials {
+  const meta = (initializeRequest.params?._meta?.[CREDENTIALS_META_KEY] || {}) as Record<string, unknown>;
+  const fromMeta = (key: string) => (typeof meta[key] === 'string' ? (meta[key] as string) : undefined);
+
+  const poskey = headerValue(req, POS_KEY_HEADER) || fromMeta('poskey');
+  const apiKey = headerValue(req, API_KEY_HEADER) || fromMeta('apiKey');
+  const environment = headerValue(req, ENVIRONMENT_HEADER) || fromMeta('environment') || defaultEnvironment;
+
+  if (!poskey && !apiKey) {
+    throw new HttpError(
+      401,
+      `Missing Barion credentials. Send the ${POS_KEY_HEADER} and/or ${API_KEY_HEADER} headers, or _meta["${CREDENTIALS_META_KEY}"] in the initialize request.`
+    );
+  }
+  if (environment !== 'test' && environment !== 'prod') {
+    throw new HttpError(400, `Invalid Barion environment "${environment}". Use "test" or "prod".`);
+  }
+
+  return { poskey, apiKey, environment };
+}
+
+/**
+ * Serve the MCP Streamable HTTP transport.
+ *
+ * Every session gets its own McpServer and Barion clients built from the
+ * credentials it supplied at initialization. Idle sessions are closed after
+ * sessionTimeoutMs.
+ */
+export function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const mcpPath = options.path || '/mcp';
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? 30 * 60 * 1000;
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+  // Sessions with the same POSKey share their registers, so they never overwrite each other's file
+  const registers = new Map<string, Promise<Pick<ToolContext, 'holds' | 'payments'>>>();
+
+  const openRegisters = (poskey: string | undefined, environment: string): Promise<Pick<ToolContext, 'holds' | 'payments'>> => {
+    if (!poskey || (!options.holdsFile && !options.paymentsFile)) {
+      return Promise.resolve({});
+    }
+    const key = `${environment}:${poskey}`;
+    let opened = registers.get(key);
+    if (!opened) {
+      opened = (async () => ({
+        holds: options.holdsFile ? await HoldRegister.open(credentialFilePath(options.holdsFile, poskey, environment)) : undefined,
+        payments: options.paymentsFile ? await PaymentRegistry.open(credentialFilePath(options.paymentsFile, poskey, environment)) : undefined,
+      }))();
+      // A failed open is retried by the next session
+      opened.catch(() => registers.delete(key));
+      registers.set(key, opened);
+    }
+    return opened;
+  };
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    session.paymentWatcher?.stop();
+    await session.server.close();
+    log.info(`Session ${sessionId} closed (${sessions.size} active)`);
+  };
+
+  const createSession = async (req: IncomingMessage, body: unknown): Promise<Pick<Session, 'transport' | 'logSink'>> => {
+    const credentials = resolveSessionCredentials(req, body as { params?: { _meta?: Record<string, unknown> } }, options.environment);
+    const ownsEventLog = !!options.eventLogPoskey && credentials.poskey === options.eventLogPoskey;
+    const shared = await openRegisters(credentials.poskey, credentials.environment ?? options.environment);
+    const holds = shared.holds || new HoldRegister();
+    const payments = shared.payments || new PaymentRegistry();
+    const context: ToolContext = {
+      ...options.context,
+      holds,
+      payments,
+      eventLog: ownsEventLog ? options.context?.eventLog : undefined,
+    };
+    const profiles = ProfileRegistry.fromCredentials({
+      ...credentials,
+      paymentDefaults: options.paymentDefaults,
+      retry: options.retry,
+      connection: options.connection,
+    });
+    const barionServer = createBarionServer(profiles, context);
+    // Each session only receives the logs of its own requests
+    const logSink = mcpLogSink(barionServer.server);
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { ...barionServer, transport, logSink, lastActivity: Date.now(), ownsEventLog, holds, payments });
+        log.info(`Session ${sessionId} initialized (${credentials.environment}, ${sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await barionServer.server.connect(transport);
+    return { transport, logSink };
+  };
+
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Session ${sessionId} not found or expired`);
+        return;
+      }
+      session.lastActivity = Date.now();
+      await withLogSink(session.logSink, () => session.transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      const { transport, logSink } = await createSession(req, body);
+      await withLogSink(logSink, () => transport.handleRequest(req, res, body));
+      return;
+    }
+
+    sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+          JSON.stringify({
+            status: 'ok',
+            sessions: sessions.size,
+            uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          })
+        );
+        return;
+      }
+
+      if (url.pathname !== mcpPath) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      await handleMcpRequest(req, res);
+    } catch (error: unknown) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`${req.method} ${url.pathname} failed`, message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, status, status === 500 ? 'Internal server error' : message);
+      }
+    }
+  });
+
+  // Close sessions that have been idle for too long
+  const reaper = setInterval(() => {
+    const cutoff = Date.now() - sessionTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActivity < cutoff) {
+        log.info(`Session ${sessionId} expired after inactivity`);
+        void closeSession(sessionId);
+      }
+    }
+  }, Math.min(sessionTimeoutMs, 60 * 1000));
+  reaper.unref();
+
+  const handle: HttpServerHandle = {
+    httpServer,
+    sessionCount: () => sessions.size,
+    // Payments reported by the callback listener belong to its POSKey; other sessions must not learn about them
+    broadcastPaymentState: async (paymentId, state) => {
+      const owners = [...sessions.values()].filter((session) => session.ownsEventLog);
+      // Sessions only have the default profile; sessions sharing a register update it once
+      for (const holds of new Set(owners.map((session) => session.holds))) {
+        await holds.recordState(state, DEFAULT_PROFILE_NAME);
+      }
+      for (const payments of new Set(owners.map((session) => session.payments))) {
+        await payments.recordState(state, DEFAULT_PROFILE_NAME);
+      }
+      await Promise.all(owners.map((session) => session.paymentWatcher?.update(paymentId, state)));
+    },
+    close: async () => {
+      clearInterval(reaper);
+      await Promise.all([...sessions.keys()].map((sessionId) => closeSession(sessionId)));
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      log.info(`MCP endpoint: http://${options.host}:${options.port}${mcpPath}`);
+      log.info(`Health check: http://${options.host}:${options.port}/health`);
+      resolve(handle);
+    });
+  });
+}
@@ -0,0 +1,10 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { configureHoldPrompts } from './prompts/holds.js';
+import { ProfileRegistry } from './utils/profiles.js';
+
+export function configureAllPrompts(server: McpServer, profiles: ProfileRegistry): void {
+  // Configure hold prompts (requires a profile with a POSKey)
+  if (profiles.hasPaymentProfiles()) {
+    configureHoldPrompts(server);
+  }
+}
@@ -0,0 +1,38 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+export function configureHoldPrompts(server: McpServer) {
+  // Prompt: Review Expiring Holds
+  server.registerPrompt(
+    'review_expiring_holds',
+    {
+      title: 'Review expiring holds',
+      description: 'Walk through the Reservation and DelayedCapture payments whose hold expires soon and decide which ones to finish, capture or cancel',
+      argsSchema: {
+        withinHours: z.string().optional().describe('Review holds that expire within this many hours (default: 48)'),
+      },
+    },
+    ({ withinHours }) => {
+      const hours = Number(withinHours) > 0 ? Number(withinHours) : 48;
+      return {
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Help me review the payment holds that expire within the next ${hours} hours, so none of them expires unnoticed.
+
+1. Call list_expiring_holds with withinHours=${hours}. Start with holds whose deadline already passed (overdue), then the soonest deadlines.
+2. For every hold, show me the payment ID, profile, payment type, remaining amount, deadline and hours left as one table. Call get_payment_state when you need the transactions or items.
+3. For each hold, ask me what to do and suggest an option:
+   - Reservation: finish_reservation with the final amount per transaction (less than the reserved amount releases the rest; 0 releases everything). If nothing is done, Barion finishes it with the full amount at the deadline.
+   - DelayedCapture: capture_payment with the amount to charge, or cancel_authorization to release the funds. If nothing is done, the authorization expires and the money is lost.
+4. Only call finish_reservation, capture_payment or cancel_authorization after I have confirmed the payment and the amount. Never guess an amount.
+5. Finally, list what was done and which holds are still open, with their deadlines. Mention the payments that are not paid yet and any that could not be refreshed.`,
+            },
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,26 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { configurePaymentResources } from './resources/payment.js';
+import { configureWalletResources } from './resources/wallet.js';
+import { PaymentWatcher } from './utils/payment-watcher.js';
+import { ProfileRegistry } from './utils/profiles.js';
+
+export interface ConfiguredResources {
+  paymentWatcher?: PaymentWatcher;
+}
+
+// Resources are served from the default payment and wallet profiles
+export function configureAllResources(server: McpServer, profiles: ProfileRegistry): ConfiguredResources {
+  const configured: ConfiguredResources = {};
+
+  // Configure payment resources (requires a profile with a POSKey)
+  if (profiles.hasPaymentProfiles()) {
+    configured.paymentWatcher = configurePaymentResources(server, profiles.paymentClient());
+  }
+
+  // Configure wallet resources (requires a profile with an API Key)
+  if (profiles.hasWalletProfiles()) {
+    configureWalletResources(server, profiles.walletClient());
+  }
+
+  return configured;
+}
@@ -0,0 +1,81 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { BarionClient } from '../utils/barion-client.js';
+import { PaymentWatcher, PaymentWatcherOptions } from '../utils/payment-watcher.js';
+import { formatPaymentState, truncateIfNeeded } from '../utils/response-formatter.js';
+import { formatBarionError } from '../utils/error-handler.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('Payment Resources');
+
+const PAYMENT_URI_PATTERN = /^barion:\/\/payment\/([^/]+)$/;
+
+export function paymentResourceUri(paymentId: string): string {
+  return `barion://payment/${encodeURIComponent(paymentId)}`;
+}
+
+function parsePaymentResourceUri(uri: string): string {
+  const match = PAYMENT_URI_PATTERN.exec(uri);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} does not support subscriptions. Only barion://payment/{paymentId} can be subscribed to.`);
+  }
+  return decodeURIComponent(match[1]);
+}
+
+export function configurePaymentResources(
+  server: McpServer,
+  client: BarionClient,
+  watcherOptions: PaymentWatcherOptions = {}
+): PaymentWatcher {
+  // Resource: Payment
+  server.resource(
+    'payment',
+    new ResourceTemplate('barion://payment/{paymentId}', { list: undefined }),
+    {
+      title: 'Barion Payment',
+      description: 'Current state, amounts and transactions of a Barion payment. Backed by get_payment_state. Subscribe to receive notifications/resources/updated when the payment status changes.',
+      mimeType: 'text/markdown',
+    },
+    async (uri, variables) => {
+      const paymentId = String(variables.paymentId);
+      try {
+        const result = await client.getPaymentState(paymentId);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'text/markdown',
+              text: truncateIfNeeded(formatPaymentState(result, 'detailed')),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        throw new Error(formatBarionError('Read Payment Resource', error));
+      }
+    }
+  );
+
+  // Subscriptions: watch payments and push resource updates on status changes
+  const watcher = new PaymentWatcher(
+    client,
+    async (paymentId, state) => {
+      log.info(`Payment ${paymentId} changed to ${state.Status}`);
+      await server.server.sendResourceUpdated({ uri: paymentResourceUri(paymentId) });
+    },
+    watcherOptions
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    watcher.watch(parsePaymentResourceUri(request.params.uri));
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watcher.unwatch(parsePaymentResourceUri(request.params.uri));
+    return {};
+  });
+
+  return watcher;
+}
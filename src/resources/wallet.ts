@@ -0,0 +1,67 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { WalletClient } from '../utils/wallet-client.js';
+import { formatWalletAccounts, formatWalletStatement, truncateIfNeeded } from '../utils/response-formatter.js';
+import { formatBarionError } from '../utils/error-handler.js';
+
+export function configureWalletResources(server: McpServer, client: WalletClient) {
+  // Resource: Wallet Accounts
+  server.resource(
+    'wallet-accounts',
+    'barion://wallet/accounts',
+    {
+      title: 'Barion Wallet Accounts',
+      description: 'All currency accounts of the Barion wallet with their balances. Backed by get_wallet_accounts.',
+      mimeType: 'text/markdown',
+    },
+    async (uri) => {
+      try {
+        const result = await client.getAccounts();
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'text/markdown',
+              text: truncateIfNeeded(formatWalletAccounts(result, 'detailed')),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        throw new Error(formatBarionError('Read Wallet Accounts Resource', error));
+      }
+    }
+  );
+
+  // Resource: Wallet Statement
+  server.resource(
+    'wallet-statement',
+    new ResourceTemplate('barion://wallet/statement/{year}/{month}', { list: undefined }),
+    {
+      title: 'Barion Wallet Statement',
+      description: 'Monthly wallet statement, e.g. barion://wallet/statement/2025/1. Backed by get_wallet_statement.',
+      mimeType: 'text/markdown',
+    },
+    async (uri, variables) => {
+      const year = Number(variables.year);
+      const month = Number(variables.month);
+
+      if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+        throw new Error(`Invalid statement period "${variables.year}/${variables.month}": use barion://wallet/statement/{year}/{month} with month 1-12`);
+      }
+
+      try {
+        const result = await client.getStatement({ year, month });
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'text/markdown',
+              text: truncateIfNeeded(formatWalletStatement(result, 'detailed')),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        throw new Error(formatBarionError('Read Wallet Statement Resource', error));
+      }
+    }
+  );
+}
@@ -0,0 +1,40 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ToolContext, configureAllTools } from './tools.js';
+import { configureAllResources } from './resources.js';
+import { configureAllPrompts } from './prompts.js';
+import { PaymentWatcher } from './utils/payment-watcher.js';
+import { ProfileRegistry } from './utils/profiles.js';
+
+export interface BarionServer {
+  server: McpServer;
+  paymentWatcher?: PaymentWatcher;
+}
+
+// Build an MCP server whose tools and resources use the given profiles
+export function createBarionServer(profiles: ProfileRegistry, context: ToolContext = {}): BarionServer {
+  const server = new McpServer(
+    {
+      name: 'barion-mcp',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+
+  // Configure all tools
+  configureAllTools(server, profiles, context);
+
+  // Configure all resources
+  const { paymentWatcher } = configureAllResources(server, profiles);
+
+  // Configure all prompts
+  configureAllPrompts(server, profiles);
+
+  return { server, paymentWatcher };
+}
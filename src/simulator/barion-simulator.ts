@@ -0,0 +1,882 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { BarionError } from '../utils/barion-api-error.js';
+import {
+  Currency,
+  FundingSource,
+  PaymentStateResponse,
+  PaymentStatus,
+  PaymentType,
+  RecurrenceResult,
+  TransactionDetail,
+  TransactionStatus,
+} from '../utils/barion-client.js';
+import { createLogger } from '../utils/logger.js';
+import { UserHistoryItem, WalletAccount } from '../utils/wallet-client.js';
+
+const log = createLogger('Barion Simulator');
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const CURRENCIES: Currency[] = ['HUF', 'EUR', 'USD', 'CZK'];
+const PAYMENT_TYPES: PaymentType[] = ['Immediate', 'Reservation', 'DelayedCapture'];
+// Decimal places Barion accepts per currency
+const CURRENCY_DECIMALS: Record<Currency, number> = { HUF: 0, EUR: 2, USD: 2, CZK: 2 };
+
+const DEFAULT_PAYMENT_WINDOW_MS = 30 * 60 * 1000;
+const DEFAULT_RESERVATION_PERIOD_MS = 30 * 60 * 1000;
+const DEFAULT_DELAYED_CAPTURE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_HISTORY_PAGE = 20;
+
+export interface SimulatorOptions {
+  host?: string;
+  // 0 picks a free port
+  port?: number;
+  // Accepted credentials; when empty any non-empty key is accepted
+  poskeys?: string[];
+  apiKeys?: string[];
+  // Starting wallet balances
+  balances?: Partial<Record<Currency, number>>;
+  // Wallet owner and payee of the simulated shop
+  shopEmail?: string;
+  // Notify the payment's CallbackUrl on every state change, like Barion (default: true)
+  sendCallbacks?: boolean;
+}
+
+/**
+ * Failure returned for the next matching requests instead of the normal answer.
+ * With errorCode the response carries a Barion Errors array (HTTP 400 unless
+ * status says otherwise); without it the status (default 500) has a plain body.
+ * delayMs alone only slows the answer down, e.g. to trigger client timeouts.
+ */
+export interface InjectedError {
+  // Endpoint path such as /v2/Payment/Refund, or * for every endpoint
+  endpoint: string;
+  status?: number;
+  errorCode?: string;
+  title?: string;
+  description?: string;
+  // Number of requests to fail (default 1)
+  times?: number;
+  delayMs?: number;
+}
+
+// What the customer does on the simulated gateway page
+export type GatewayOutcome = 'succeed' | 'cancel' | 'expire';
+
+export interface SimulatorSnapshot {
+  payments: PaymentStateResponse[];
+  accounts: WalletAccount[];
+  history: UserHistoryItem[];
+}
+
+interface SimulatedPayment {
+  state: PaymentStateResponse;
+  initiateRecurrence: boolean;
+  reservationPeriodMs: number;
+  delayedCapturePeriodMs: number;
+}
+
+interface SimulatorRequest {
+  params: Record<string, any>;
+  apiKey?: string;
+}
+
+class SimulatorError extends Error {
+  constructor(
+    public status: number,
+    public errors: BarionError[]
+  ) {
+    super(errors.map((error) => `${error.ErrorCode}: ${error.Description}`).join(', '));
+  }
+}
+
+function fail(errorCode: string, description: string, status = 400): never {
+  throw new SimulatorError(status, [{ ErrorCode: errorCode, Title: errorCode, Description: description }]);
+}
+
+function invalid(description: string): never {
+  return fail('ModelValidationError', description);
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function hasValidDecimals(value: number, currency: Currency): boolean {
+  const factor = 10 ** CURRENCY_DECIMALS[currency];
+  return Math.abs(Math.round(value * factor) - value * factor) < 1e-6;
+}
+
+function itemDetails(items: Record<string, any>[]) {
+  return items.map((item) => ({
+    Name: item.Name,
+    Description: item.Description,
+    Quantity: Number(item.Quantity),
+    Unit: item.Unit,
+    UnitPrice: Number(item.UnitPrice),
+    ItemTotal: Number(item.ItemTotal),
+    SKU: item.SKU,
+  }));
+}
+
+// .NET TimeSpan "[d.]hh:mm:ss" as used by PaymentWindow, ReservationPeriod and DelayedCapturePeriod
+function parseTimeSpan(value: unknown, fallbackMs: number): number {
+  if (typeof value !== 'string' || !value) {
+    return fallbackMs;
+  }
+  const match = /^(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2})$/.exec(value);
+  if (!match) {
+    invalid(`Invalid time span "${value}": use [d.]hh:mm:ss`);
+  }
+  const [, days, hours, minutes, seconds] = match;
+  return ((Number(days || 0) * 24 + Number(hours)) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new SimulatorError(413, [{ ErrorCode: 'RequestTooLarge', Title: 'Request too large', Description: 'Request body too large' }]));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * In-memory stand-in for the Barion payment and wallet APIs.
+ *
+ * Implements the endpoints used by BarionClient and WalletClient with Barion's
+ * payment state machine, a wallet whose balances follow payments, refunds and
+ * transfers, and error injection. The customer's part of a payment is
+ * simulated with completePayment(), the /Pay gateway page or
+ * POST /_simulator/payments/{paymentId}/complete.
+ */
+export class BarionSimulator {
+  private options: SimulatorOptions;
+  private server?: Server;
+  private baseUrl?: string;
+  private payments = new Map<string, SimulatedPayment>();
+  private accounts = new Map<Currency, WalletAccount>();
+  private history: UserHistoryItem[] = [];
+  private recurrences = new Set<string>();
+  private injectedErrors: InjectedError[] = [];
+  private clockOffsetMs = 0;
+  private historySequence = 0;
+
+  private routes: Record<string, (request: SimulatorRequest) => unknown> = {
+    'POST /v2/Payment/Start': (request) => this.startPayment(request.params),
+    'GET /v2/Payment/GetPaymentState': (request) => this.getPaymentState(request.params),
+    'POST /v2/Payment/FinishReservation': (request) => this.finishHold(request.params, 'Reserved'),
+    'POST /v2/Payment/Capture': (request) => this.finishHold(request.params, 'Authorized'),
+    'POST /v2/Payment/CancelAuthorization': (request) => this.cancelAuthorization(request.params),
+    'POST /v2/Payment/Refund': (request) => this.refund(request.params),
+    'GET /v2/accounts': () => ({ Accounts: [...this.accounts.values()] }),
+    'GET /v3/userhistory/gethistory': (request) => this.getHistory(request.params),
+    'POST /v3/withdraw/banktransfer': (request) => this.withdraw(request.params),
+    'POST /v2/Transfer/Email': (request) => this.sendMoney(request.params),
+  };
+
+  constructor(options: SimulatorOptions = {}) {
+    this.options = options;
+    this.reset();
+  }
+
+  // Base URL of the running simulator, for ConnectionOptions.baseUrl
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Simulator is not running');
+    }
+    return this.baseUrl;
+  }
+
+  async start(): Promise<string> {
+    const host = this.options.host || '127.0.0.1';
+    const server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.baseUrl = `http://${host}:${(server.address() as AddressInfo).port}`;
+    log.info(`Listening on ${this.baseUrl}`);
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.baseUrl = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  // Forget all payments, transfers and injected errors and restore the starting balances
+  reset(): void {
+    this.payments.clear();
+    this.history = [];
+    this.recurrences.clear();
+    this.injectedErrors = [];
+    this.clockOffsetMs = 0;
+    this.accounts.clear();
+    for (const [currency, balance] of Object.entries(this.options.balances || {})) {
+      this.account(currency as Currency).Balance = roundAmount(balance);
+    }
+  }
+
+  injectError(error: InjectedError): void {
+    this.injectedErrors.push({ ...error, times: error.times ?? 1 });
+  }
+
+  clearErrors(): void {
+    this.injectedErrors = [];
+  }
+
+  // Move the simulated clock forward to make payment windows and holds expire
+  advanceClock(ms: number): void {
+    this.clockOffsetMs += ms;
+  }
+
+  snapshot(): SimulatorSnapshot {
+    return {
+      payments: [...this.payments.values()].map((payment) => this.refresh(payment).state),
+      accounts: [...this.accounts.values()],
+      history: [...this.history],
+    };
+  }
+
+  /**
+   * Play the customer's part on the gateway. Immediate payments succeed,
+   * Reservation payments become Reserved and DelayedCapture payments Authorized.
+   */
+  completePayment(paymentId: string, outcome: GatewayOutcome = 'succeed', fundingSource: FundingSource = 'BankCard'): PaymentStateResponse {
+    const payment = this.findPayment({ PaymentId: paymentId });
+    const state = payment.state;
+    if (state.Status !== 'Prepared' && state.Status !== 'Started') {
+      fail('InvalidPaymentState', `Payment ${paymentId} is ${state.Status} and cannot be completed on the gateway`);
+    }
+
+    if (outcome === 'cancel') {
+      this.settle(payment, 'Canceled', 'UserCanceled');
+    } else if (outcome === 'expire') {
+      this.settle(payment, 'Expired', 'Expired');
+    } else {
+      state.FundingSource = fundingSource;
+      if (state.PaymentType === 'Immediate') {
+        this.succeed(payment);
+      } else if (state.PaymentType === 'Reservation') {
+        state.ReservedUntil = new Date(this.now().getTime() + payment.reservationPeriodMs).toISOString();
+        this.settle(payment, 'Reserved', 'Reserved');
+      } else {
+        state.ReservedUntil = new Date(this.now().getTime() + payment.delayedCapturePeriodMs).toISOString();
+        this.settle(payment, 'Authorized', 'Authorized');
+      }
+    }
+    return state;
+  }
+
+  private now(): Date {
+    return new Date(Date.now() + this.clockOffsetMs);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+
+    try {
+      const text = await readBody(req);
+
+      if (url.pathname === '/Pay' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(this.gatewayPage(url.searchParams.get('Id') || ''));
+        return;
+      }
+      if (url.pathname.startsWith('/_simulator/')) {
+        await this.handleControl(req, res, url, text);
+        return;
+      }
+
+      const route = this.routes[`${req.method} ${url.pathname}`];
+      if (!route) {
+        send(404, { Errors: [{ ErrorCode: 'NotFound', Title: 'Not found', Description: `${req.method} ${url.pathname} is not simulated` }] });
+        return;
+      }
+
+      const injected = this.takeInjectedError(url.pathname);
+      if (injected?.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, injected.delayMs));
+      }
+      if (injected && (injected.errorCode || injected.status)) {
+        log.info(`Injected error for ${url.pathname}`, injected);
+        if (injected.errorCode) {
+          send(injected.status ?? 400, {
+            Errors: [{
+              ErrorCode: injected.errorCode,
+              Title: injected.title || injected.errorCode,
+              Description: injected.description || 'Simulated error',
+              EndPoint: url.pathname,
+            }],
+          });
+        } else {
+          res.writeHead(injected.status ?? 500, { 'Content-Type': 'text/plain' }).end('Simulated error');
+        }
+        return;
+      }
+
+      let params: Record<string, any> = Object.fromEntries(url.searchParams);
+      if (req.method === 'POST') {
+        try {
+          params = { ...params, ...(text ? JSON.parse(text) : {}) };
+        } catch {
+          invalid('Request body is not valid JSON');
+        }
+      }
+      const request: SimulatorRequest = { params, apiKey: req.headers['x-api-key'] as string | undefined };
+      this.authenticate(url.pathname, request);
+
+      send(200, { ...(route(request) as object), Errors: [] });
+    } catch (error: unknown) {
+      if (error instanceof SimulatorError) {
+        send(error.status, { Errors: error.errors.map((e) => ({ ...e, EndPoint: url.pathname })) });
+        return;
+      }
+      log.error(`Failed to handle ${req.method} ${url.pathname}`, error instanceof Error ? error.message : error);
+      send(500, { Errors: [{ ErrorCode: 'InternalError', Title: 'Internal error', Description: String(error) }] });
+    }
+  }
+
+  /**
+   * Control API for standalone use:
+   * - POST /_simulator/payments/{paymentId}/complete  { "outcome": "succeed" | "cancel" | "expire", "fundingSource": "BankCard" }
+   * - POST /_simulator/errors  InjectedError, DELETE /_simulator/errors
+   * - POST /_simulator/clock  { "advanceMs": 3600000 }
+   * - POST /_simulator/reset, GET /_simulator/state
+   */
+  private async handleControl(req: IncomingMessage, res: ServerResponse, url: URL, text: string): Promise<void> {
+    // The gateway page posts forms; curl -d labels JSON bodies as forms too
+    const form = req.headers['content-type']?.includes('application/x-www-form-urlencoded') && !text.trimStart().startsWith('{');
+    let body: Record<string, any> = {};
+    try {
+      body = form ? Object.fromEntries(new URLSearchParams(text)) : text ? JSON.parse(text) : {};
+    } catch {
+      invalid('Request body is not valid JSON');
+    }
+    const send = (status: number, value: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(value));
+    };
+
+    const complete = /^\/_simulator\/payments\/([^/]+)\/complete$/.exec(url.pathname);
+    if (complete && req.method === 'POST') {
+      const state = this.completePayment(decodeURIComponent(complete[1]), body.outcome || 'succeed', body.fundingSource || 'BankCard');
+      // The gateway page sends the customer back to the shop like Barion does
+      if (form && state.RedirectUrl) {
+        const redirect = new URL(state.RedirectUrl);
+        redirect.searchParams.set('paymentId', state.PaymentId);
+        res.writeHead(302, { Location: redirect.toString() }).end();
+        return;
+      }
+      send(200, state);
+      return;
+    }
+
+    switch (`${req.method} ${url.pathname}`) {
+      case 'POST /_simulator/errors':
+        if (!body.endpoint) {
+          invalid('endpoint is required');
+        }
+        this.injectError(body as InjectedError);
+        send(200, { injected: this.injectedErrors });
+        return;
+      case 'DELETE /_simulator/errors':
+        this.clearErrors();
+        send(200, { injected: [] });
+        return;
+      case 'POST /_simulator/clock':
+        this.advanceClock(Number(body.advanceMs) || 0);
+        send(200, { now: this.now().toISOString() });
+        return;
+      case 'POST /_simulator/reset':
+        this.reset();
+        send(200, { reset: true });
+        return;
+      case 'GET /_simulator/state':
+        send(200, this.snapshot());
+        return;
+    }
+    send(404, { error: `Unknown simulator control ${req.method} ${url.pathname}` });
+  }
+
+  private takeInjectedError(endpoint: string): InjectedError | undefined {
+    const index = this.injectedErrors.findIndex((error) => error.endpoint === endpoint || error.endpoint === '*');
+    if (index === -1) {
+      return undefined;
+    }
+    const injected = this.injectedErrors[index];
+    injected.times = (injected.times ?? 1) - 1;
+    if (injected.times <= 0) {
+      this.injectedErrors.splice(index, 1);
+    }
+    return injected;
+  }
+
+  private authenticate(endpoint: string, request: SimulatorRequest): void {
+    if (endpoint.startsWith('/v2/Payment/')) {
+      const poskey = request.params.POSKey;
+      const allowed = this.options.poskeys || [];
+      if (!poskey || (allowed.length > 0 && !allowed.includes(poskey))) {
+        fail('AuthenticationFailed', 'The POSKey is missing or invalid', 401);
+      }
+      return;
+    }
+    const allowed = this.options.apiKeys || [];
+    if (!request.apiKey || (allowed.length > 0 && !allowed.includes(request.apiKey))) {
+      fail('AuthenticationFailed', 'The API key is missing or invalid', 401);
+    }
+  }
+
+  private account(currency: Currency): WalletAccount {
+    let account = this.accounts.get(currency);
+    if (!account) {
+      account = { Id: randomUUID(), Owner: this.options.shopEmail || 'shop@example.com', Balance: 0, Currency: currency };
+      this.accounts.set(currency, account);
+    }
+    return account;
+  }
+
+  private book(type: string, currency: Currency, amount: number, description: string | null, target?: UserHistoryItem['TargetAccount']): UserHistoryItem {
+    const account = this.account(currency);
+    account.Balance = roundAmount(account.Balance + amount);
+    const item: UserHistoryItem = {
+      Id: randomUUID(),
+      Type: type,
+      HappenedAtUtc: this.now().toISOString(),
+      Amount: amount,
+      Currency: currency,
+      Description: description,
+      BalanceChangeType: amount >= 0 ? 'Increase' : 'Decrease',
+      ConcurrencyOrder: ++this.historySequence,
+      TargetAccount: target,
+      IsInProgress: false,
+    };
+    // Newest first, like the real history
+    this.history.unshift(item);
+    return item;
+  }
+
+  // Apply expiry rules that Barion runs in the background
+  private refresh(payment: SimulatedPayment): SimulatedPayment {
+    const state = payment.state;
+    const now = this.now().toISOString();
+    if ((state.Status === 'Prepared' || state.Status === 'Started') && state.ValidUntil < now) {
+      this.settle(payment, 'Expired', 'Expired');
+    } else if (state.Status === 'Reserved' && state.ReservedUntil && state.ReservedUntil < now) {
+      // Reservations that are not finished in time are finished with the full amount
+      for (const transaction of state.Transactions) {
+        this.book('Reserve', state.Currency, transaction.Total, `Reservation ${state.PaymentId} finished automatically`);
+      }
+      this.settle(payment, 'Succeeded', 'Succeeded');
+    } else if (state.Status === 'Authorized' && state.ReservedUntil && state.ReservedUntil < now) {
+      this.settle(payment, 'Expired', 'Expired');
+    }
+    return payment;
+  }
+
+  private settle(payment: SimulatedPayment, status: PaymentStatus, transactionStatus: TransactionStatus): void {
+    const state = payment.state;
+    const previous = state.Status;
+    state.Status = status;
+    for (const transaction of state.Transactions) {
+      if (transaction.TransactionType !== 'Refund') {
+        transaction.Status = transactionStatus;
+      }
+    }
+    if (['Succeeded', 'Canceled', 'Expired', 'Failed'].includes(status)) {
+      state.CompletedAt = this.now().toISOString();
+    }
+    if (previous !== status) {
+      this.notify(state);
+    }
+  }
+
+  private succeed(payment: SimulatedPayment): void {
+    const state = payment.state;
+    for (const transaction of state.Transactions) {
+      this.book('Shop', state.Currency, transaction.Total, `Payment ${state.PaymentId}`);
+    }
+    if (payment.initiateRecurrence && state.RecurrenceId) {
+      this.recurrences.add(state.RecurrenceId);
+    }
+    this.settle(payment, 'Succeeded', 'Succeeded');
+  }
+
+  // Barion posts the PaymentId form-encoded to the CallbackUrl
+  private notify(state: PaymentStateResponse): void {
+    if (!state.CallbackUrl || this.options.sendCallbacks === false) {
+      return;
+    }
+    fetch(state.CallbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ paymentId: state.PaymentId }).toString(),
+    }).catch((error: unknown) => {
+      log.warn(`Callback to ${state.CallbackUrl} failed`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  private findPayment(params: Record<string, any>): SimulatedPayment {
+    if (!params.PaymentId) {
+      invalid('PaymentId is required');
+    }
+    const payment = this.payments.get(params.PaymentId);
+    if (!payment) {
+      fail('PaymentNotFound', `Payment ${params.PaymentId} does not exist`);
+    }
+    return this.refresh(payment);
+  }
+
+  private startPayment(params: Record<string, any>) {
+    const paymentType = params.PaymentType as PaymentType;
+    const currency = params.Currency as Currency;
+    if (!PAYMENT_TYPES.includes(paymentType)) {
+      invalid(`PaymentType must be one of ${PAYMENT_TYPES.join(', ')}`);
+    }
+    if (!CURRENCIES.includes(currency)) {
+      invalid(`Currency must be one of ${CURRENCIES.join(', ')}`);
+    }
+    if (!params.PaymentRequestId) {
+      invalid('PaymentRequestId is required');
+    }
+    if (!Array.isArray(params.Transactions) || params.Transactions.length === 0) {
+      invalid('At least one transaction is required');
+    }
+
+    const createdAt = this.now();
+    const paymentId = randomUUID().replace(/-/g, '');
+    const transactions: TransactionDetail[] = params.Transactions.map((transaction: Record<string, any>) => {
+      const total = Number(transaction.Total);
+      if (!transaction.POSTransactionId || !transaction.Payee) {
+        invalid('POSTransactionId and Payee are required for every transaction');
+      }
+      if (!(total > 0) || !hasValidDecimals(total, currency)) {
+        invalid(`Transaction ${transaction.POSTransactionId}: Total must be positive with at most ${CURRENCY_DECIMALS[currency]} decimals in ${currency}`);
+      }
+      const items: Record<string, any>[] = Array.isArray(transaction.Items) ? transaction.Items : [];
+      if (items.length === 0) {
+        invalid(`Transaction ${transaction.POSTransactionId} has no items`);
+      }
+      const itemsTotal = roundAmount(items.reduce((sum, item) => sum + Number(item.ItemTotal), 0));
+      if (Math.abs(itemsTotal - total) > 0.001) {
+        invalid(`Transaction ${transaction.POSTransactionId}: items add up to ${itemsTotal}, not ${total}`);
+      }
+      return {
+        TransactionId: randomUUID().replace(/-/g, ''),
+        POSTransactionId: transaction.POSTransactionId,
+        TransactionTime: createdAt.toISOString(),
+        Total: total,
+        Currency: currency,
+        Payee: transaction.Payee,
+        Comment: transaction.Comment,
+        Status: 'Prepared' as TransactionStatus,
+        TransactionType: 'Shop',
+        Items: itemDetails(items),
+      };
+    });
+
+    const payment: SimulatedPayment = {
+      initiateRecurrence: params.InitiateRecurrence === true,
+      reservationPeriodMs: parseTimeSpan(params.ReservationPeriod, DEFAULT_RESERVATION_PERIOD_MS),
+      delayedCapturePeriodMs: parseTimeSpan(params.DelayedCapturePeriod, DEFAULT_DELAYED_CAPTURE_PERIOD_MS),
+      state: {
+        PaymentId: paymentId,
+        PaymentRequestId: params.PaymentRequestId,
+        OrderNumber: params.OrderNumber,
+        POSId: 'simulator',
+        POSName: 'Barion Simulator',
+        Status: 'Prepared',
+        PaymentType: paymentType,
+        AllowedFundingSources: params.FundingSources,
+        GuestCheckout: params.GuestCheckOut !== false,
+        CreatedAt: createdAt.toISOString(),
+        ValidUntil: new Date(createdAt.getTime() + parseTimeSpan(params.PaymentWindow, DEFAULT_PAYMENT_WINDOW_MS)).toISOString(),
+        Total: roundAmount(transactions.reduce((sum, t) => sum + t.Total, 0)),
+        Currency: currency,
+        Transactions: transactions,
+        SuggestedLocale: params.Locale,
+        RedirectUrl: params.RedirectUrl,
+        CallbackUrl: params.CallbackUrl,
+        RecurrenceId: params.RecurrenceId,
+        RecurrenceType: params.RecurrenceType,
+        TraceId: params.TraceId,
+      },
+    };
+    this.payments.set(paymentId, payment);
+
+    // A known recurrence token is charged without the customer
+    let recurrenceResult: RecurrenceResult = 'None';
+    if (params.RecurrenceId && !payment.initiateRecurrence) {
+      if (this.recurrences.has(params.RecurrenceId)) {
+        recurrenceResult = 'Successful';
+        payment.state.FundingSource = 'BankCard';
+        this.succeed(payment);
+      } else {
+        recurrenceResult = 'NotFound';
+      }
+    }
+
+    const state = payment.state;
+    return {
+      PaymentId: state.PaymentId,
+      PaymentRequestId: state.PaymentRequestId,
+      Status: state.Status,
+      RecurrenceResult: recurrenceResult,
+      GatewayUrl: `${this.baseUrl || ''}/Pay?Id=${state.PaymentId}`,
+      RedirectUrl: state.RedirectUrl,
+      CallbackUrl: state.CallbackUrl,
+      Transactions: state.Transactions,
+    };
+  }
+
+  private getPaymentState(params: Record<string, any>): PaymentStateResponse {
+    return this.findPayment(params).state;
+  }
+
+  // FinishReservation (Reserved) and Capture (Authorized); unlisted transactions are released
+  private finishHold(params: Record<string, any>, expected: 'Reserved' | 'Authorized') {
+    const payment = this.findPayment(params);
+    const state = payment.state;
+    if (state.Status !== expected) {
+      fail('InvalidPaymentState', `Payment ${state.PaymentId} is ${state.Status}, expected ${expected}`);
+    }
+    if (!Array.isArray(params.Transactions) || params.Transactions.length === 0) {
+      invalid('At least one transaction is required');
+    }
+
+    const finished = new Map<string, number>();
+    for (const item of params.Transactions as Record<string, any>[]) {
+      const transaction = state.Transactions.find((t) => t.TransactionId === item.TransactionId);
+      if (!transaction) {
+        fail('TransactionNotFound', `Transaction ${item.TransactionId} is not part of payment ${state.PaymentId}`);
+      }
+      const total = Number(item.Total);
+      if (!(total >= 0) || !hasValidDecimals(total, state.Currency)) {
+        invalid(`Invalid Total ${item.Total} for transaction ${item.TransactionId}`);
+      }
+      if (total > transaction.Total) {
+        fail('AmountTooHigh', `Transaction ${item.TransactionId}: ${total} is more than the ${expected.toLowerCase()} ${transaction.Total}`);
+      }
+      finished.set(transaction.TransactionId, total);
+    }
+
+    for (const transaction of state.Transactions) {
+      const total = finished.get(transaction.TransactionId) ?? 0;
+      transaction.Total = total;
+      transaction.Status = total > 0 ? 'Succeeded' : 'ShopCanceled';
+      if (total > 0) {
+        this.book(expected === 'Reserved' ? 'Reserve' : 'Shop', state.Currency, total, `Payment ${state.PaymentId}`);
+      }
+    }
+    state.Total = roundAmount(state.Transactions.reduce((sum, t) => sum + t.Total, 0));
+    const status: PaymentStatus = state.Total > 0 ? 'Succeeded' : 'Canceled';
+    state.Status = status;
+    state.CompletedAt = this.now().toISOString();
+    this.notify(state);
+
+    return {
+      IsSuccessful: true,
+      PaymentId: state.PaymentId,
+      PaymentRequestId: state.PaymentRequestId,
+      Status: state.Status,
+      Transactions: state.Transactions,
+    };
+  }
+
+  private cancelAuthorization(params: Record<string, any>) {
+    const payment = this.findPayment(params);
+    const state = payment.state;
+    if (state.Status !== 'Authorized') {
+      fail('InvalidPaymentState', `Payment ${state.PaymentId} is ${state.Status}, only Authorized payments can be cancelled`);
+    }
+    this.settle(payment, 'Canceled', 'ShopCanceled');
+    return { IsSuccessful: true, PaymentId: state.PaymentId, PaymentRequestId: state.PaymentRequestId, Status: state.Status };
+  }
+
+  private refund(params: Record<string, any>) {
+    const payment = this.findPayment(params);
+    const state = payment.state;
+    if (state.Status !== 'Succeeded' && state.Status !== 'PartiallySucceeded') {
+      fail('InvalidPaymentState', `Payment ${state.PaymentId} is ${state.Status}, only succeeded payments can be refunded`);
+    }
+    const requested: Record<string, any>[] = Array.isArray(params.TransactionsToRefund) ? params.TransactionsToRefund : [];
+    if (requested.length === 0) {
+      invalid('TransactionsToRefund must list at least one transaction');
+    }
+
+    // Every entry is checked before anything is booked, so a rejected request refunds nothing
+    const planned = new Map<string, number>();
+    const refunds = requested.map((item) => {
+      const original = state.Transactions.find((t) => t.TransactionId === item.TransactionId && t.TransactionType !== 'Refund');
+      if (!original) {
+        fail('TransactionNotFound', `Transaction ${item.TransactionId} is not part of payment ${state.PaymentId}`);
+      }
+      if (original.Status !== 'Succeeded' && original.Status !== 'PartiallyRefunded') {
+        fail('InvalidPaymentState', `Transaction ${original.TransactionId} is ${original.Status} and cannot be refunded`);
+      }
+
+      const amount = Number(item.AmountToRefund);
+      if (!(amount > 0) || !hasValidDecimals(amount, state.Currency)) {
+        invalid(`Invalid AmountToRefund ${item.AmountToRefund}`);
+      }
+      const refunded = state.Transactions
+        .filter((t) => t.TransactionType === 'Refund' && t.RelatedId === original.TransactionId)
+        .reduce((sum, t) => sum + Math.abs(t.Total), planned.get(original.TransactionId) ?? 0);
+      const remaining = roundAmount(original.Total - refunded);
+      if (amount > remaining) {
+        fail('AmountTooHigh', `Only ${remaining} ${state.Currency} of transaction ${original.TransactionId} can still be refunded`);
+      }
+      planned.set(original.TransactionId, roundAmount(refunded + amount));
+      return { item, original, amount, remaining };
+    });
+
+    const total = roundAmount(refunds.reduce((sum, refund) => sum + refund.amount, 0));
+    if (this.account(state.Currency).Balance < total) {
+      fail('InsufficientBalance', `The ${state.Currency} wallet balance is too low for this refund`);
+    }
+
+    const refunded = refunds.map(({ item, original, amount, remaining }) => {
+      const refund: TransactionDetail = {
+        TransactionId: randomUUID().replace(/-/g, ''),
+        POSTransactionId: item.POSTransactionId || original.POSTransactionId,
+        TransactionTime: this.now().toISOString(),
+        Total: -amount,
+        Currency: state.Currency,
+        Payee: original.Payee,
+        Comment: item.Comment || undefined,
+        Status: 'Succeeded',
+        TransactionType: 'Refund',
+        Items: Array.isArray(item.Items) ? itemDetails(item.Items) : undefined,
+        RelatedId: original.TransactionId,
+      };
+      state.Transactions.push(refund);
+      original.Status = amount === remaining ? 'Refunded' : 'PartiallyRefunded';
+      this.book('Refund', state.Currency, -amount, item.Comment || `Refund of payment ${state.PaymentId}`);
+      return refund;
+    });
+    this.notify(state);
+
+    return {
+      PaymentId: state.PaymentId,
+      RefundedTransactions: refunded.map((refund) => ({
+        TransactionId: refund.TransactionId,
+        Total: Math.abs(refund.Total),
+        POSTransactionId: refund.POSTransactionId,
+        Comment: refund.Comment,
+        Status: refund.Status,
+      })),
+    };
+  }
+
+  private getHistory(params: Record<string, any>) {
+    let items = this.history;
+    if (params.Currency) {
+      items = items.filter((item) => item.Currency === params.Currency);
+    }
+    if (params.LastRequestTime) {
+      items = items.filter((item) => item.HappenedAtUtc >= params.LastRequestTime);
+    }
+    if (params.LastVisibleItemId) {
+      const index = items.findIndex((item) => item.Id === params.LastVisibleItemId);
+      items = index === -1 ? [] : items.slice(index + 1);
+    }
+    const limit = Math.min(Number(params.Limit) || MAX_HISTORY_PAGE, MAX_HISTORY_PAGE);
+    return { UserHistory: items.slice(0, limit) };
+  }
+
+  private debit(currency: Currency, amount: number): void {
+    if (!CURRENCIES.includes(currency)) {
+      invalid(`Currency must be one of ${CURRENCIES.join(', ')}`);
+    }
+    if (!(amount > 0) || !hasValidDecimals(amount, currency)) {
+      invalid(`Amount must be positive with at most ${CURRENCY_DECIMALS[currency]} decimals in ${currency}`);
+    }
+    if ((this.accounts.get(currency)?.Balance ?? 0) < amount) {
+      fail('InsufficientBalance', `The ${currency} wallet balance is too low`);
+    }
+  }
+
+  private withdraw(params: Record<string, any>) {
+    const bankAccount = params.BankAccount || {};
+    if (!bankAccount.AccountNumber || !bankAccount.AccountHolderName || !bankAccount.Swift) {
+      invalid('BankAccount needs AccountNumber, AccountHolderName and Swift');
+    }
+    const amount = Number(params.Amount);
+    this.debit(params.Currency, amount);
+    const item = this.book('Withdraw', params.Currency, -amount, params.Comment || null);
+    return { IsSuccessful: true, TransactionId: item.Id };
+  }
+
+  private sendMoney(params: Record<string, any>) {
+    const source = [...this.accounts.values()].find((account) => account.Id === params.SourceAccountId);
+    if (!source) {
+      fail('AccountNotFound', `Account ${params.SourceAccountId} does not exist`);
+    }
+    const currency = params.Amount?.Currency as Currency;
+    const amount = Number(params.Amount?.Value);
+    if (currency !== source.Currency) {
+      invalid(`Account ${source.Id} holds ${source.Currency}, not ${currency}`);
+    }
+    if (typeof params.TargetEmail !== 'string' || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(params.TargetEmail)) {
+      invalid('TargetEmail must be a valid email address');
+    }
+    this.debit(currency, amount);
+    const item = this.book('TransferToEmail', currency, -amount, params.Comment || null, {
+      UserAccountId: null,
+      ShopId: null,
+      Type: 'Email',
+      LoginName: params.TargetEmail,
+      OrganizationName: null,
+      ShopName: null,
+    });
+    return {
+      IsSuccessful: true,
+      TransactionId: item.Id,
+      SourceAccountId: source.Id,
+      TargetEmail: params.TargetEmail,
+      Amount: { Currency: currency, Value: amount },
+    };
+  }
+
+  private gatewayPage(paymentId: string): string {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      return `<!doctype html><title>Barion Simulator</title><p>Unknown payment ${escapeHtml(paymentId)}</p>`;
+    }
+    const state = this.refresh(payment).state;
+    const action = `/_simulator/payments/${encodeURIComponent(paymentId)}/complete`;
+    const button = (outcome: GatewayOutcome, label: string) =>
+      `<form method="post" action="${action}"><input type="hidden" name="outcome" value="${outcome}"><button>${label}</button></form>`;
+    return `<!doctype html>
+<title>Barion Simulator</title>
+<h1>${escapeHtml(state.PaymentType)} payment of ${state.Total} ${state.Currency}</h1>
+<p>Payment ${escapeHtml(paymentId)} is ${state.Status}.</p>
+${state.Status === 'Prepared' || state.Status === 'Started' ? button('succeed', 'Pay') + button('cancel', 'Cancel') + button('expire', 'Let it expire') : ''}`;
+  }
+}
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { Currency } from '../utils/barion-client.js';
+import { createLogger } from '../utils/logger.js';
+import { BarionSimulator } from './barion-simulator.js';
+
+const log = createLogger('Barion Simulator');
+
+// "EUR=1000" -> { EUR: 1000 }
+function parseBalances(values: string[] = []): Partial<Record<Currency, number>> {
+  const balances: Partial<Record<Currency, number>> = {};
+  for (const value of values.flatMap((v) => v.split(','))) {
+    const [currency, amount] = value.split('=');
+    if (!currency || amount === undefined || Number.isNaN(Number(amount))) {
+      throw new Error(`Invalid balance "${value}": use CURRENCY=amount, e.g. EUR=1000`);
+    }
+    balances[currency.trim().toUpperCase() as Currency] = Number(amount);
+  }
+  return balances;
+}
+
+async function main() {
+  const argv = await yargs(hideBin(process.argv))
+    .scriptName('barion-simulator')
+    .usage('Usage: $0 [options]')
+    .option('port', {
+      type: 'number',
+      description: 'Port to listen on (or BARION_SIMULATOR_PORT)',
+    })
+    .option('host', {
+      type: 'string',
+      description: 'Host to bind (default: 127.0.0.1)',
+    })
+    .option('poskey', {
+      type: 'string',
+      array: true,
+      description: 'Accepted POSKey (default: any)',
+    })
+    .option('api-key', {
+      type: 'string',
+      array: true,
+      description: 'Accepted wallet API key (default: any)',
+    })
+    .option('balance', {
+      type: 'string',
+      array: true,
+      description: 'Starting wallet balance, e.g. --balance EUR=1000 HUF=50000',
+    })
+    .help()
+    .parse();
+
+  const simulator = new BarionSimulator({
+    host: argv.host,
+    port: argv.port ?? Number(process.env.BARION_SIMULATOR_PORT || 4010),
+    poskeys: argv.poskey,
+    apiKeys: argv.apiKey,
+    balances: parseBalances(argv.balance),
+  });
+  const url = await simulator.start();
+  log.info(`Simulated Barion API at ${url}, gateway at ${url}/Pay, control API at ${url}/_simulator`);
+  log.info(`Start the MCP server with --base-url ${url} to use it`);
+}
+
+main().catch((error) => {
+  log.error('Fatal error', error);
+  process.exit(1);
+});
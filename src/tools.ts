@@ -1,23 +1,103 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { configurePaymentTools } from './tools/payment.js';
 import { configureWalletTools } from './tools/wallet.js';
+import { configureEventTools } from './tools/events.js';
+import { configureProfileTools } from './tools/profiles.js';
+import { configureAuditTools } from './tools/audit.js';
+import { configureHoldTools } from './tools/holds.js';
+import { configureSearchTools } from './tools/search.js';
+import { PaymentDefaults } from './utils/barion-client.js';
+import { AuditLog } from './utils/audit-log.js';
+import { HoldRegister } from './utils/hold-register.js';
+import { PaymentEventLog } from './utils/payment-event-log.js';
+import { PaymentRegistry } from './utils/payment-registry.js';
+import { ProfileRegistry } from './utils/profiles.js';
+import { createConfirmer } from './utils/confirmation.js';
+import { SpendingPolicy } from './utils/spending-policy.js';
+import { ToolFilter } from './utils/tool-filter.js';
+import { createLogger } from './utils/logger.js';
+import { ConnectionOptions } from './utils/barion-http.js';
+import { RetryOptions, collectRetryReports } from './utils/retry.js';
+import { wrapToolCallbacks } from './utils/tool-hooks.js';
+import { formatRetryReports } from './utils/response-formatter.js';
+
+const log = createLogger('Tools');
 
 export interface BarionCredentials {
   poskey?: string;
   apiKey?: string;
   environment?: 'test' | 'prod';
+  paymentDefaults?: PaymentDefaults;
+  retry?: RetryOptions;
+  connection?: ConnectionOptions;
+}
+
+// Server-side services shared with the tools
+export interface ToolContext {
+  eventLog?: PaymentEventLog;
+  // Ask the user through MCP elicitation before money-moving tools run
+  requireConfirmation?: boolean;
+  // Local limits checked before refunds, withdrawals and transfers
+  policy?: SpendingPolicy;
+  // Send captures, cancellations and refunds without checking the live payment state first
+  skipStateChecks?: boolean;
+  // Read-only mode and enable/disable lists deciding which tools are exposed
+  toolFilter?: ToolFilter;
+  // Hash-chained record of every tool call
+  auditLog?: AuditLog;
+  // Reservation and DelayedCapture payments and their deadlines (in memory when not given)
+  holds?: HoldRegister;
+  // Payments created or looked up through this server, for search_payments (in memory when not given)
+  payments?: PaymentRegistry;
+}
+
+// Append a summary to tool results whose Barion requests were retried or could not be retried safely
+function reportRetries(server: McpServer): McpServer {
+  return wrapToolCallbacks(server, (_name, callback) => async (...args) => {
+    const { result, reports } = await collectRetryReports(() => callback(...args));
+    if (reports.length === 0) {
+      return result;
+    }
+    return { ...result, content: [...result.content, { type: 'text', text: formatRetryReports(reports) }] };
+  });
 }
 
-export function configureAllTools(server: McpServer, credentials: BarionCredentials) {
-  const environment = credentials.environment || 'test';
+export function configureAllTools(server: McpServer, profiles: ProfileRegistry, context: ToolContext = {}): string[] {
+  const filter = context.toolFilter || new ToolFilter();
+  const holds = context.holds || new HoldRegister();
+  const payments = context.payments || new PaymentRegistry();
+
+  const exposed = filter.apply(server, (registrar) => {
+    const audited = context.auditLog ? context.auditLog.instrument(registrar) : registrar;
+    const server = reportRetries(audited);
+    const confirm = createConfirmer(server, context.requireConfirmation ?? false);
+
+    // Configure payment-related tools (requires a profile with a POSKey)
+    if (profiles.hasPaymentProfiles()) {
+      configurePaymentTools(server, profiles, confirm, context.policy, !context.skipStateChecks, holds, payments);
+      configureHoldTools(server, profiles, holds);
+      configureSearchTools(server, profiles, payments);
+    }
+
+    // Configure wallet-related tools (requires a profile with an API Key)
+    if (profiles.hasWalletProfiles()) {
+      configureWalletTools(server, profiles, confirm, context.policy);
+    }
+
+    // Configure profile tools
+    configureProfileTools(server, profiles);
+
+    // Configure callback event tools (requires the built-in callback listener)
+    if (context.eventLog) {
+      configureEventTools(server, context.eventLog);
+    }
 
-  // Configure payment-related tools (requires POSKey)
-  if (credentials.poskey) {
-    configurePaymentTools(server, credentials.poskey, environment);
-  }
+    // Configure audit tools (requires the audit log)
+    if (context.auditLog) {
+      configureAuditTools(server, context.auditLog);
+    }
+  });
 
-  // Configure wallet-related tools (requires API Key)
-  if (credentials.apiKey) {
-    configureWalletTools(server, credentials.apiKey, environment);
-  }
+  log.info(`Exposed ${exposed.length} tools (filter: ${filter.describe()}): ${exposed.join(', ') || 'none'}`);
+  return exposed;
 }
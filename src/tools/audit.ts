@@ -0,0 +1,132 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { AuditLog } from '../utils/audit-log.js';
+import { formatResponse, formatAuditEntries, formatAuditVerification } from '../utils/response-formatter.js';
+import { formatBarionError } from '../utils/error-handler.js';
+import { auditEntriesOutputShape, auditVerificationOutputShape, structuredOutput } from './output-schemas.js';
+
+const dateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Use an ISO 8601 date or date-time, e.g. 2025-01-31 or 2025-01-31T12:00:00Z');
+
+export function configureAuditTools(server: McpServer, auditLog: AuditLog) {
+  // Tool: Verify Audit Log
+  server.registerTool(
+    'verify_audit_log',
+    {
+      description: `Verify that the local audit log of tool calls has not been tampered with.
+
+Every tool call made through this server is appended to a JSONL audit log. Each entry contains the SHA-256 hash of the previous entry, so editing, deleting, inserting or reordering lines breaks the chain.
+
+This tool re-reads the log file from disk and recomputes the whole chain. It reports the first broken line if the log was modified.
+
+WHEN TO USE:
+- Compliance checks and periodic audits
+- Before relying on query_audit_log results for an investigation`,
+      inputSchema: {
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: auditVerificationOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        const result = await auditLog.verify();
+        const formatted = formatResponse(result, args.format, args.detail, formatAuditVerification);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatted,
+            },
+          ],
+          structuredContent: structuredOutput(auditVerificationOutputShape, result),
+          isError: !result.valid,
+        };
+      } catch (error: unknown) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBarionError('Verify Audit Log', error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: Query Audit Log
+  server.registerTool(
+    'query_audit_log',
+    {
+      description: `Search the local audit log of tool calls made through this server.
+
+Each entry records the time, tool name, arguments (secrets and personal data redacted), profile and environment, result status (success, error or cancelled), Barion IDs returned and the duration.
+
+WHEN TO USE:
+- Find out what was done to a payment: filter by paymentId
+- Review all refunds, transfers or withdrawals: filter by tool
+- Review activity in a period: filter by from/to
+
+RESPONSE:
+Entries are returned most recent first.`,
+      inputSchema: {
+        tool: z.string().optional().describe('Optional: Only entries for this tool, e.g. "refund_payment"'),
+        paymentId: z.string().optional().describe('Optional: Only entries that used or returned this Barion payment ID'),
+        status: z.enum(['success', 'error', 'cancelled']).optional().describe('Optional: Only entries with this result status'),
+        from: dateSchema.optional().describe('Optional: Only entries at or after this date/time (ISO 8601)'),
+        to: dateSchema.optional().describe('Optional: Only entries at or before this date/time (ISO 8601, a bare date includes the whole day)'),
+        limit: z.number().int().min(1).max(200).default(50).describe('Maximum number of entries to return (default: 50, maximum: 200)'),
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: auditEntriesOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        const entries = auditLog.query({
+          tool: args.tool,
+          paymentId: args.paymentId,
+          status: args.status,
+          from: args.from && new Date(args.from).toISOString(),
+          to: args.to && (args.to.length === 10 ? args.to : new Date(args.to).toISOString()),
+          limit: args.limit,
+        });
+        const formatted = formatResponse(entries, args.format, args.detail, formatAuditEntries);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatted,
+            },
+          ],
+          structuredContent: { entries },
+        };
+      } catch (error: unknown) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBarionError('Query Audit Log', error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
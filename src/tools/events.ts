@@ -0,0 +1,53 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { PaymentEventLog } from '../utils/payment-event-log.js';
+import { formatResponse, formatPaymentEvents } from '../utils/response-formatter.js';
+import { paymentEventsOutputShape } from './output-schemas.js';
+
+export function configureEventTools(server: McpServer, eventLog: PaymentEventLog) {
+  // Tool: List Payment Events
+  server.registerTool(
+    'list_payment_events',
+    {
+      description: `List payment status changes received by the built-in Barion callback listener.
+
+Whenever Barion POSTs a callback to this server's listener, the server fetches the payment state and records the transition (previous status → new status) here. Use this tool instead of polling get_payment_state to find out what happened to your payments.
+
+WHEN TO USE:
+- After start_payment, to check whether the customer has completed the payment
+- To see the history of a payment's status transitions
+- To find payments that changed recently
+
+RESPONSE:
+Events are returned most recent first. Each event contains the PaymentId, PaymentRequestId, previous and new status, amount and the transaction statuses. Events with an error mean the callback was received but the payment state could not be fetched.
+
+IMPORTANT: Only callbacks sent to this server's listener are recorded. Payments created with a different callbackUrl will not appear here.`,
+      inputSchema: {
+        paymentId: z.string().optional().describe('Optional: Only show events for this Barion payment ID'),
+        limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of events to return (default: 20, maximum: 100)'),
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: paymentEventsOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      const events = eventLog.list({ paymentId: args.paymentId, limit: args.limit });
+      const formatted = formatResponse(events, args.format, args.detail, formatPaymentEvents);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatted,
+          },
+        ],
+        structuredContent: { events },
+      };
+    }
+  );
+}
@@ -0,0 +1,90 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { HoldRegister, isOpen } from '../utils/hold-register.js';
+import { ProfileRegistry } from '../utils/profiles.js';
+import { formatResponse, formatExpiringHolds } from '../utils/response-formatter.js';
+import { formatBarionError } from '../utils/error-handler.js';
+import { profileParam } from './profiles.js';
+import { expiringHoldsOutputShape, structuredOutput } from './output-schemas.js';
+
+export function configureHoldTools(server: McpServer, profiles: ProfileRegistry, holds: HoldRegister) {
+  // Tool: List Expiring Holds
+  server.registerTool(
+    'list_expiring_holds',
+    {
+      description: `List Reservation and DelayedCapture payments whose hold expires soon, with the amounts still held.
+
+The server keeps a register of Reservation and DelayedCapture payments created with start_payment or looked up with get_payment_state, including their ReservedUntil deadlines. This tool first refreshes the open ones from Barion, then lists the holds that expire within the given number of hours, soonest first.
+
+WHEN TO USE:
+- Daily, to make sure no reservation or authorization expires unnoticed
+- Before a weekend or holiday
+- When asked which payments still need to be finished or captured
+
+WHAT HAPPENS AT THE DEADLINE:
+- Reservation: Barion finishes the payment with the full reserved amount; partial finishes are no longer possible
+- DelayedCapture: the authorization expires and the funds are released to the customer
+
+RESPONSE:
+For every hold: the payment, its status, the held/captured/remaining amounts, the deadline and hours left, and the tools that end it (finish_reservation, or capture_payment/cancel_authorization). Also lists holds that ended since the last check and payments the customer has not paid yet.
+
+IMPORTANT: Only payments this server has seen are registered. Payments created elsewhere appear after looking them up with get_payment_state.`,
+      inputSchema: {
+        withinHours: z.number().positive().max(24 * 30).default(48).describe('Show holds that expire within this many hours (default: 48). Holds whose deadline already passed are always shown'),
+        refresh: z.boolean().default(true).describe('Look up the open payments in Barion first (default: true). Set to false to use the register only'),
+        profile: profileParam(profiles.paymentProfileNames()).describe('Optional: Only show holds of this profile. Defaults to every profile'),
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: expiringHoldsOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args) => {
+      try {
+        const ended: { paymentId: string; previousStatus: string; status: string }[] = [];
+        const refreshErrors: { paymentId: string; error: string }[] = [];
+        if (args.refresh) {
+          for (const payment of holds.openPayments(args.profile)) {
+            try {
+              const state = await profiles.paymentClient(payment.profile).getPaymentState(payment.paymentId);
+              await holds.recordState(state, payment.profile);
+              const current = holds.get(payment.paymentId);
+              if (current && !isOpen(current)) {
+                ended.push({ paymentId: payment.paymentId, previousStatus: payment.status, status: current.status });
+              }
+            } catch (error: unknown) {
+              refreshErrors.push({ paymentId: payment.paymentId, error: error instanceof Error ? error.message : String(error) });
+            }
+          }
+        }
+
+        const result = { ...holds.expiring(args.withinHours, { profile: args.profile }), ended, refreshErrors };
+        const formatted = formatResponse(result, args.format, args.detail, formatExpiringHolds);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatted,
+            },
+          ],
+          structuredContent: structuredOutput(expiringHoldsOutputShape, result),
+        };
+      } catch (error: unknown) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBarionError('List Expiring Holds', error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,376 @@
+import { ZodRawShape, z } from 'zod';
+
+// ============================================================================
+// Output schemas of the tools (structuredContent)
+//
+// Top-level fields follow the typed client responses. Nested Barion objects
+// allow fields that are not listed, so new API fields do not break validation.
+// Status-like fields are plain strings for the same reason.
+// ============================================================================
+
+// Barion leaves out optional fields or sends them as null
+const optionalString = z.string().nullish();
+const optionalNumber = z.number().nullish();
+
+const barionErrorSchema = z
+  .object({
+    ErrorCode: z.string().nullish(),
+    Title: z.string().nullish(),
+    Description: z.string().nullish(),
+    AuthData: z.string().nullish(),
+    EndPoint: z.string().nullish(),
+  })
+  .passthrough();
+
+const errorsField = z.array(barionErrorSchema).nullish().describe('Errors reported by Barion (empty on success)');
+
+const transactionDetailSchema = z
+  .object({
+    TransactionId: z.string(),
+    POSTransactionId: optionalString,
+    TransactionTime: optionalString,
+    Total: z.number(),
+    Currency: optionalString,
+    Payer: z.object({ Name: optionalString, Email: optionalString }).passthrough().nullish(),
+    Payee: optionalString,
+    Comment: optionalString,
+    Status: z.string().describe('Transaction status, e.g. Prepared, Succeeded, Reserved, Authorized, Refunded'),
+    TransactionType: optionalString.describe('e.g. Shop, Refund'),
+    Items: z
+      .array(
+        z
+          .object({
+            Name: optionalString,
+            Description: optionalString,
+            Quantity: optionalNumber,
+            Unit: optionalString,
+            UnitPrice: optionalNumber,
+            ItemTotal: optionalNumber,
+            SKU: optionalString,
+          })
+          .passthrough()
+      )
+      .nullish(),
+    RelatedId: optionalString.describe('For refunds: the refunded transaction'),
+    POSTransactionTime: optionalString,
+  })
+  .passthrough();
+
+const paymentStatusField = z
+  .string()
+  .describe('Payment status: Prepared, Started, InProgress, Waiting, Reserved, Authorized, Canceled, Succeeded, Failed, PartiallySucceeded or Expired');
+
+// start_payment and charge_recurring (StartPaymentResponse)
+export const startPaymentOutputShape = {
+  PaymentId: z.string(),
+  PaymentRequestId: z.string(),
+  Status: paymentStatusField,
+  QRUrl: optionalString,
+  RecurrenceResult: optionalString.describe('None, Successful, Failed or NotFound'),
+  GatewayUrl: z.string().describe('Where the customer completes the payment'),
+  RedirectUrl: optionalString,
+  CallbackUrl: optionalString,
+  Transactions: z.array(transactionDetailSchema).nullish(),
+  Errors: errorsField,
+};
+
+// validate_payment (CartValidation)
+export const cartValidationOutputShape = {
+  valid: z.boolean().describe('False when Barion would reject the cart'),
+  currency: z.string(),
+  total: z.number().describe('Sum of the transaction totals'),
+  transactions: z.array(
+    z.object({
+      posTransactionId: z.string(),
+      total: z.number(),
+      itemsTotal: z.number(),
+      items: z.number(),
+    })
+  ),
+  issues: z.array(
+    z.object({
+      path: z.string().describe('Offending field, e.g. transactions[0].items[1].itemTotal'),
+      message: z.string(),
+      suggestion: z.union([z.string(), z.number()]).optional().describe('Corrected value'),
+    })
+  ),
+};
+
+// get_payment_state (PaymentStateResponse)
+export const paymentStateOutputShape = {
+  PaymentId: z.string(),
+  PaymentRequestId: z.string(),
+  OrderNumber: optionalString,
+  POSId: optionalString,
+  POSName: optionalString,
+  Status: paymentStatusField,
+  PaymentType: z.string().describe('Immediate, Reservation or DelayedCapture'),
+  FundingSource: optionalString,
+  FundingSources: z.array(z.string()).nullish(),
+  AllowedFundingSources: z.array(z.string()).nullish(),
+  GuestCheckout: z.boolean().nullish(),
+  CreatedAt: optionalString,
+  ValidUntil: optionalString,
+  CompletedAt: optionalString,
+  ReservedUntil: optionalString.describe('Reservation and DelayedCapture: when the hold expires'),
+  Total: z.number(),
+  Currency: z.string(),
+  Transactions: z.array(transactionDetailSchema),
+  SuggestedLocale: optionalString,
+  FraudRiskScore: optionalNumber,
+  RedirectUrl: optionalString,
+  CallbackUrl: optionalString,
+  RecurrenceId: optionalString,
+  RecurrenceType: optionalString,
+  TraceId: optionalString,
+  Errors: errorsField,
+};
+
+// finish_reservation and capture_payment (FinishReservationResponse, CapturePaymentResponse)
+export const finishPaymentOutputShape = {
+  IsSuccessful: z.boolean(),
+  PaymentId: z.string(),
+  PaymentRequestId: z.string(),
+  Status: paymentStatusField,
+  Transactions: z.array(transactionDetailSchema).nullish(),
+  Errors: errorsField,
+};
+
+// refund_payment (RefundPaymentResponse)
+export const refundOutputShape = {
+  PaymentId: z.string(),
+  RefundedTransactions: z
+    .array(
+      z
+        .object({
+          TransactionId: z.string().describe('ID of the refund transaction'),
+          Total: z.number(),
+          POSTransactionId: optionalString,
+          Comment: optionalString,
+          Status: z.string(),
+        })
+        .passthrough()
+    )
+    .describe('One refund transaction per refunded transaction'),
+  Errors: errorsField,
+};
+
+// get_refundable_amounts (RefundableAmounts)
+export const refundableAmountsOutputShape = {
+  paymentId: z.string(),
+  paymentStatus: z.string(),
+  currency: z.string(),
+  refundable: z.number().describe('Sum of what can still be refunded'),
+  transactions: z.array(
+    z.object({
+      transactionId: z.string(),
+      posTransactionId: optionalString,
+      status: z.string(),
+      total: z.number(),
+      refunded: z.number(),
+      refundable: z.number(),
+      refunds: z.array(
+        z.object({
+          transactionId: z.string(),
+          amount: z.number(),
+          status: z.string(),
+          time: optionalString,
+          comment: optionalString,
+        })
+      ),
+      reason: z.string().optional().describe('Why nothing can be refunded'),
+    })
+  ),
+  reason: z.string().optional(),
+};
+
+// cancel_authorization (CancelAuthorizationResponse)
+export const cancelAuthorizationOutputShape = {
+  IsSuccessful: z.boolean(),
+  PaymentId: z.string(),
+  PaymentRequestId: z.string(),
+  Status: paymentStatusField,
+  Errors: errorsField,
+};
+
+const walletAccountSchema = z
+  .object({
+    Id: z.string(),
+    Owner: optionalString,
+    Balance: z.number(),
+    Currency: z.string(),
+  })
+  .passthrough();
+
+// get_wallet_accounts and get_wallet_balance (WalletAccount[])
+export const walletAccountsOutputShape = {
+  Accounts: z.array(walletAccountSchema),
+};
+
+const statementSchema = z
+  .object({
+    TransactionId: z.string(),
+    Currency: z.string(),
+    Amount: z.number().describe('Positive for incoming, negative for outgoing money'),
+    TransactionTime: optionalString,
+    Comment: optionalString,
+    Type: optionalString,
+  })
+  .passthrough();
+
+// get_wallet_statement and get_user_history (Statement[])
+export const walletStatementOutputShape = {
+  Transactions: z.array(statementSchema),
+};
+
+// withdraw_to_bank (WithdrawResponse)
+export const withdrawOutputShape = {
+  IsSuccessful: z.boolean(),
+  TransactionId: optionalString,
+  Errors: errorsField,
+};
+
+// send_money (SendMoneyResponse)
+export const sendMoneyOutputShape = {
+  IsSuccessful: z.boolean(),
+  TransactionId: optionalString,
+  SourceAccountId: optionalString,
+  TargetEmail: optionalString,
+  Amount: z.object({ Currency: z.string(), Value: z.number() }).passthrough().nullish(),
+  Errors: errorsField,
+};
+
+// list_profiles (ProfileSummary[])
+export const profilesOutputShape = {
+  profiles: z.array(
+    z.object({
+      name: z.string(),
+      environment: z.enum(['test', 'prod']),
+      description: z.string().optional(),
+      paymentTools: z.boolean(),
+      walletTools: z.boolean(),
+      defaultForPayments: z.boolean(),
+      defaultForWallet: z.boolean(),
+      paymentDefaults: z.record(z.unknown()).optional(),
+    })
+  ),
+};
+
+// list_payment_events (PaymentEvent[])
+export const paymentEventsOutputShape = {
+  events: z.array(
+    z.object({
+      receivedAt: z.string(),
+      paymentId: z.string(),
+      paymentRequestId: z.string().optional(),
+      previousStatus: z.string().optional(),
+      status: z.string().optional(),
+      changed: z.boolean(),
+      paymentType: z.string().optional(),
+      total: z.number().optional(),
+      currency: z.string().optional(),
+      transactions: z
+        .array(z.object({ transactionId: z.string(), posTransactionId: z.string(), status: z.string(), total: z.number() }))
+        .optional(),
+      error: z.string().optional(),
+    })
+  ),
+};
+
+// list_expiring_holds (ExpiringHolds and what the refresh found)
+export const expiringHoldsOutputShape = {
+  checkedAt: z.string(),
+  withinHours: z.number(),
+  holds: z.array(
+    z.object({
+      paymentId: z.string(),
+      paymentRequestId: z.string(),
+      profile: z.string(),
+      paymentType: z.string(),
+      status: z.string(),
+      currency: z.string(),
+      held: z.number().describe('Amount reserved or authorized'),
+      captured: z.number(),
+      remaining: z.number().describe('Amount still held, lost or released when the hold expires'),
+      reservedUntil: z.string().optional(),
+      hoursLeft: z.number().optional(),
+      overdue: z.boolean().describe('The deadline passed, but the payment was not seen settling'),
+      operations: z.array(z.string()).describe('Tools that end the hold'),
+      transactions: z.array(z.object({ transactionId: z.string(), posTransactionId: optionalString, status: z.string(), total: z.number() })),
+      updatedAt: z.string(),
+    })
+  ),
+  unpaid: z.array(
+    z.object({
+      paymentId: z.string(),
+      profile: z.string(),
+      paymentType: z.string(),
+      status: z.string(),
+      validUntil: z.string().optional(),
+    })
+  ),
+  ended: z
+    .array(z.object({ paymentId: z.string(), previousStatus: z.string(), status: z.string() }))
+    .describe('Holds found settled by the refresh (finished, captured, cancelled or expired)'),
+  refreshErrors: z.array(z.object({ paymentId: z.string(), error: z.string() })),
+};
+
+// search_payments (PaymentSearchResult)
+export const paymentSearchOutputShape = {
+  matches: z.number().describe('Number of matching payments, including those beyond the limit'),
+  payments: z.array(
+    z.object({
+      paymentId: z.string(),
+      paymentRequestId: z.string(),
+      orderNumber: optionalString,
+      profile: z.string(),
+      paymentType: z.string(),
+      status: z.string().describe('Last status seen by this server'),
+      currency: z.string(),
+      total: z.number(),
+      transactions: z.array(
+        z.object({ posTransactionId: z.string(), transactionId: optionalString, payee: z.string(), total: z.number(), status: optionalString })
+      ),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    })
+  ),
+};
+
+// query_audit_log (AuditEntry[])
+export const auditEntriesOutputShape = {
+  entries: z.array(
+    z.object({
+      seq: z.number(),
+      timestamp: z.string(),
+      tool: z.string(),
+      arguments: z.record(z.unknown()),
+      profile: z.string().optional(),
+      environment: z.string().optional(),
+      status: z.enum(['success', 'error', 'cancelled']),
+      error: z.string().optional(),
+      barionIds: z.record(z.array(z.string())),
+      durationMs: z.number(),
+      prevHash: z.string(),
+      hash: z.string(),
+    })
+  ),
+};
+
+// verify_audit_log (AuditVerification)
+export const auditVerificationOutputShape = {
+  valid: z.boolean(),
+  entries: z.number(),
+  lastHash: z.string(),
+  brokenAt: z.object({ line: z.number(), seq: z.number().optional(), reason: z.string() }).optional(),
+};
+
+/**
+ * structuredContent for a tool: the response fields declared in its output
+ * schema. Other top-level fields are left out because clients validate
+ * structuredContent against the schema.
+ */
+export function structuredOutput(shape: ZodRawShape, data: object): Record<string, unknown> {
+  const record = data as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(shape).filter((key) => record[key] !== undefined).map((key) => [key, record[key]]));
+}
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { FUNDING_SOURCES, LOCALES, isValidPaymentWindow } from '../utils/barion-client.js';
+
+// ============================================================================
+// Shared Zod schemas for payment tools
+// ============================================================================
+
+export const paymentItemSchema = z.object({
+  name: z.string().describe('Item name'),
+  description: z.string().describe('Item description'),
+  quantity: z.number().positive().describe('Quantity (must be positive)'),
+  unit: z.string().describe('Unit (e.g., piece, hour)'),
+  unitPrice: z.number().positive().describe('Unit price (must be positive)'),
+  itemTotal: z.number().positive().describe('Total price for this item (must be positive)'),
+});
+
+export const paymentTransactionSchema = z.object({
+  posTransactionId: z.string().describe('Unique ID for this transaction'),
+  payee: z.string().email().describe('Email address of the payee (must be a registered Barion user)'),
+  total: z.number().positive().describe('Total amount (must be positive)'),
+  items: z.array(paymentItemSchema),
+});
+
+export const refundTransactionSchema = z.object({
+  transactionId: z.string().describe('The transaction ID to refund (from get_payment_state or get_refundable_amounts)'),
+  posTransactionId: z.string().optional().describe('Optional: Your ID for the refund transaction'),
+  amount: z.number().positive().describe('Amount to refund from this transaction (must be positive, cannot exceed what is still refundable)'),
+  comment: z.string().optional().describe('Optional comment for this refund'),
+  items: z.array(paymentItemSchema).optional().describe('Optional: The refunded items, e.g. the returned products'),
+});
+
+export const recurrenceTypeSchema = z.enum(['MerchantInitiatedPayment', 'OneClickPayment', 'RecurringPayment']);
+
+// ============================================================================
+// Gateway options (fall back to server-level defaults when omitted)
+// ============================================================================
+
+export const paymentOptionsShape = {
+  fundingSources: z
+    .array(z.enum(FUNDING_SOURCES))
+    .min(1)
+    .optional()
+    .describe('Allowed funding sources: "All", "Balance" (Barion wallet), "BankCard", "GooglePay", "ApplePay". Defaults to the server setting, or ["All"]'),
+  guestCheckout: z.boolean().optional().describe('Allow paying without a Barion account. Defaults to the server setting, or true'),
+  locale: z.enum(LOCALES).optional().describe('Payment gateway language (e.g., "hu-HU", "cs-CZ", "en-US"). Defaults to the server setting, or "en-US"'),
+  paymentWindow: z
+    .string()
+    .refine(isValidPaymentWindow, 'Must be a time span "[d.]hh:mm:ss" between 00:01:00 and 7.00:00:00')
+    .optional()
+    .describe('How long the customer has to complete the payment, as "[d.]hh:mm:ss" (e.g., "00:30:00" or "1.00:00:00"). Defaults to the server setting, or Barion\'s 30 minutes'),
+  orderNumber: z.string().max(100).optional().describe('Your order number, shown to the customer and in Barion reports'),
+};
+
+// paymentDefaults of a profile in the profiles file; unknown keys are rejected so typos do not go unnoticed
+export const paymentDefaultsSchema = z
+  .object({
+    fundingSources: paymentOptionsShape.fundingSources,
+    guestCheckout: paymentOptionsShape.guestCheckout,
+    locale: paymentOptionsShape.locale,
+    paymentWindow: paymentOptionsShape.paymentWindow,
+    redirectUrl: z.string().url().optional(),
+    callbackUrl: z.string().url().optional(),
+  })
+  .strict();
+
+// ============================================================================
+// 3D Secure 2 payer data
+// ============================================================================
+
+// ISO 3166-1 alpha-2 country code, uppercase (e.g., HU, CZ, DE)
+const countryCodeSchema = z.string().regex(/^[A-Z]{2}$/, 'Must be an uppercase ISO 3166-1 alpha-2 country code (e.g., "HU")');
+
+// E.164-style phone number: optional '+', country code and subscriber number, 8-15 digits in total.
+// Spaces, dashes and parentheses are removed before the check, so "+36 (30) 123-4567" is accepted
+const phoneNumberSchema = z
+  .string()
+  .transform((value) => value.replace(/[\s\-()]/g, ''))
+  .pipe(z.string().regex(/^\+?[1-9]\d{7,14}$/, 'Must be an E.164 phone number with country code (e.g., "+36301234567")'));
+
+const dateTimeSchema = z.string().datetime({ offset: true });
+
+const periodIndicatorValues = ['LessThan30Days', 'Between30And60Days', 'MoreThan60Days'] as const;
+
+export const billingAddressSchema = z.object({
+  country: countryCodeSchema.describe('ISO 3166-1 alpha-2 country code (e.g., "HU")'),
+  city: z.string().max(50).optional().describe('City name'),
+  region: z.string().max(3).optional().describe('ISO 3166-2 subdivision code without the country prefix (e.g., "BU")'),
+  zip: z.string().max(16).optional().describe('Postal code'),
+  street: z.string().max(50).optional().describe('Street address line 1'),
+  street2: z.string().max(50).optional().describe('Street address line 2'),
+  street3: z.string().max(50).optional().describe('Street address line 3'),
+});
+
+export const shippingAddressSchema = billingAddressSchema.extend({
+  fullName: z.string().max(45).optional().describe('Full name of the recipient'),
+});
+
+export const payerAccountInformationSchema = z.object({
+  accountId: z.string().max(64).optional().describe("Payer's account ID in your shop"),
+  accountCreated: dateTimeSchema.optional().describe('When the payer account was created (ISO 8601)'),
+  creationIndicator: z
+    .enum(['NoAccount', 'CreatedDuringThisTransaction', ...periodIndicatorValues])
+    .optional()
+    .describe('Age of the payer account'),
+  accountLastChanged: dateTimeSchema.optional().describe('When the payer account was last changed (ISO 8601)'),
+  changeIndicator: z
+    .enum(['ChangedDuringThisTransaction', ...periodIndicatorValues])
+    .optional()
+    .describe('How recently the payer account was changed'),
+  passwordLastChanged: dateTimeSchema.optional().describe('When the payer password was last changed (ISO 8601)'),
+  passwordChangeIndicator: z
+    .enum(['NoChange', 'ChangedDuringThisTransaction', ...periodIndicatorValues])
+    .optional()
+    .describe('How recently the payer password was changed'),
+  purchasesInTheLast6Months: z.number().int().min(0).optional().describe('Number of purchases in the last 6 months'),
+  shippingAddressAdded: dateTimeSchema.optional().describe('When the shipping address was first used (ISO 8601)'),
+  shippingAddressUsageIndicator: z
+    .enum(['ThisTransaction', ...periodIndicatorValues])
+    .optional()
+    .describe('How long the shipping address has been in use'),
+  provisionAttempts: z.number().int().min(0).optional().describe('Card add attempts in the last 24 hours'),
+  transactionalActivityPerDay: z.number().int().min(0).optional().describe('Transactions in the last 24 hours'),
+  transactionalActivityPerYear: z.number().int().min(0).optional().describe('Transactions in the last year'),
+  paymentMethodAdded: dateTimeSchema.optional().describe('When the payment method was added (ISO 8601)'),
+  paymentMethodIndicator: z
+    .enum(['NoAccount', 'ThisTransaction', ...periodIndicatorValues])
+    .optional()
+    .describe('How long the payment method has been stored'),
+  suspiciousActivityIndicator: z
+    .enum(['NoSuspiciousActivityObserved', 'SuspiciousActivityObserved'])
+    .optional()
+    .describe('Whether suspicious activity was observed on the account'),
+});
+
+export const purchaseInformationSchema = z.object({
+  deliveryTimeframe: z
+    .enum(['ElectronicDelivery', 'SameDayShipping', 'OvernightShipping', 'TwoDayOrMoreShipping'])
+    .optional()
+    .describe('Delivery timeframe'),
+  deliveryEmailAddress: z.string().email().optional().describe('Email address for electronic delivery'),
+  preOrderDate: dateTimeSchema.optional().describe('Expected availability date for pre-ordered goods (ISO 8601)'),
+  availabilityIndicator: z.enum(['MerchandiseAvailable', 'FutureAvailability']).optional().describe('Merchandise availability'),
+  reOrderIndicator: z.enum(['FirstTimeOrdered', 'Reordered']).optional().describe('Whether the payer ordered this before'),
+  shippingAddressIndicator: z
+    .enum([
+      'ShipToCardholdersBillingAddress',
+      'ShipToAnotherVerifiedAddress',
+      'ShipToDifferentAddress',
+      'ShipToStore',
+      'DigitalGoods',
+      'TravelAndEventTickets',
+      'Other',
+    ])
+    .optional()
+    .describe('Shipping method'),
+  recurringExpiry: dateTimeSchema.optional().describe('Date after which no further recurring charges are made (ISO 8601)'),
+  recurringFrequency: z.number().int().min(0).max(9999).optional().describe('Minimum number of days between recurring charges'),
+  purchaseType: z
+    .enum(['GoodsAndServicePurchase', 'CheckAcceptance', 'AccountFunding', 'QuasiCashTransaction', 'PrePaidVacationAndLoad'])
+    .optional()
+    .describe('Type of purchase'),
+  giftCardPurchase: z
+    .object({
+      amount: z.number().positive().describe('Total gift card amount'),
+      count: z.number().int().min(1).max(99).describe('Number of gift cards'),
+    })
+    .optional()
+    .describe('Gift card purchase details'),
+  purchaseDate: dateTimeSchema.optional().describe('Date of the purchase (ISO 8601)'),
+});
+
+export const threeDSPayerDataShape = {
+  payerHint: z.string().email().optional().describe("Payer's email address, pre-filled on the payment page"),
+  cardHolderNameHint: z.string().min(2).max(45).optional().describe('Cardholder name, pre-filled on the payment page'),
+  payerPhoneNumber: phoneNumberSchema.optional().describe('Payer mobile phone number with country code (e.g., "+36301234567")'),
+  payerWorkPhoneNumber: phoneNumberSchema.optional().describe('Payer work phone number with country code'),
+  payerHomeNumber: phoneNumberSchema.optional().describe('Payer home phone number with country code'),
+  billingAddress: billingAddressSchema.optional().describe('Billing address of the payer'),
+  shippingAddress: shippingAddressSchema.optional().describe('Shipping address of the order'),
+  payerAccountInformation: payerAccountInformationSchema.optional().describe("Information about the payer's account in your shop"),
+  purchaseInformation: purchaseInformationSchema.optional().describe('Information about the purchase'),
+  challengePreference: z
+    .enum(['NoPreference', 'ChallengeRequired', 'NoChallengeNeeded'])
+    .optional()
+    .describe('3DS challenge preference: "NoPreference", "ChallengeRequired", or "NoChallengeNeeded"'),
+};
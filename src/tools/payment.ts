@@ -1,16 +1,119 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { BarionClient } from '../utils/barion-client.js';
-import { formatResponse, formatPaymentState, formatSuccessResponse } from '../utils/response-formatter.js';
+import { ProfileRegistry } from '../utils/profiles.js';
+import { Confirmer, requireApproval } from '../utils/confirmation.js';
+import { SpendingPolicy } from '../utils/spending-policy.js';
+import { formatResponse, formatPaymentState, formatSuccessResponse, formatRecurringCharge, formatCartValidation, formatRefundableAmounts } from '../utils/response-formatter.js';
+import { assertValidCart, validateCart } from '../utils/cart-validation.js';
+import { computeRefundableAmounts } from '../utils/refunds.js';
+import { PaymentOperation, assertOperationAllowed } from '../utils/payment-state-machine.js';
+import { HoldRegister } from '../utils/hold-register.js';
+import { PaymentRegistry } from '../utils/payment-registry.js';
+import { PaymentStateResponse, RefundTransactionRequest } from '../utils/barion-client.js';
 import { formatBarionError } from '../utils/error-handler.js';
+import { createLogger } from '../utils/logger.js';
+import { profileParam } from './profiles.js';
+import { paymentOptionsShape, paymentTransactionSchema, recurrenceTypeSchema, refundTransactionSchema, threeDSPayerDataShape } from './payment-schemas.js';
+import {
+  cancelAuthorizationOutputShape,
+  cartValidationOutputShape,
+  finishPaymentOutputShape,
+  paymentStateOutputShape,
+  refundOutputShape,
+  refundableAmountsOutputShape,
+  startPaymentOutputShape,
+  structuredOutput,
+} from './output-schemas.js';
+
+const log = createLogger('Payment Tools');
+
+// The transactions of a refund_payment call, from either its single- or several-transactions form
+function refundTransactions(args: {
+  transactionId?: string;
+  amount?: number;
+  comment?: string;
+  transactions?: RefundTransactionRequest[];
+}): RefundTransactionRequest[] {
+  if (args.transactions && (args.transactionId || args.amount !== undefined)) {
+    throw new Error('Provide either transactionId and amount, or transactions, not both');
+  }
+  const transactions = args.transactions
+    ?? (args.transactionId && args.amount !== undefined ? [{ transactionId: args.transactionId, amount: args.amount, comment: args.comment }] : []);
+  if (transactions.length === 0) {
+    throw new Error('Provide transactionId and amount, or transactions, to say what to refund');
+  }
+  const ids = transactions.map((t) => t.transactionId);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Transaction ${duplicate} appears more than once; refund it with a single entry`);
+  }
+  return transactions;
+}
+
+export function configurePaymentTools(
+  server: McpServer,
+  profiles: ProfileRegistry,
+  confirm: Confirmer,
+  policy?: SpendingPolicy,
+  stateChecks = true,
+  holds?: HoldRegister,
+  payments?: PaymentRegistry
+) {
+  const profile = profileParam(profiles.paymentProfileNames());
+
+  // Look a payment up by its Barion PaymentId, or by our own references through the payment registry
+  const lookUpPayment = async (args: {
+    paymentId?: string;
+    paymentRequestId?: string;
+    posTransactionId?: string;
+    profile?: string;
+  }): Promise<{ state: PaymentStateResponse; profileName: string }> => {
+    const references = [args.paymentId, args.paymentRequestId, args.posTransactionId].filter((reference) => reference !== undefined);
+    if (references.length !== 1) {
+      throw new Error('Provide exactly one of paymentId, paymentRequestId or posTransactionId');
+    }
+    if (args.paymentId) {
+      const client = profiles.paymentClient(args.profile);
+      return { state: await client.getPaymentState(args.paymentId), profileName: profiles.paymentProfile(args.profile).name };
+    }
 
-export function configurePaymentTools(server: McpServer, poskey: string, environment: 'test' | 'prod' = 'test') {
-  const client = new BarionClient(poskey, environment);
+    // Barion only looks payments up by PaymentId
+    const registered = payments?.findByReference(args);
+    if (!registered) {
+      const reference = args.paymentRequestId ? `PaymentRequestId ${args.paymentRequestId}` : `POSTransactionId ${args.posTransactionId}`;
+      throw new Error(`No payment with ${reference} in the payment registry. Use search_payments to find the payment, or pass its paymentId`);
+    }
+    const profileName = profiles.paymentProfile(args.profile ?? registered.profile).name;
+    return { state: await profiles.paymentClient(profileName).getPaymentState(registered.paymentId), profileName };
+  };
+
+  // Reject operations that the live payment state does not allow, before asking for approval
+  const checkPaymentState = async (profileName: string | undefined, paymentId: string, operation: PaymentOperation, transactionIds?: string[]) => {
+    if (stateChecks) {
+      const state = await profiles.paymentClient(profileName).getPaymentState(paymentId);
+      assertOperationAllowed(state, operation, transactionIds);
+    }
+  };
+
+  // A refund changes the transaction statuses, so the registers note the fresh state; the refund itself already succeeded
+  const recordRefund = async (profileName: string, paymentId: string) => {
+    if (!holds && !payments) {
+      return;
+    }
+    try {
+      const state = await profiles.paymentClient(profileName).getPaymentState(paymentId);
+      await holds?.recordState(state, profileName);
+      await payments?.recordState(state, profileName);
+    } catch (error: unknown) {
+      log.warn(`Could not refresh payment ${paymentId} after the refund`, error instanceof Error ? error.message : error);
+    }
+  };
 
   // Tool: Start Payment
-  server.tool(
+  server.registerTool(
     'start_payment',
-    `Start a new Barion payment transaction.
+    {
+      description: `Start a new Barion payment transaction.
 
 Creates a payment request and returns a payment URL where the customer can complete the payment. This is the primary tool for initiating any payment flow in Barion.
 
@@ -30,46 +133,52 @@ WORKFLOW:
 8. For DelayedCapture payments, call capture_payment to capture funds
 
 CALLBACK MECHANISM:
-The callbackUrl parameter is crucial - Barion will POST payment status updates to this URL whenever the payment state changes (e.g., Prepared → Started → Succeeded). This webhook approach is preferred over polling get_payment_state repeatedly. Set up an endpoint to receive these callbacks and trigger get_payment_state when notified.
+The callbackUrl parameter is crucial - Barion will POST payment status updates to this URL whenever the payment state changes (e.g., Prepared → Started → Succeeded). This webhook approach is preferred over polling get_payment_state repeatedly. Set up an endpoint to receive these callbacks and trigger get_payment_state when notified. Alternatively, subscribe to the barion://payment/{PaymentId} resource to be notified of status changes by this server.
+
+RECURRING PAYMENTS:
+To store the customer's card for later charges, set initiateRecurrence=true and provide your own recurrenceId (e.g. a subscription ID) plus a recurrenceType. Once the customer completes this first payment, the token is registered under that recurrenceId and can be charged later with charge_recurring - no gateway redirect needed.
+
+GATEWAY OPTIONS:
+fundingSources, guestCheckout, locale, paymentWindow, redirectUrl and callbackUrl fall back to the server-level defaults when omitted. Use locale to show the gateway in the customer's language (e.g., "hu-HU", "cs-CZ"), fundingSources=["Balance"] or ["BankCard"] to restrict how the customer can pay, and guestCheckout=false to require a Barion account. orderNumber is shown to the customer and in Barion reports.
+
+3D SECURE 2:
+Provide as much payer data as you have (payerHint, cardHolderNameHint, phone numbers, billingAddress, shippingAddress, payerAccountInformation, purchaseInformation). The card issuer uses it for risk assessment - the more data it gets, the more likely the payment is authenticated without a challenge. Country codes are ISO 3166-1 alpha-2 (e.g., "HU"), phone numbers include the country code (e.g., "+36301234567").
 
 RESPONSE:
 Returns a PaymentId (unique identifier for this payment), PaymentRequestId (your reference), Status (payment state), and GatewayUrl (where to send the customer).
 
-IMPORTANT: The payee email must be a registered Barion merchant account. All amounts must be positive numbers. The redirectUrl and callbackUrl must be valid HTTPS URLs (HTTP allowed only in test environment).`,
-    {
-      paymentType: z.enum(['Immediate', 'Reservation', 'DelayedCapture']).describe('The type of payment'),
-      currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
-      transactions: z.array(
-        z.object({
-          posTransactionId: z.string().describe('Unique ID for this transaction'),
-          payee: z.string().email().describe('Email address of the payee (must be a registered Barion user)'),
-          total: z.number().positive().describe('Total amount (must be positive)'),
-          items: z.array(
-            z.object({
-              name: z.string().describe('Item name'),
-              description: z.string().describe('Item description'),
-              quantity: z.number().positive().describe('Quantity (must be positive)'),
-              unit: z.string().describe('Unit (e.g., piece, hour)'),
-              unitPrice: z.number().positive().describe('Unit price (must be positive)'),
-              itemTotal: z.number().positive().describe('Total price for this item (must be positive)'),
-            })
-          ),
-        })
-      ).describe('Array of transactions'),
-      redirectUrl: z.string().url().describe('URL where the customer will be redirected after completing payment (success or failure). Example: "https://myshop.com/payment/return"'),
-      callbackUrl: z.string().url().describe('URL where Barion will POST payment status change notifications (webhook). Your server should listen here and call get_payment_state when notified. Example: "https://myshop.com/api/barion/callback"'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+IMPORTANT: The payee email must be a registered Barion merchant account. All amounts must be positive numbers. The cart is checked locally before it is sent (item totals, transaction totals, currency precision, unique posTransactionIds); use validate_payment to check it in advance. The redirectUrl and callbackUrl must be valid HTTPS URLs (HTTP allowed only in test environment).`,
+      inputSchema: {
+        paymentType: z.enum(['Immediate', 'Reservation', 'DelayedCapture']).describe('The type of payment'),
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
+        transactions: z.array(paymentTransactionSchema).describe('Array of transactions'),
+        redirectUrl: z.string().url().optional().describe('URL where the customer will be redirected after completing payment (success or failure). Defaults to the server setting, or the shop\'s URL configured in Barion. Example: "https://myshop.com/payment/return"'),
+        callbackUrl: z.string().url().optional().describe('URL where Barion will POST payment status change notifications (webhook). Your server should listen here and call get_payment_state when notified. Defaults to the server setting, or the shop\'s URL configured in Barion. Example: "https://myshop.com/api/barion/callback"'),
+        ...paymentOptionsShape,
+        initiateRecurrence: z.boolean().optional().describe('Set to true to register a recurrence token with this payment. Requires recurrenceId'),
+        recurrenceId: z.string().max(100).optional().describe('Your identifier for the recurrence token (e.g., subscription ID). Used later by charge_recurring'),
+        recurrenceType: recurrenceTypeSchema.optional().describe('Recurrence type: "MerchantInitiatedPayment" (merchant charges without the customer), "OneClickPayment" (customer-initiated with stored card), or "RecurringPayment" (fixed-schedule subscription)'),
+        ...threeDSPayerDataShape,
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: startPaymentOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.startPayment(args);
+        assertValidCart(args);
+
+        const result = await profiles.paymentClient(args.profile).startPayment(args);
+        const profileName = profiles.paymentProfile(args.profile).name;
+        await holds?.recordStarted(args, result, profileName);
+        await payments?.recordStarted(args, result, profileName);
         const formatted = formatResponse(
           result,
           args.format,
@@ -83,6 +192,7 @@ IMPORTANT: The payee email must be a registered Barion merchant account. All amo
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(startPaymentOutputShape, result),
         };
       } catch (error: unknown) {
         return {
@@ -98,10 +208,61 @@ IMPORTANT: The payee email must be a registered Barion merchant account. All amo
     }
   );
 
+  // Tool: Validate Payment
+  server.registerTool(
+    'validate_payment',
+    {
+      description: `Check a payment cart locally before calling start_payment. Never calls the Barion API.
+
+Runs the same checks start_payment runs before sending a payment, and reports every problem with the offending field and a suggested correction. Barion rejects these carts with a generic ModelValidationError that does not say which item is wrong.
+
+CHECKS:
+- Amount precision of the currency: whole numbers in HUF, at most 2 decimals in EUR, USD and CZK (total, unitPrice, itemTotal)
+- itemTotal equals quantity × unitPrice for every item
+- The items of a transaction add up to its total
+- Every transaction has at least one item
+- posTransactionId is unique within the payment
+
+WHEN TO USE:
+- Before start_payment or charge_recurring, when the cart was assembled from several sources (discounts, rounding, currency conversion)
+- After start_payment or charge_recurring failed with "Invalid Cart", to verify the corrected cart
+
+RESPONSE:
+Whether the cart is valid, the total per transaction and the sum of its items, and the list of problems with suggested values.`,
+      inputSchema: {
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
+        transactions: z.array(paymentTransactionSchema).describe('Array of transactions, as passed to start_payment'),
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: cartValidationOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      const result = validateCart(args);
+      const formatted = formatResponse(result, args.format, args.detail, formatCartValidation);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatted,
+          },
+        ],
+        structuredContent: structuredOutput(cartValidationOutputShape, result),
+      };
+    }
+  );
+
   // Tool: Get Payment State
-  server.tool(
+  server.registerTool(
     'get_payment_state',
-    `Get the current state and details of a payment transaction.
+    {
+      description: `Get the current state and details of a payment transaction.
 
 Retrieves comprehensive information about a payment including its status, transactions, amounts, and customer details. Use this tool to verify payment completion, check transaction status, or retrieve payment details for reporting.
 
@@ -123,25 +284,42 @@ PAYMENT STATES:
 - Canceled: Payment was canceled
 - Expired: Payment request expired (customer didn't complete in time)
 
+FINDING THE PAYMENT:
+Pass exactly one of:
+- paymentId: the Barion payment ID
+- paymentRequestId: the PaymentRequestId returned by start_payment or charge_recurring
+- posTransactionId: our own ID of one of the transactions, e.g. an order number
+paymentRequestId and posTransactionId are looked up in the payment registry, since Barion only finds payments by paymentId.
+The payment registry holds the payments created with start_payment or charge_recurring and those looked up before. Use search_payments to find payments by status, date, amount or payee.
+
 RESPONSE:
 Returns complete payment details including Status, Transactions (with TransactionId needed for refunds/captures), Total amount, Currency, PaymentType, and timestamps.
 
 IMPORTANT - DO NOT POLL:
-After creating a payment with start_payment, DO NOT repeatedly poll this endpoint to detect status changes. Instead, Barion will send a callback to the callbackUrl you provided in start_payment whenever the payment status changes. When you receive the callback notification, THEN call this tool to get the updated payment details. This is more efficient and prevents unnecessary API calls.`,
-    {
-      paymentId: z.string().describe('The Barion payment ID'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
+After creating a payment with start_payment, DO NOT repeatedly poll this endpoint to detect status changes. Instead, Barion will send a callback to the callbackUrl you provided in start_payment whenever the payment status changes. When you receive the callback notification, THEN call this tool to get the updated payment details. This is more efficient and prevents unnecessary API calls.
+
+If your MCP client supports resource subscriptions, subscribe to barion://payment/{paymentId} instead. The server watches the payment and sends a notifications/resources/updated message whenever its status changes - read the resource (or call this tool) only after that notification.`,
+      inputSchema: {
+        paymentId: z.string().optional().describe('The Barion payment ID'),
+        paymentRequestId: z.string().optional().describe('Instead of paymentId: the PaymentRequestId returned by start_payment or charge_recurring. Only payments in the payment registry can be found this way'),
+        posTransactionId: z.string().optional().describe('Instead of paymentId: the posTransactionId of one of the transactions, e.g. an order number. Only payments in the payment registry can be found this way'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: paymentStateOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.getPaymentState(args.paymentId);
+        const { state: result, profileName } = await lookUpPayment(args);
+        await holds?.recordState(result, profileName);
+        await payments?.recordState(result, profileName);
         const formatted = formatResponse(
           result,
           args.format,
@@ -155,6 +333,7 @@ After creating a payment with start_payment, DO NOT repeatedly poll this endpoin
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(paymentStateOutputShape, result),
         };
       } catch (error: unknown) {
         return {
@@ -171,9 +350,10 @@ After creating a payment with start_payment, DO NOT repeatedly poll this endpoin
   );
 
   // Tool: Finish Reservation
-  server.tool(
+  server.registerTool(
     'finish_reservation',
-    `Finish (capture) a reserved payment to transfer funds from customer to merchant.
+    {
+      description: `Finish (capture) a reserved payment to transfer funds from customer to merchant.
 
 Captures funds that were previously reserved using the 'Reservation' payment type. This finalizes the payment and transfers the money. You must call this within 7 days of the reservation, or the funds will be automatically released back to the customer.
 
@@ -196,27 +376,49 @@ IMPORTANT:
 - Must be called within 7 days of reservation or funds auto-release
 - Can be called multiple times per payment, but total payment amount cannot exceed initial total 
 - Payment must be in Reserved status
+- The live payment state is checked first; if it does not allow this operation, nothing is sent and the error lists the operations that are allowed
 - Use the TransactionId from get_payment_state response`,
-    {
-      paymentId: z.string().describe('The Barion payment ID'),
-      transactions: z.array(
-        z.object({
-          transactionId: z.string().describe('The transaction ID'),
-          total: z.number().positive().describe('Amount to capture (must be positive)'),
-        })
-      ).describe('Array of transactions to finish'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      inputSchema: {
+        paymentId: z.string().describe('The Barion payment ID'),
+        transactions: z.array(
+          z.object({
+            transactionId: z.string().describe('The transaction ID'),
+            total: z.number().positive().describe('Amount to capture (must be positive)'),
+          })
+        ).describe('Array of transactions to finish'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: finishPaymentOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.finishReservation(args);
+        await checkPaymentState(args.profile, args.paymentId, 'finish_reservation', args.transactions.map((t) => t.transactionId));
+
+        const selected = profiles.paymentProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Finish Reservation',
+          details: {
+            'Payment ID': args.paymentId,
+            'Transactions': args.transactions.map((t) => `${t.transactionId}: ${t.total}`).join(', '),
+            'Total': args.transactions.reduce((sum, t) => sum + t.total, 0),
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          return cancelled;
+        }
+
+        const result = await profiles.paymentClient(args.profile).finishReservation(args);
+        await holds?.recordOutcome(result);
+        await payments?.recordStatus(result.PaymentId, result.Status);
         const formatted = formatResponse(
           result,
           args.format,
@@ -230,6 +432,7 @@ IMPORTANT:
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(finishPaymentOutputShape, result),
         };
       } catch (error: unknown) {
         return {
@@ -246,9 +449,10 @@ IMPORTANT:
   );
 
   // Tool: Refund Payment
-  server.tool(
+  server.registerTool(
     'refund_payment',
-    `Refund a completed payment transaction, returning funds to the customer.
+    {
+      description: `Refund a completed payment, returning funds to the customer. Refunds one or several transactions of the payment in one request.
 
 Issues a full or partial refund for a successfully completed payment (Status=Succeeded). The refund is processed immediately and funds are returned to the customer's original payment method.
 
@@ -260,40 +464,81 @@ WHEN TO USE:
 
 REFUND TYPES:
 - Full Refund: Specify the full transaction amount
-- Partial Refund: Specify any amount up to the original transaction total
+- Partial Refund: Specify any amount up to what is still refundable
 - Multiple Partial Refunds: You can refund multiple times until the full amount is refunded
+- Several transactions: Pass "transactions" to refund several transactions of the payment (e.g. one per payee) at once
+
+ONE OR SEVERAL TRANSACTIONS:
+- One transaction: transactionId + amount (+ comment)
+- Several transactions: transactions=[{ transactionId, amount, comment?, posTransactionId?, items? }, ...]
+Use one form or the other. Each transaction can appear once per request. "items" lists the refunded items (e.g. the returned products) for the customer's receipt.
 
 WORKFLOW:
-1. Use get_payment_state to verify payment Status=Succeeded
-2. Retrieve the TransactionId from the payment state response
-3. Call this tool with the PaymentId, TransactionId, and amount to refund
-4. Optionally provide a comment explaining the refund reason (visible to customer)
-5. Funds are returned to customer's account within 1-5 business days
+1. Call get_refundable_amounts to see the TransactionIds and how much each one can still refund
+2. Call this tool with the PaymentId and the transactions and amounts to refund
+3. Optionally provide a comment explaining the refund reason (visible to customer)
+4. Funds are returned to customer's account within 1-5 business days
 
 LIMITATIONS:
 - Can only refund Succeeded payments
-- Cannot refund more than the original transaction amount
-- Total refunds cannot exceed original transaction total
+- The live payment state is checked first; if it does not allow this operation, nothing is sent and the error lists the operations that are allowed
+- Total refunds of a transaction cannot exceed its original total
 - Refund must be in the same currency as the original payment
 
+RESPONSE:
+RefundedTransactions lists the new refund transaction (TransactionId, Total, Status) for every refunded transaction.
+
 TIP: Always include a descriptive comment to help with record-keeping and customer service. Examples: "Product returned - Defective item", "Order cancelled by customer", "Billing correction - overcharged by 10 EUR".`,
-    {
-      paymentId: z.string().describe('The Barion payment ID'),
-      transactionId: z.string().describe('The transaction ID to refund'),
-      amount: z.number().positive().describe('Amount to refund (must be positive, cannot exceed original transaction amount)'),
-      comment: z.string().optional().describe('Optional comment for the refund'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      inputSchema: {
+        paymentId: z.string().describe('The Barion payment ID'),
+        transactionId: z.string().optional().describe('The transaction ID to refund (single-transaction form, together with amount)'),
+        amount: z.number().positive().optional().describe('Amount to refund (single-transaction form; must be positive, cannot exceed what is still refundable)'),
+        comment: z.string().optional().describe('Optional comment for the refund (single-transaction form)'),
+        transactions: z.array(refundTransactionSchema).min(1).optional().describe('Transactions to refund (several-transactions form, instead of transactionId and amount)'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: refundOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.refundPayment(args);
+        const transactions = refundTransactions(args);
+
+        if (stateChecks || policy?.limitsRefunds()) {
+          const state = await profiles.paymentClient(args.profile).getPaymentState(args.paymentId);
+          if (stateChecks) {
+            assertOperationAllowed(state, 'refund_payment', transactions.map((t) => t.transactionId));
+          }
+          if (policy?.limitsRefunds()) {
+            for (const t of transactions) {
+              policy.checkRefundOf(state, t.transactionId, t.amount);
+            }
+          }
+        }
+
+        const selected = profiles.paymentProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Refund Payment',
+          details: {
+            'Payment ID': args.paymentId,
+            'Transactions': transactions.map((t) => `${t.transactionId}: ${t.amount}${t.comment ? ` (${t.comment})` : ''}`).join(', '),
+            'Total': `${transactions.reduce((sum, t) => sum + t.amount, 0)} (in the currency of the original payment)`,
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          return cancelled;
+        }
+
+        const result = await profiles.paymentClient(args.profile).refundPayment({ paymentId: args.paymentId, transactions });
+        await recordRefund(selected.name, args.paymentId);
         const formatted = formatResponse(
           result,
           args.format,
@@ -307,6 +552,7 @@ TIP: Always include a descriptive comment to help with record-keeping and custom
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(refundOutputShape, result),
         };
       } catch (error: unknown) {
         return {
@@ -322,10 +568,68 @@ TIP: Always include a descriptive comment to help with record-keeping and custom
     }
   );
 
+  // Tool: Get Refundable Amounts
+  server.registerTool(
+    'get_refundable_amounts',
+    {
+      description: `Show how much of each transaction of a payment can still be refunded. Read-only; nothing is refunded.
+
+Reads the payment state and subtracts the earlier refunds of every transaction (the transactions of type Refund whose RelatedId points to it). Refunds that were canceled or timed out are not counted.
+
+WHEN TO USE:
+- Before refund_payment, to get the TransactionIds and the maximum amounts
+- To answer "how much has been refunded so far?" for an order
+- To explain why a refund is not possible (payment not succeeded, transaction already fully refunded)
+
+RESPONSE:
+For every transaction: the original total, the amount already refunded, what is still refundable, the earlier refunds and, when nothing can be refunded, the reason. Plus the refundable sum of the payment.`,
+      inputSchema: {
+        paymentId: z.string().describe('The Barion payment ID'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: refundableAmountsOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args) => {
+      try {
+        const state = await profiles.paymentClient(args.profile).getPaymentState(args.paymentId);
+        const result = computeRefundableAmounts(state);
+        const formatted = formatResponse(result, args.format, args.detail, formatRefundableAmounts);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatted,
+            },
+          ],
+          structuredContent: structuredOutput(refundableAmountsOutputShape, result),
+        };
+      } catch (error: unknown) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBarionError('Get Refundable Amounts', error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: Capture Payment
-  server.tool(
+  server.registerTool(
     'capture_payment',
-    `Capture a previously authorized payment to transfer funds from customer to merchant.
+    {
+      description: `Capture a previously authorized payment to transfer funds from customer to merchant.
 
 Finalizes a payment that was created with paymentType='DelayedCapture'. This captures the authorized funds and completes the transaction. Similar to finish_reservation but uses a different API endpoint specifically for DelayedCapture payment types.
 
@@ -351,29 +655,51 @@ You can capture less than the authorized amount by specifying a lower total. The
 
 IMPORTANT:
 - Payment must be in Authorized status
+- The live payment state is checked first; if it does not allow this operation, nothing is sent and the error lists the operations that are allowed
 - Use the TransactionId from get_payment_state response
 - Can only be called once per payment
 - Check Barion's time limits for DelayedCapture (varies by payment method)`,
-    {
-      paymentId: z.string().describe('The Barion payment ID'),
-      transactions: z.array(
-        z.object({
-          transactionId: z.string().describe('The transaction ID'),
-          total: z.number().positive().describe('Amount to capture (must be positive, cannot exceed authorized amount)'),
-        })
-      ).describe('Array of transactions to capture'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      inputSchema: {
+        paymentId: z.string().describe('The Barion payment ID'),
+        transactions: z.array(
+          z.object({
+            transactionId: z.string().describe('The transaction ID'),
+            total: z.number().positive().describe('Amount to capture (must be positive, cannot exceed authorized amount)'),
+          })
+        ).describe('Array of transactions to capture'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: finishPaymentOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.capturePayment(args);
+        await checkPaymentState(args.profile, args.paymentId, 'capture_payment', args.transactions.map((t) => t.transactionId));
+
+        const selected = profiles.paymentProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Capture Payment',
+          details: {
+            'Payment ID': args.paymentId,
+            'Transactions': args.transactions.map((t) => `${t.transactionId}: ${t.total}`).join(', '),
+            'Total': args.transactions.reduce((sum, t) => sum + t.total, 0),
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          return cancelled;
+        }
+
+        const result = await profiles.paymentClient(args.profile).capturePayment(args);
+        await holds?.recordOutcome(result);
+        await payments?.recordStatus(result.PaymentId, result.Status);
         const formatted = formatResponse(
           result,
           args.format,
@@ -387,6 +713,7 @@ IMPORTANT:
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(finishPaymentOutputShape, result),
         };
       } catch (error: unknown) {
         return {
@@ -403,9 +730,10 @@ IMPORTANT:
   );
 
   // Tool: Cancel Authorization
-  server.tool(
+  server.registerTool(
     'cancel_authorization',
-    `Cancel an authorized payment and release the held funds back to the customer.
+    {
+      description: `Cancel an authorized payment and release the held funds back to the customer.
 
 Cancels a payment that was created with paymentType='DelayedCapture' and is currently in Authorized status. This releases the authorization hold and returns the funds to the customer immediately. Use this when you decide not to capture an authorized payment.
 
@@ -429,26 +757,47 @@ If you don't call this tool, the authorization will automatically expire based o
 
 IMPORTANT:
 - Can only cancel payments in Authorized status
+- The live payment state is checked first; if it does not allow this operation, nothing is sent and the error lists the operations that are allowed
 - Cannot be used for Reservation payment type (those auto-release after 7 days)
 - Cannot be undone - once cancelled, you cannot capture the funds
 - If you need to charge the customer later, they must make a new payment
 
 USE CASE EXAMPLE:
 Customer orders a custom product. Payment is authorized (DelayedCapture). During manufacturing, you discover you cannot source materials. Cancel the authorization to immediately release customer's funds rather than making them wait for auto-expiry.`,
-    {
-      paymentId: z.string().describe('The Barion payment ID to cancel'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      inputSchema: {
+        paymentId: z.string().describe('The Barion payment ID to cancel'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: cancelAuthorizationOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.cancelAuthorization(args);
+        await checkPaymentState(args.profile, args.paymentId, 'cancel_authorization');
+
+        const selected = profiles.paymentProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Cancel Authorization',
+          details: {
+            'Payment ID': args.paymentId,
+            'Effect': 'Releases the authorized funds to the customer. This cannot be undone',
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          return cancelled;
+        }
+
+        const result = await profiles.paymentClient(args.profile).cancelAuthorization(args);
+        await holds?.recordOutcome(result);
+        await payments?.recordStatus(result.PaymentId, result.Status);
         const formatted = formatResponse(
           result,
           args.format,
@@ -462,6 +811,7 @@ Customer orders a custom product. Payment is authorized (DelayedCapture). During
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(cancelAuthorizationOutputShape, result),
         };
       } catch (error: unknown) {
         return {
@@ -476,4 +826,104 @@ Customer orders a custom product. Payment is authorized (DelayedCapture). During
       }
     }
   );
+
+  // Tool: Charge Recurring
+  server.registerTool(
+    'charge_recurring',
+    {
+      description: `Charge a stored recurrence token without sending the customer to the payment gateway.
+
+Creates an Immediate payment using a card token that was registered earlier by a start_payment call with initiateRecurrence=true. The charge is processed right away - there is no GatewayUrl and no customer interaction.
+
+WHEN TO USE:
+- Monthly/periodic subscription charges
+- Merchant-initiated charges agreed with the customer (e.g., usage-based billing)
+- One-click repeat purchases with a stored card
+
+WORKFLOW:
+1. Create the first payment with start_payment (initiateRecurrence=true, recurrenceId, recurrenceType)
+2. Customer completes the first payment on the gateway - the token is now registered
+3. Use get_payment_state on the first payment to read its TraceId (needed for 3DS-compliant merchant-initiated charges)
+4. Call this tool with the same recurrenceId and recurrenceType whenever you need to charge again
+
+RECURRENCE RESULT:
+- Successful: The token was charged
+- Failed: The token exists but the charge was declined (insufficient funds, expired card) - ask the customer to update their payment method
+- NotFound: No token is registered under this recurrenceId - run a new initiating payment with start_payment
+
+IMPORTANT:
+- recurrenceType must match the type used when the token was registered
+- The payee email must be the same registered Barion merchant account
+- Use a new paymentRequestId for every charge to avoid duplicate charges`,
+      inputSchema: {
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
+        transactions: z.array(paymentTransactionSchema).describe('Array of transactions'),
+        recurrenceId: z.string().max(100).describe('The recurrenceId used when the token was registered with start_payment'),
+        recurrenceType: recurrenceTypeSchema.default('MerchantInitiatedPayment').describe('Recurrence type used when the token was registered (default: MerchantInitiatedPayment)'),
+        traceId: z.string().optional().describe('TraceId of the initiating payment (from get_payment_state). Required by card schemes for merchant-initiated charges'),
+        paymentRequestId: z.string().optional().describe('Optional: Your unique reference for this charge. Generated if not provided'),
+        redirectUrl: z.string().url().optional().describe('Optional: URL for the customer redirect (not used for token charges, but stored with the payment)'),
+        callbackUrl: z.string().url().optional().describe('Optional: URL where Barion will POST payment status change notifications'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: startPaymentOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (args) => {
+      try {
+        assertValidCart(args);
+
+        const selected = profiles.paymentProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Charge Recurring',
+          details: {
+            'Recurrence ID': args.recurrenceId,
+            'Amount': `${args.transactions.reduce((sum, t) => sum + t.total, 0)} ${args.currency}`,
+            'Payee': [...new Set(args.transactions.map((t) => t.payee))].join(', '),
+            'Recurrence Type': args.recurrenceType,
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          return cancelled;
+        }
+
+        const result = await profiles.paymentClient(args.profile).chargeRecurring(args);
+        await payments?.recordStarted({ ...args, paymentType: 'Immediate' }, result, selected.name);
+        const formatted = formatResponse(
+          result,
+          args.format,
+          args.detail,
+          formatRecurringCharge
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatted,
+            },
+          ],
+          structuredContent: structuredOutput(startPaymentOutputShape, result),
+          isError: result.RecurrenceResult === 'Failed' || result.RecurrenceResult === 'NotFound',
+        };
+      } catch (error: unknown) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBarionError('Charge Recurring', error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 }
@@ -0,0 +1,57 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ProfileRegistry } from '../utils/profiles.js';
+import { formatResponse, formatProfiles } from '../utils/response-formatter.js';
+import { profilesOutputShape } from './output-schemas.js';
+
+// Optional "profile" argument accepted by every payment and wallet tool
+export function profileParam(names: string[]) {
+  return z
+    .enum(names as [string, ...string[]])
+    .optional()
+    .describe(`Optional: Name of the configured profile (shop or wallet) to use: ${names.join(', ')}. Defaults to the default profile. Use list_profiles to see them`);
+}
+
+export function configureProfileTools(server: McpServer, profiles: ProfileRegistry) {
+  // Tool: List Profiles
+  server.registerTool(
+    'list_profiles',
+    {
+      description: `List the configured Barion profiles (shops and wallets) without revealing their secrets.
+
+Each profile is a named set of credentials: a POSKey for the payment tools, an API key for the wallet tools, or both, plus the environment (test or prod). Every payment and wallet tool accepts an optional "profile" argument to choose which one to use.
+
+WHEN TO USE:
+- Before a payment or wallet operation, to pick the right shop or wallet
+- To check whether a profile points at the test or the production environment
+- To see which profile is used when no "profile" argument is given
+
+RESPONSE:
+Profile names, environments, which tool groups each profile supports, which profile is the default for payments and for wallet operations, and per-profile payment defaults (locale, funding sources, etc.). POSKeys and API keys are never shown.`,
+      inputSchema: {
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: profilesOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      const summaries = profiles.list();
+      const formatted = formatResponse(summaries, args.format, args.detail, formatProfiles);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatted,
+          },
+        ],
+        structuredContent: { profiles: summaries },
+      };
+    }
+  );
+}
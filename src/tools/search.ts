@@ -0,0 +1,80 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { PaymentRegistry } from '../utils/payment-registry.js';
+import { ProfileRegistry } from '../utils/profiles.js';
+import { formatResponse, formatPaymentSearch } from '../utils/response-formatter.js';
+import { profileParam } from './profiles.js';
+import { paymentSearchOutputShape, structuredOutput } from './output-schemas.js';
+
+const PAYMENT_STATUSES = ['Prepared', 'Started', 'InProgress', 'Waiting', 'Reserved', 'Authorized', 'Canceled', 'Succeeded', 'Failed', 'PartiallySucceeded', 'Expired'] as const;
+
+const dateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Use an ISO 8601 date or date-time, e.g. 2025-01-31 or 2025-01-31T12:00:00Z');
+
+export function configureSearchTools(server: McpServer, profiles: ProfileRegistry, payments: PaymentRegistry) {
+  // Tool: Search Payments
+  server.registerTool(
+    'search_payments',
+    {
+      description: `Search the local payment registry by status, date, amount, payee or our own order reference. Never calls the Barion API.
+
+The server registers every payment created with start_payment or charge_recurring (PaymentId, PaymentRequestId, orderNumber, posTransactionIds, amounts, payees, profile and the last status it saw), and every payment looked up with get_payment_state.
+
+WHEN TO USE:
+- A customer or support agent only knows the order number: search by reference
+- List the payments of a day or a period: filter by from/to
+- Find payments that are still waiting for the customer or for finish_reservation: filter by status
+
+RESPONSE:
+Matching payments, most recent first, with their PaymentId for get_payment_state, refund_payment and the other tools.
+
+IMPORTANT: The status is the last one this server saw, which can be out of date. Call get_payment_state for the live state. Payments created elsewhere appear after they were looked up with get_payment_state.`,
+      inputSchema: {
+        status: z.array(z.enum(PAYMENT_STATUSES)).optional().describe('Optional: Only payments whose last known status is one of these'),
+        from: dateSchema.optional().describe('Optional: Only payments created at or after this date/time (ISO 8601)'),
+        to: dateSchema.optional().describe('Optional: Only payments created at or before this date/time (ISO 8601, a bare date includes the whole day)'),
+        minAmount: z.number().nonnegative().optional().describe('Optional: Only payments with at least this total'),
+        maxAmount: z.number().nonnegative().optional().describe('Optional: Only payments with at most this total'),
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).optional().describe('Optional: Only payments in this currency'),
+        payee: z.string().optional().describe('Optional: Only payments with a transaction to this payee (part of the email address is enough)'),
+        reference: z.string().optional().describe('Optional: Our own reference, matched against PaymentRequestId, orderNumber and posTransactionIds (part of it is enough, case-insensitive)'),
+        profile: profileParam(profiles.paymentProfileNames()).describe('Optional: Only payments of this profile. Defaults to every profile'),
+        limit: z.number().int().min(1).max(200).default(50).describe('Maximum number of payments to return (default: 50, maximum: 200)'),
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: paymentSearchOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      const result = payments.search({
+        status: args.status,
+        from: args.from,
+        to: args.to,
+        minAmount: args.minAmount,
+        maxAmount: args.maxAmount,
+        currency: args.currency,
+        payee: args.payee,
+        reference: args.reference,
+        profile: args.profile,
+        limit: args.limit,
+      });
+      const formatted = formatResponse(result, args.format, args.detail, formatPaymentSearch);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatted,
+          },
+        ],
+        structuredContent: structuredOutput(paymentSearchOutputShape, result),
+      };
+    }
+  );
+}
@@ -1,16 +1,21 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { WalletClient } from '../utils/wallet-client.js';
+import { ProfileRegistry } from '../utils/profiles.js';
+import { Confirmer, requireApproval } from '../utils/confirmation.js';
+import { SpendingPolicy, SpendingReservation } from '../utils/spending-policy.js';
 import { formatResponse, formatWalletAccounts, formatWalletStatement, formatSuccessResponse } from '../utils/response-formatter.js';
 import { formatBarionError } from '../utils/error-handler.js';
+import { profileParam } from './profiles.js';
+import { sendMoneyOutputShape, structuredOutput, walletAccountsOutputShape, walletStatementOutputShape, withdrawOutputShape } from './output-schemas.js';
 
-export function configureWalletTools(server: McpServer, apiKey: string, environment: 'test' | 'prod' = 'test') {
-  const client = new WalletClient(apiKey, environment);
+export function configureWalletTools(server: McpServer, profiles: ProfileRegistry, confirm: Confirmer, policy?: SpendingPolicy) {
+  const profile = profileParam(profiles.walletProfileNames());
 
   // Tool: Get Accounts
-  server.tool(
+  server.registerTool(
     'get_wallet_accounts',
-    `Get all wallet accounts associated with this Barion user.
+    {
+      description: `Get all wallet accounts associated with this Barion user.
 
 Retrieves a list of all wallet accounts (currency accounts) belonging to the authenticated user. Each Barion wallet can have multiple accounts for different currencies (HUF, EUR, USD, CZK).
 
@@ -32,19 +37,22 @@ WORKFLOW EXAMPLES:
 3. Account verification: Confirm you have an account in a specific currency before attempting operations
 
 TIP: The returned Account IDs are used in send_money (sourceAccountId parameter). If you don't provide a sourceAccountId to send_money, it will automatically use the first account matching the currency.`,
-    {
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
+      inputSchema: {
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: walletAccountsOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.getAccounts();
+        const result = await profiles.walletClient(args.profile).getAccounts();
         const formatted = formatResponse(
           result,
           args.format,
@@ -58,6 +66,7 @@ TIP: The returned Account IDs are used in send_money (sourceAccountId parameter)
               text: formatted,
             },
           ],
+          structuredContent: { Accounts: result },
         };
       } catch (error: unknown) {
         return {
@@ -74,9 +83,10 @@ TIP: The returned Account IDs are used in send_money (sourceAccountId parameter)
   );
 
   // Tool: Get Balance
-  server.tool(
+  server.registerTool(
     'get_wallet_balance',
-    `Get wallet balance for a specific currency or view all currency balances.
+    {
+      description: `Get wallet balance for a specific currency or view all currency balances.
 
 Retrieves the current available balance in your Barion wallet. You can either get the balance for a specific currency or get all balances across all your currency accounts.
 
@@ -98,20 +108,23 @@ EXAMPLE SCENARIOS:
 3. "Can I send 10,000 HUF?" → get_wallet_balance with currency="HUF", check if Balance >= 10000
 
 TIP: This tool uses the same underlying API as get_wallet_accounts but filters by currency if specified. For comprehensive account information including Account IDs, use get_wallet_accounts instead.`,
-    {
-      currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).optional().describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna). Optional.'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
+      inputSchema: {
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).optional().describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna). Optional.'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: walletAccountsOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.getBalance(args.currency);
+        const result = await profiles.walletClient(args.profile).getBalance(args.currency);
         const formatted = formatResponse(
           result,
           args.format,
@@ -125,6 +138,7 @@ TIP: This tool uses the same underlying API as get_wallet_accounts but filters b
               text: formatted,
             },
           ],
+          structuredContent: { Accounts: result },
         };
       } catch (error: unknown) {
         return {
@@ -141,9 +155,10 @@ TIP: This tool uses the same underlying API as get_wallet_accounts but filters b
   );
 
   // Tool: Get Statement
-  server.tool(
+  server.registerTool(
     'get_wallet_statement',
-    `Get wallet transaction history (statement) for a specific month.
+    {
+      description: `Get wallet transaction history (statement) for a specific month.
 
 Retrieves a detailed transaction history for your Barion wallet for a specified month. Shows all incoming and outgoing transactions including payments, withdrawals, transfers, fees, and refunds.
 
@@ -179,22 +194,25 @@ EXAMPLE SCENARIOS:
 3. "Review last month's wallet activity" → year=current year, month=previous month
 
 TIP: For recent activity across all currencies, call without currency parameter. For specific currency analysis (e.g., tracking EUR income), include the currency filter to reduce noise.`,
-    {
-      year: z.number().describe('Year (e.g., 2025)'),
-      month: z.number().min(1).max(12).describe('Month (1-12)'),
-      currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).optional().describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna). Optional.'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary (first 10 transactions), "detailed" for all transactions'),
-    },
-    {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
+      inputSchema: {
+        year: z.number().describe('Year (e.g., 2025)'),
+        month: z.number().min(1).max(12).describe('Month (1-12)'),
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).optional().describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna). Optional.'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary (first 10 transactions), "detailed" for all transactions'),
+      },
+      outputSchema: walletStatementOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.getStatement({
+        const result = await profiles.walletClient(args.profile).getStatement({
           year: args.year,
           month: args.month,
           currency: args.currency,
@@ -212,6 +230,7 @@ TIP: For recent activity across all currencies, call without currency parameter.
               text: formatted,
             },
           ],
+          structuredContent: { Transactions: result },
         };
       } catch (error: unknown) {
         return {
@@ -228,9 +247,10 @@ TIP: For recent activity across all currencies, call without currency parameter.
   );
 
   // Tool: Withdraw
-  server.tool(
+  server.registerTool(
     'withdraw_to_bank',
-    `Withdraw funds from your Barion wallet to a bank account.
+    {
+      description: `Withdraw funds from your Barion wallet to a bank account.
 
 Transfers money from your Barion wallet to a specified external bank account. You must provide complete bank account details with each withdrawal request. The withdrawal is processed and funds typically arrive within 1-3 business days depending on the bank and currency.
 
@@ -240,7 +260,7 @@ PARAMETERS:
 - accountNumber: Full bank account number (IBAN for European accounts, or local account number format)
 - accountHolderName: Full name of the bank account holder (recipient name)
 - swift: SWIFT/BIC code of the recipient's bank (e.g., "GIBAATWWXXX" for Erste Bank Austria)
-- comment (optional): Note or description for the withdrawal (for your records)
+- comment (optional): Note or description for the withdrawal. A reference such as "(ref 1a2b3c4d5e6f)" is always appended, so the bank statement shows it too; it lets a retried request be recognized
 
 BANK ACCOUNT DETAILS REQUIRED:
 Each withdrawal requires you to specify the complete bank account information. Barion does not store bank accounts - you must provide full details every time.
@@ -295,25 +315,48 @@ IMPORTANT:
 - Double-check all bank account details before submitting - incorrect details may result in failed transfers or lost funds
 - Account holder name should match the name registered with the bank
 - SWIFT code must be valid for the recipient's bank`,
-    {
-      currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
-      amount: z.number().positive().describe('Amount to withdraw (must be positive and not exceed available balance)'),
-      accountNumber: z.string().describe('Full bank account number (IBAN for European accounts, e.g., "DE89370400440532013000", or local format)'),
-      accountHolderName: z.string().describe('Full name of the bank account holder/recipient (must match bank records)'),
-      swift: z.string().describe('SWIFT/BIC code of the recipient\'s bank (e.g., "DEUTDEFFXXX" for Deutsche Bank Germany)'),
-      comment: z.string().optional().describe('Optional comment for the withdrawal (for your records)'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      inputSchema: {
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
+        amount: z.number().positive().describe('Amount to withdraw (must be positive and not exceed available balance)'),
+        accountNumber: z.string().describe('Full bank account number (IBAN for European accounts, e.g., "DE89370400440532013000", or local format)'),
+        accountHolderName: z.string().describe('Full name of the bank account holder/recipient (must match bank records)'),
+        swift: z.string().describe('SWIFT/BIC code of the recipient\'s bank (e.g., "DEUTDEFFXXX" for Deutsche Bank Germany)'),
+        comment: z.string().optional().describe('Optional comment for the withdrawal; a reference such as "(ref 1a2b3c4d5e6f)" is appended'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: withdrawOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
+      let reservation: SpendingReservation | undefined;
       try {
-        const result = await client.withdraw({
+        reservation = policy?.checkWithdraw(args);
+
+        const selected = profiles.walletProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Withdraw to Bank',
+          details: {
+            'Amount': `${args.amount} ${args.currency}`,
+            'Account Holder': args.accountHolderName,
+            'Account Number / IBAN': args.accountNumber,
+            'SWIFT/BIC': args.swift,
+            'Comment': args.comment,
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          reservation?.release();
+          return cancelled;
+        }
+
+        const result = await profiles.walletClient(args.profile).withdraw({
           currency: args.currency,
           amount: args.amount,
           accountNumber: args.accountNumber,
@@ -321,6 +364,7 @@ IMPORTANT:
           swift: args.swift,
           comment: args.comment,
         });
+        await reservation?.commit();
         const formatted = formatResponse(
           result,
           args.format,
@@ -334,8 +378,10 @@ IMPORTANT:
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(withdrawOutputShape, result),
         };
       } catch (error: unknown) {
+        await reservation?.fail(error);
         return {
           content: [
             {
@@ -350,9 +396,10 @@ IMPORTANT:
   );
 
   // Tool: Get User History
-  server.tool(
+  server.registerTool(
     'get_user_history',
-    `Get user transaction history with flexible filtering and pagination options.
+    {
+      description: `Get user transaction history with flexible filtering and pagination options.
 
 Retrieves transactions based on time, pagination, currency filter, and result limit. Supports incremental synchronization, pagination through history, and filtering by currency.
 
@@ -393,23 +440,26 @@ EXAMPLE SCENARIOS:
 4. "Get last 10 transactions" → limit=10 (with lastRequestTime or currency)
 
 TIP: At least one parameter (lastRequestTime, lastVisibleItemId, or currency) must be provided. Use pagination with lastVisibleItemId to retrieve complete transaction history beyond the 20-item limit.`,
-    {
-      lastRequestTime: z.string().optional().describe('ISO 8601 timestamp (e.g., "2025-10-08T12:30:22.955Z") - returns transactions after or at this time. Optional, but at least one parameter must be provided.'),
-      lastVisibleItemId: z.string().optional().describe('Transaction ID (GUID) for pagination - returns only transactions older than this transaction. Use the ID of the oldest transaction from a previous response to get older transactions.'),
-      limit: z.number().int().min(1).max(20).optional().describe('Number of transactions to return (default: 20, maximum: 20). If greater than 20, the default value of 20 will be used.'),
-      currency: z.enum(['HUF', 'EUR', 'USD', 'CZK', 'RON', 'PLN']).optional().describe('Filter by currency - only transactions in this currency will be returned. Accepted values: CZK, EUR, HUF, USD, RON, PLN.'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary (first 10 transactions), "detailed" for all transactions'),
-    },
-    {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
+      inputSchema: {
+        lastRequestTime: z.string().optional().describe('ISO 8601 timestamp (e.g., "2025-10-08T12:30:22.955Z") - returns transactions after or at this time. Optional, but at least one parameter must be provided.'),
+        lastVisibleItemId: z.string().optional().describe('Transaction ID (GUID) for pagination - returns only transactions older than this transaction. Use the ID of the oldest transaction from a previous response to get older transactions.'),
+        limit: z.number().int().min(1).max(20).optional().describe('Number of transactions to return (default: 20, maximum: 20). If greater than 20, the default value of 20 will be used.'),
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK', 'RON', 'PLN']).optional().describe('Filter by currency - only transactions in this currency will be returned. Accepted values: CZK, EUR, HUF, USD, RON, PLN.'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary (first 10 transactions), "detailed" for all transactions'),
+      },
+      outputSchema: walletStatementOutputShape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
-        const result = await client.getUserHistory({
+        const result = await profiles.walletClient(args.profile).getUserHistory({
           lastRequestTime: args.lastRequestTime,
           lastVisibleItemId: args.lastVisibleItemId,
           limit: args.limit,
@@ -428,6 +478,7 @@ TIP: At least one parameter (lastRequestTime, lastVisibleItemId, or currency) mu
               text: formatted,
             },
           ],
+          structuredContent: { Transactions: result },
         };
       } catch (error: unknown) {
         return {
@@ -444,9 +495,10 @@ TIP: At least one parameter (lastRequestTime, lastVisibleItemId, or currency) mu
   );
 
   // Tool: Send Money
-  server.tool(
+  server.registerTool(
     'send_money',
-    `Send money to another Barion user by email address.
+    {
+      description: `Send money to another Barion user by email address.
 
 Transfers funds from your Barion wallet to another person's Barion wallet using their email address. This is a peer-to-peer transfer within the Barion ecosystem.
 
@@ -459,7 +511,7 @@ PARAMETERS:
 - recipientEmail: Email address of the person receiving the money (they'll receive notification)
 - currency: Currency code (CZK, EUR, HUF, USD) - must match your account currency
 - amount: Amount to send (must be positive and not exceed your balance)
-- comment (optional): Message or note to the recipient (max 1000 characters)
+- comment (optional): Message or note to the recipient (max 1000 characters). A reference such as "(ref 1a2b3c4d5e6f)" is always appended and the recipient sees it
 - sourceAccountId (optional): Which of your accounts to send from (auto-selected if not provided)
 
 WORKFLOW:
@@ -494,32 +546,55 @@ Send 50 EUR to a friend:
 IMPORTANT:
 - Cannot send to yourself
 - Recipient email will be notified
-- Comment is visible to recipient
+- Comment is visible to recipient, followed by a reference (e.g. "(ref 1a2b3c4d5e6f)") that lets the server recognize the transfer when a request has to be retried
 - Transaction is immediate and cannot be reversed (contact recipient for refund if needed)`,
-    {
-      recipientEmail: z.string().email().describe('Email address of the recipient'),
-      currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
-      amount: z.number().positive().describe('Amount to send (must be positive and not exceed available balance)'),
-      comment: z.string().optional().describe('Optional comment for the transfer (max 1000 characters)'),
-      sourceAccountId: z.string().optional().describe('Optional: Source account ID. If not provided, uses first account with matching currency'),
-      format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
-      detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
-    },
-    {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      inputSchema: {
+        recipientEmail: z.string().email().describe('Email address of the recipient'),
+        currency: z.enum(['HUF', 'EUR', 'USD', 'CZK']).describe('Currency code: HUF (Hungarian Forint), EUR (Euro), USD (US Dollar), or CZK (Czech Koruna)'),
+        amount: z.number().positive().describe('Amount to send (must be positive and not exceed available balance)'),
+        comment: z.string().optional().describe('Optional comment for the transfer (max 1000 characters); a reference such as "(ref 1a2b3c4d5e6f)" is appended'),
+        sourceAccountId: z.string().optional().describe('Optional: Source account ID. If not provided, uses first account with matching currency'),
+        profile,
+        format: z.enum(['json', 'markdown']).default('markdown').describe('Response format: "json" for full JSON response, "markdown" for human-readable summary'),
+        detail: z.enum(['concise', 'detailed']).default('concise').describe('Detail level: "concise" for summary, "detailed" for complete information'),
+      },
+      outputSchema: sendMoneyOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
+      let reservation: SpendingReservation | undefined;
       try {
-        const result = await client.sendMoney({
+        reservation = policy?.checkSendMoney(args);
+
+        const selected = profiles.walletProfile(args.profile);
+        const cancelled = await requireApproval(confirm, {
+          operation: 'Send Money',
+          details: {
+            'Recipient': args.recipientEmail,
+            'Amount': `${args.amount} ${args.currency}`,
+            'Source Account': args.sourceAccountId || `first ${args.currency} account`,
+            'Comment': args.comment,
+            'Profile': `${selected.name} (${selected.environment})`,
+          },
+        });
+        if (cancelled) {
+          reservation?.release();
+          return cancelled;
+        }
+
+        const result = await profiles.walletClient(args.profile).sendMoney({
           recipientEmail: args.recipientEmail,
           currency: args.currency,
           amount: args.amount,
           comment: args.comment,
           sourceAccountId: args.sourceAccountId,
         });
+        await reservation?.commit();
         const formatted = formatResponse(
           result,
           args.format,
@@ -533,8 +608,10 @@ IMPORTANT:
               text: formatted,
             },
           ],
+          structuredContent: structuredOutput(sendMoneyOutputShape, result),
         };
       } catch (error: unknown) {
+        await reservation?.fail(error);
         return {
           content: [
             {
@@ -0,0 +1,356 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger.js';
+import { REDACTED, isPersonalDataKey, isSecretKey, maskAccountNumber, maskEmail } from './redaction.js';
+import { ToolCallback, wrapToolCallbacks } from './tool-hooks.js';
+
+const log = createLogger('Audit Log');
+
+export type AuditStatus = 'success' | 'error' | 'cancelled';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  profile?: string;
+  environment?: string;
+  status: AuditStatus;
+  error?: string;
+  barionIds: Record<string, string[]>;
+  durationMs: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  lastHash: string;
+  // First entry that breaks the chain (1-based line number in the file)
+  brokenAt?: { line: number; seq?: number; reason: string };
+}
+
+export interface AuditQuery {
+  tool?: string;
+  paymentId?: string;
+  status?: AuditStatus;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// What an audited tool call learns while it runs
+interface AuditScope {
+  profile?: string;
+  environment?: string;
+  cancelled: boolean;
+  barionIds: Record<string, Set<string>>;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Barion response fields recorded in the audit entry
+const ID_FIELDS = ['PaymentId', 'PaymentRequestId', 'TransactionId', 'POSTransactionId', 'RecurrenceId', 'TraceId'];
+const MAX_IDS_PER_FIELD = 20;
+
+const scopes = new AsyncLocalStorage<AuditScope>();
+
+// Strip secrets and personal data from tool arguments before they are written to disk
+export function redactArguments(value: unknown, key = ''): unknown {
+  if (isSecretKey(key)) {
+    return REDACTED;
+  }
+  if (isPersonalDataKey(key)) {
+    return value === undefined ? undefined : REDACTED;
+  }
+  if (typeof value === 'string') {
+    if (/email/i.test(key) || /^payee$/i.test(key)) {
+      return maskEmail(value);
+    }
+    if (/accountNumber|iban/i.test(key)) {
+      return maskAccountNumber(value);
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item, key));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArguments(v, k)]));
+  }
+  return value;
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(entry.prevHash).update(JSON.stringify(entry)).digest('hex');
+}
+
+// Check every hash and link of the chain in the file contents
+function verifyChain(content: string): AuditVerification & { parsed: AuditEntry[]; lastLine: number } {
+  let prevHash = GENESIS_HASH;
+  const parsed: AuditEntry[] = [];
+  let lastLine = 0;
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) {
+      continue;
+    }
+    const broken = (reason: string, seq?: number) => ({
+      valid: false,
+      entries: parsed.length,
+      lastHash: prevHash,
+      brokenAt: { line: i + 1, seq, reason },
+      parsed,
+      lastLine,
+    });
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      return broken('line is not valid JSON');
+    }
+
+    const { hash, ...unsigned } = entry;
+    if (entry.prevHash !== prevHash) {
+      return broken('prevHash does not match the previous entry (entry removed, inserted or reordered)', entry.seq);
+    }
+    if (hashEntry(unsigned) !== hash) {
+      return broken('hash does not match the entry contents (entry modified)', entry.seq);
+    }
+    prevHash = hash;
+    parsed.push(entry);
+    lastLine = i + 1;
+  }
+
+  return { valid: true, entries: parsed.length, lastHash: prevHash, parsed, lastLine };
+}
+
+async function readLogFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function collectIds(data: unknown, ids: Record<string, Set<string>>): void {
+  if (!data || typeof data !== 'object') {
+    return;
+  }
+  const record = data as Record<string, unknown>;
+  for (const field of ID_FIELDS) {
+    const value = record[field];
+    if (typeof value === 'string' && value) {
+      const set = (ids[field] ||= new Set());
+      if (set.size < MAX_IDS_PER_FIELD) {
+        set.add(value);
+      }
+    }
+  }
+  for (const list of [record.Transactions, record.RefundedTransactions]) {
+    if (Array.isArray(list)) {
+      list.forEach((transaction) => collectIds(transaction, ids));
+    }
+  }
+}
+
+/**
+ * Note the IDs in a Barion API response for the audit entry of the running tool call.
+ * Does nothing outside an audited call.
+ */
+export function noteBarionResponse(response: unknown): void {
+  const scope = scopes.getStore();
+  if (scope) {
+    collectIds(response, scope.barionIds);
+  }
+}
+
+// Note which profile the running tool call resolved
+export function noteProfileUse(profile: string, environment: string): void {
+  const scope = scopes.getStore();
+  if (scope) {
+    scope.profile = profile;
+    scope.environment = environment;
+  }
+}
+
+// Mark the running tool call as cancelled by the user (nothing was sent to Barion)
+export function noteCancelled(): void {
+  const scope = scopes.getStore();
+  if (scope) {
+    scope.cancelled = true;
+  }
+}
+
+/**
+ * Append-only, hash-chained JSONL log of tool invocations.
+ *
+ * Every entry stores the hash of the previous one, so editing, removing or
+ * reordering lines in the file breaks the chain and is reported by verify().
+ * verify() also compares the file with the entries written since startup, so
+ * entries cut off the end are reported too. A log that is already broken when
+ * the server starts is refused, so new entries are never chained onto it.
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+  private filePath: string;
+  private lastHash = GENESIS_HASH;
+  // Appends are serialized so the chain follows the file order
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  static async open(filePath: string): Promise<AuditLog> {
+    const auditLog = new AuditLog(filePath);
+    await auditLog.load();
+    return auditLog;
+  }
+
+  private async load(): Promise<void> {
+    const content = await readLogFile(this.filePath);
+    if (content === undefined) {
+      return;
+    }
+
+    const verification = verifyChain(content);
+    if (!verification.valid) {
+      throw new Error(
+        `Audit log ${this.filePath} failed verification at line ${verification.brokenAt?.line}: ${verification.brokenAt?.reason}. ` +
+          'Move the file aside to keep it as evidence and start a new log'
+      );
+    }
+    this.entries = verification.parsed;
+    this.lastHash = verification.lastHash;
+    log.info(`Loaded ${this.entries.length} entries from ${this.filePath}`);
+  }
+
+  /**
+   * Wrap every tool registered through the returned server so its calls are logged.
+   */
+  instrument(server: McpServer): McpServer {
+    return wrapToolCallbacks(server, (name, callback) => (...callbackArgs) => this.run(name, callbackArgs, callback));
+  }
+
+  private async run(
+    tool: string,
+    callbackArgs: unknown[],
+    callback: ToolCallback
+  ): Promise<CallToolResult> {
+    // Tools without parameters only receive the request context
+    const toolArgs = callbackArgs.length > 1 ? (callbackArgs[0] as Record<string, unknown>) : {};
+    const scope: AuditScope = { cancelled: false, barionIds: {} };
+    const startedAt = Date.now();
+
+    let result: CallToolResult | undefined;
+    let thrown: unknown;
+    try {
+      result = await scopes.run(scope, () => callback(...callbackArgs));
+    } catch (error: unknown) {
+      thrown = error;
+    }
+
+    const text = result?.content.find((item) => item.type === 'text');
+    const failed = thrown !== undefined || result?.isError === true;
+    try {
+      await this.append({
+        timestamp: new Date(startedAt).toISOString(),
+        tool,
+        arguments: redactArguments(toolArgs) as Record<string, unknown>,
+        profile: scope.profile,
+        environment: scope.environment,
+        status: scope.cancelled ? 'cancelled' : failed ? 'error' : 'success',
+        error: thrown !== undefined
+          ? (thrown instanceof Error ? thrown.message : String(thrown))
+          : failed && !scope.cancelled && text?.type === 'text' ? text.text.split('\n')[0] : undefined,
+        barionIds: Object.fromEntries(Object.entries(scope.barionIds).map(([field, ids]) => [field, [...ids]])),
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error: unknown) {
+      log.error(`Failed to record ${tool} call`, error instanceof Error ? error.message : error);
+    }
+
+    if (thrown !== undefined) {
+      throw thrown;
+    }
+    return result as CallToolResult;
+  }
+
+  private append(fields: Omit<AuditEntry, 'seq' | 'prevHash' | 'hash'>): Promise<AuditEntry> {
+    const write = this.writes.then(async () => {
+      const unsigned = { seq: this.entries.length + 1, ...fields, prevHash: this.lastHash };
+      const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      this.entries.push(entry);
+      this.lastHash = entry.hash;
+      return entry;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  // Re-read the file, check every hash and link of the chain and compare its end with the last entry written
+  async verify(): Promise<AuditVerification> {
+    await this.writes;
+
+    const { parsed, lastLine, ...verification } = verifyChain((await readLogFile(this.filePath)) ?? '');
+    if (!verification.valid) {
+      return verification;
+    }
+    if (verification.entries !== this.entries.length || verification.lastHash !== this.lastHash) {
+      const missing = this.entries.length - verification.entries;
+      return {
+        ...verification,
+        valid: false,
+        brokenAt: {
+          line: lastLine + 1,
+          seq: verification.entries + 1,
+          reason:
+            missing > 0
+              ? `the file ends after ${verification.entries} entries, but ${this.entries.length} were written (${missing} removed from the end)`
+              : `the file does not end with the last entry written (#${this.entries.length}; file replaced or entries appended outside the server)`,
+        },
+      };
+    }
+    return verification;
+  }
+
+  // Matching entries, most recent first
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const matching = this.entries.filter((entry) => {
+      if (filter.tool && entry.tool !== filter.tool) {
+        return false;
+      }
+      if (filter.status && entry.status !== filter.status) {
+        return false;
+      }
+      if (filter.from && entry.timestamp < filter.from) {
+        return false;
+      }
+      // A bare date includes the whole day
+      if (filter.to && entry.timestamp > (filter.to.length === 10 ? `${filter.to}T23:59:59.999Z` : filter.to)) {
+        return false;
+      }
+      if (filter.paymentId) {
+        const ids = entry.barionIds.PaymentId || [];
+        if (!ids.includes(filter.paymentId) && entry.arguments.paymentId !== filter.paymentId) {
+          return false;
+        }
+      }
+      return true;
+    });
+    const limit = filter.limit ?? matching.length;
+    return matching.slice(-limit).reverse();
+  }
+}
@@ -0,0 +1,74 @@
+export type BarionEnvironment = 'test' | 'prod';
+
+// One entry of the Errors array in Barion responses
+export interface BarionError {
+  ErrorCode: string;
+  Title: string;
+  Description: string;
+  AuthData?: string;
+  EndPoint?: string;
+}
+
+/**
+ * What went wrong:
+ * - network: the request did not reach Barion or the connection broke
+ * - timeout: no response within the request timeout
+ * - http: Barion answered with a non-2xx status
+ * - api: Barion answered 2xx but reported Errors
+ */
+export type BarionApiErrorKind = 'network' | 'timeout' | 'http' | 'api';
+
+export interface BarionApiErrorDetails {
+  kind: BarionApiErrorKind;
+  endpoint: string;
+  environment: BarionEnvironment;
+  status?: number;
+  errors?: BarionError[];
+  // Where the request was sent, for network error guidance
+  baseUrl?: string;
+  proxy?: string;
+}
+
+/**
+ * Failed Barion request. Thrown by the shared HTTP layer for every failure so
+ * callers can branch on status and error codes instead of parsing messages.
+ */
+export class BarionApiError extends Error {
+  kind: BarionApiErrorKind;
+  endpoint: string;
+  environment: BarionEnvironment;
+  status?: number;
+  errors: BarionError[];
+  baseUrl?: string;
+  proxy?: string;
+
+  constructor(message: string, details: BarionApiErrorDetails) {
+    super(message);
+    this.name = 'BarionApiError';
+    this.kind = details.kind;
+    this.endpoint = details.endpoint;
+    this.environment = details.environment;
+    this.status = details.status;
+    this.errors = details.errors || [];
+    this.baseUrl = details.baseUrl;
+    this.proxy = details.proxy;
+  }
+
+  get errorCodes(): string[] {
+    return this.errors.map((error) => error.ErrorCode).filter(Boolean);
+  }
+
+  hasErrorCode(...codes: string[]): boolean {
+    return this.errorCodes.some((code) => codes.includes(code));
+  }
+
+  // Network errors, timeouts, 429 and 5xx may be gone on the next attempt
+  get transient(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.status === 429 || (this.status !== undefined && this.status >= 500);
+  }
+
+  // Barion rejected the request before processing it, so resending cannot duplicate it
+  get notProcessed(): boolean {
+    return this.status === 429;
+  }
+}
@@ -1,3 +1,7 @@
+import { BarionEnvironment, BarionError } from './barion-api-error.js';
+import { BarionHttp, ConnectionOptions } from './barion-http.js';
+import { RetryMode, RetryOptions } from './retry.js';
+
 // ============================================================================
 // Request Types
 // ============================================================================
@@ -22,14 +26,145 @@ export type Currency = 'HUF' | 'EUR' | 'USD' | 'CZK';
 export type PaymentType = 'Immediate' | 'Reservation' | 'DelayedCapture';
 export type PaymentStatus = 'Prepared' | 'Started' | 'InProgress' | 'Waiting' | 'Reserved' | 'Authorized' | 'Canceled' | 'Succeeded' | 'Failed' | 'PartiallySucceeded' | 'Expired';
 export type TransactionStatus = 'Prepared' | 'Started' | 'Succeeded' | 'Timeout' | 'ShopCanceled' | 'UserCanceled' | 'Reserved' | 'Authorized' | 'Expired' | 'Refunded' | 'PartiallyRefunded';
+export type RecurrenceType = 'MerchantInitiatedPayment' | 'OneClickPayment' | 'RecurringPayment';
+export type RecurrenceResult = 'None' | 'Successful' | 'Failed' | 'NotFound';
+
+export const LOCALES = ['cs-CZ', 'de-DE', 'en-US', 'es-ES', 'fr-FR', 'hu-HU', 'sk-SK', 'sl-SI', 'el-GR', 'hr-HR', 'it-IT', 'ro-RO', 'pl-PL', 'bg-BG'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const FUNDING_SOURCES = ['All', 'Balance', 'BankCard', 'GooglePay', 'ApplePay'] as const;
+export type FundingSource = (typeof FUNDING_SOURCES)[number];
+
+// Barion PaymentWindow is a .NET TimeSpan ("[d.]hh:mm:ss") between 1 minute and 7 days
+const PAYMENT_WINDOW_PATTERN = /^(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2})$/;
+const MIN_PAYMENT_WINDOW_SECONDS = 60;
+const MAX_PAYMENT_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+export function isValidPaymentWindow(value: string): boolean {
+  const match = PAYMENT_WINDOW_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, days, hours, minutes, seconds] = match;
+  if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) {
+    return false;
+  }
+  const total = Number(days || 0) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return total >= MIN_PAYMENT_WINDOW_SECONDS && total <= MAX_PAYMENT_WINDOW_SECONDS;
+}
+
+// Gateway options that can be set per payment or as server-level defaults
+export interface PaymentOptions {
+  fundingSources?: FundingSource[];
+  guestCheckout?: boolean;
+  locale?: Locale;
+  paymentWindow?: string;
+}
+
+export interface PaymentDefaults extends PaymentOptions {
+  redirectUrl?: string;
+  callbackUrl?: string;
+}
+
+export type ChallengePreference = 'NoPreference' | 'ChallengeRequired' | 'NoChallengeNeeded';
+export type AccountCreationIndicator = 'NoAccount' | 'CreatedDuringThisTransaction' | 'LessThan30Days' | 'Between30And60Days' | 'MoreThan60Days';
+export type AccountChangeIndicator = 'ChangedDuringThisTransaction' | 'LessThan30Days' | 'Between30And60Days' | 'MoreThan60Days';
+export type PasswordChangeIndicator = 'NoChange' | 'ChangedDuringThisTransaction' | 'LessThan30Days' | 'Between30And60Days' | 'MoreThan60Days';
+export type ShippingAddressUsageIndicator = 'ThisTransaction' | 'LessThan30Days' | 'Between30And60Days' | 'MoreThan60Days';
+export type SuspiciousActivityIndicator = 'NoSuspiciousActivityObserved' | 'SuspiciousActivityObserved';
+export type PaymentMethodIndicator = 'NoAccount' | 'ThisTransaction' | 'LessThan30Days' | 'Between30And60Days' | 'MoreThan60Days';
+export type DeliveryTimeframe = 'ElectronicDelivery' | 'SameDayShipping' | 'OvernightShipping' | 'TwoDayOrMoreShipping';
+export type AvailabilityIndicator = 'MerchandiseAvailable' | 'FutureAvailability';
+export type ReOrderIndicator = 'FirstTimeOrdered' | 'Reordered';
+export type ShippingAddressIndicator = 'ShipToCardholdersBillingAddress' | 'ShipToAnotherVerifiedAddress' | 'ShipToDifferentAddress' | 'ShipToStore' | 'DigitalGoods' | 'TravelAndEventTickets' | 'Other';
+export type PurchaseType = 'GoodsAndServicePurchase' | 'CheckAcceptance' | 'AccountFunding' | 'QuasiCashTransaction' | 'PrePaidVacationAndLoad';
+
+export interface BillingAddress {
+  country: string;
+  city?: string;
+  region?: string;
+  zip?: string;
+  street?: string;
+  street2?: string;
+  street3?: string;
+}
+
+export interface ShippingAddress extends BillingAddress {
+  fullName?: string;
+}
+
+export interface PayerAccountInformation {
+  accountId?: string;
+  accountCreated?: string;
+  creationIndicator?: AccountCreationIndicator;
+  accountLastChanged?: string;
+  changeIndicator?: AccountChangeIndicator;
+  passwordLastChanged?: string;
+  passwordChangeIndicator?: PasswordChangeIndicator;
+  purchasesInTheLast6Months?: number;
+  shippingAddressAdded?: string;
+  shippingAddressUsageIndicator?: ShippingAddressUsageIndicator;
+  provisionAttempts?: number;
+  transactionalActivityPerDay?: number;
+  transactionalActivityPerYear?: number;
+  paymentMethodAdded?: string;
+  paymentMethodIndicator?: PaymentMethodIndicator;
+  suspiciousActivityIndicator?: SuspiciousActivityIndicator;
+}
+
+export interface PurchaseInformation {
+  deliveryTimeframe?: DeliveryTimeframe;
+  deliveryEmailAddress?: string;
+  preOrderDate?: string;
+  availabilityIndicator?: AvailabilityIndicator;
+  reOrderIndicator?: ReOrderIndicator;
+  shippingAddressIndicator?: ShippingAddressIndicator;
+  recurringExpiry?: string;
+  recurringFrequency?: number;
+  purchaseType?: PurchaseType;
+  giftCardPurchase?: {
+    amount: number;
+    count: number;
+  };
+  purchaseDate?: string;
+}
+
+// Optional payer data used by Barion for frictionless 3D Secure 2 authentication
+export interface ThreeDSPayerData {
+  payerHint?: string;
+  cardHolderNameHint?: string;
+  payerPhoneNumber?: string;
+  payerWorkPhoneNumber?: string;
+  payerHomeNumber?: string;
+  billingAddress?: BillingAddress;
+  shippingAddress?: ShippingAddress;
+  payerAccountInformation?: PayerAccountInformation;
+  purchaseInformation?: PurchaseInformation;
+  challengePreference?: ChallengePreference;
+}
 
-export interface StartPaymentRequest {
+export interface StartPaymentRequest extends ThreeDSPayerData, PaymentOptions {
   paymentType: PaymentType;
   currency: Currency;
   transactions: PaymentTransaction[];
-  redirectUrl: string;
-  callbackUrl: string;
+  redirectUrl?: string;
+  callbackUrl?: string;
   paymentRequestId?: string;
+  orderNumber?: string;
+  initiateRecurrence?: boolean;
+  recurrenceId?: string;
+  recurrenceType?: RecurrenceType;
+}
+
+export interface ChargeRecurringRequest extends PaymentOptions {
+  currency: Currency;
+  transactions: PaymentTransaction[];
+  recurrenceId: string;
+  recurrenceType: RecurrenceType;
+  traceId?: string;
+  redirectUrl?: string;
+  callbackUrl?: string;
+  paymentRequestId?: string;
+  orderNumber?: string;
 }
 
 export interface FinishReservationRequest {
@@ -40,11 +175,19 @@ export interface FinishReservationRequest {
   }[];
 }
 
-export interface RefundPaymentRequest {
-  paymentId: string;
+// One transaction of a refund, optionally broken down into the refunded items
+export interface RefundTransactionRequest {
   transactionId: string;
+  // ID of the refund transaction in your system
+  posTransactionId?: string;
   amount: number;
   comment?: string;
+  items?: PaymentItem[];
+}
+
+export interface RefundPaymentRequest {
+  paymentId: string;
+  transactions: RefundTransactionRequest[];
 }
 
 export interface CapturePaymentRequest {
@@ -63,13 +206,7 @@ export interface CancelAuthorizationRequest {
 // Response Types
 // ============================================================================
 
-export interface BarionError {
-  ErrorCode: string;
-  Title: string;
-  Description: string;
-  AuthData?: string;
-  EndPoint?: string;
-}
+export type { BarionError };
 
 export interface TransactionDetail {
   TransactionId: string;
@@ -103,7 +240,7 @@ export interface StartPaymentResponse {
   PaymentRequestId: string;
   Status: PaymentStatus;
   QRUrl?: string;
-  RecurrenceResult?: string;
+  RecurrenceResult?: RecurrenceResult;
   GatewayUrl: string;
   RedirectUrl?: string;
   CallbackUrl?: string;
@@ -114,6 +251,7 @@ export interface StartPaymentResponse {
 export interface PaymentStateResponse {
   PaymentId: string;
   PaymentRequestId: string;
+  OrderNumber?: string;
   POSId: string;
   POSName: string;
   Status: PaymentStatus;
@@ -133,6 +271,9 @@ export interface PaymentStateResponse {
   FraudRiskScore?: number;
   RedirectUrl?: string;
   CallbackUrl?: string;
+  RecurrenceId?: string;
+  RecurrenceType?: RecurrenceType;
+  TraceId?: string;
   Errors?: BarionError[];
 }
 
@@ -145,12 +286,18 @@ export interface FinishReservationResponse {
   Errors?: BarionError[];
 }
 
+export interface RefundedTransaction {
+  // ID of the new refund transaction
+  TransactionId: string;
+  Total: number;
+  POSTransactionId?: string;
+  Comment?: string;
+  Status: TransactionStatus;
+}
+
 export interface RefundPaymentResponse {
-  IsSuccessful: boolean;
   PaymentId: string;
-  PaymentRequestId: string;
-  Status: PaymentStatus;
-  TransactionId: string;
+  RefundedTransactions: RefundedTransaction[];
   Errors?: BarionError[];
 }
 
@@ -172,98 +319,193 @@ export interface CancelAuthorizationResponse {
 }
 
 export class BarionClient {
-  private poskey: string;
-  private baseUrl: string;
-
-  constructor(poskey: string, environment: 'test' | 'prod' = 'test') {
-    this.poskey = poskey;
-    this.baseUrl =
-      environment === 'prod'
-        ? 'https://api.barion.com'
-        : 'https://api.test.barion.com';
+  private http: BarionHttp;
+  private defaults: PaymentDefaults;
+
+  constructor(
+    poskey: string,
+    environment: BarionEnvironment = 'test',
+    defaults: PaymentDefaults = {},
+    retry: RetryOptions = {},
+    connection: ConnectionOptions = {}
+  ) {
+    this.defaults = defaults;
+    this.http = new BarionHttp({ environment, name: 'Barion API', poskey, retry, ...connection });
+  }
+
+  private request<T>(
+    endpoint: string,
+    data: Record<string, unknown>,
+    method: 'POST' | 'GET' = 'POST',
+    retry?: RetryMode<T>
+  ): Promise<T> {
+    return this.http.request<T>(endpoint, data, method, retry);
   }
 
-  private async request<T>(endpoint: string, data: Record<string, unknown>, method: 'POST' | 'GET' = 'POST'): Promise<T> {
-    const params = {
-      POSKey: this.poskey,
-      ...data,
+  private buildTransactions(transactions: PaymentTransaction[]) {
+    return transactions.map((t) => ({
+      POSTransactionId: t.posTransactionId,
+      Payee: t.payee,
+      Total: t.total,
+      Items: this.buildItems(t.items),
+    }));
+  }
+
+  private buildItems(items: PaymentItem[]) {
+    return items.map((i) => ({
+      Name: i.name,
+      Description: i.description,
+      Quantity: i.quantity,
+      Unit: i.unit,
+      UnitPrice: i.unitPrice,
+      ItemTotal: i.itemTotal,
+    }));
+  }
+
+  // Barion expects phone numbers as digits only, country code included without the leading '+'
+  private normalizePhoneNumber(phone: string): string {
+    return phone.replace(/[\s\-()]/g, '').replace(/^\+/, '');
+  }
+
+  private buildAddress(address: ShippingAddress): Record<string, unknown> {
+    const mapped: Record<string, unknown> = {
+      Country: address.country,
+      City: address.city,
+      Region: address.region,
+      Zip: address.zip,
+      Street: address.street,
+      Street2: address.street2,
+      Street3: address.street3,
+      FullName: address.fullName,
     };
+    return this.omitUndefined(mapped);
+  }
 
-    let url = `${this.baseUrl}${endpoint}`;
-    let body: string | undefined;
-
-    if (method === 'GET') {
-      // For GET requests, append parameters as query string
-      const queryParams = new URLSearchParams();
-      Object.entries(params).forEach(([key, value]) => {
-        queryParams.append(key, String(value));
-      });
-      url = `${url}?${queryParams.toString()}`;
-      console.error(`[Barion API] GET Request to: ${url}`);
-    } else {
-      // For POST requests, send as JSON body
-      body = JSON.stringify(params);
-      console.error(`[Barion API] POST Request to: ${url}`);
-      console.error(`[Barion API] Payload:`, JSON.stringify(params, null, 2));
-    }
+  private omitUndefined(data: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  }
 
-    const response = await fetch(url, {
-      method,
-      headers: method === 'POST' ? {
-        'Content-Type': 'application/json',
-      } : undefined,
-      body,
+  private buildThreeDSFields(data: ThreeDSPayerData): Record<string, unknown> {
+    const account = data.payerAccountInformation;
+    const purchase = data.purchaseInformation;
+
+    return this.omitUndefined({
+      PayerHint: data.payerHint,
+      CardHolderNameHint: data.cardHolderNameHint,
+      PayerPhoneNumber: data.payerPhoneNumber && this.normalizePhoneNumber(data.payerPhoneNumber),
+      PayerWorkPhoneNumber: data.payerWorkPhoneNumber && this.normalizePhoneNumber(data.payerWorkPhoneNumber),
+      PayerHomeNumber: data.payerHomeNumber && this.normalizePhoneNumber(data.payerHomeNumber),
+      BillingAddress: data.billingAddress && this.buildAddress(data.billingAddress),
+      ShippingAddress: data.shippingAddress && this.buildAddress(data.shippingAddress),
+      PayerAccountInformation: account && this.omitUndefined({
+        AccountId: account.accountId,
+        AccountCreated: account.accountCreated,
+        AccountCreationIndicator: account.creationIndicator,
+        AccountLastChanged: account.accountLastChanged,
+        AccountChangeIndicator: account.changeIndicator,
+        PasswordLastChanged: account.passwordLastChanged,
+        PasswordChangeIndicator: account.passwordChangeIndicator,
+        PurchasesInTheLast6Months: account.purchasesInTheLast6Months,
+        ShippingAddressAdded: account.shippingAddressAdded,
+        ShippingAddressUsageIndicator: account.shippingAddressUsageIndicator,
+        ProvisionAttempts: account.provisionAttempts,
+        TransactionalActivityPerDay: account.transactionalActivityPerDay,
+        TransactionalActivityPerYear: account.transactionalActivityPerYear,
+        PaymentMethodAdded: account.paymentMethodAdded,
+        PaymentMethodIndicator: account.paymentMethodIndicator,
+        SuspiciousActivityIndicator: account.suspiciousActivityIndicator,
+      }),
+      PurchaseInformation: purchase && this.omitUndefined({
+        DeliveryTimeframe: purchase.deliveryTimeframe,
+        DeliveryEmailAddress: purchase.deliveryEmailAddress,
+        PreOrderDate: purchase.preOrderDate,
+        AvailabilityIndicator: purchase.availabilityIndicator,
+        ReOrderIndicator: purchase.reOrderIndicator,
+        ShippingAddressIndicator: purchase.shippingAddressIndicator,
+        RecurringExpiry: purchase.recurringExpiry,
+        RecurringFrequency: purchase.recurringFrequency,
+        PurchaseType: purchase.purchaseType,
+        GiftCardPurchase: purchase.giftCardPurchase && {
+          Amount: purchase.giftCardPurchase.amount,
+          Count: purchase.giftCardPurchase.count,
+        },
+        PurchaseDate: purchase.purchaseDate,
+      }),
+      ChallengePreference: data.challengePreference,
     });
+  }
 
-    console.error(`[Barion API] Response status: ${response.status} ${response.statusText}`);
+  // Resolve per-payment options against server-level defaults and Barion's own defaults
+  private buildPaymentOptions(request: PaymentOptions & { redirectUrl?: string; callbackUrl?: string; orderNumber?: string }): Record<string, unknown> {
+    return this.omitUndefined({
+      FundingSources: request.fundingSources ?? this.defaults.fundingSources ?? ['All'],
+      GuestCheckOut: request.guestCheckout ?? this.defaults.guestCheckout ?? true,
+      Locale: request.locale ?? this.defaults.locale ?? 'en-US',
+      PaymentWindow: request.paymentWindow ?? this.defaults.paymentWindow,
+      OrderNumber: request.orderNumber,
+      RedirectUrl: request.redirectUrl ?? this.defaults.redirectUrl,
+      CallbackUrl: request.callbackUrl ?? this.defaults.callbackUrl,
+    });
+  }
+
+  private generatePaymentRequestId(): string {
+    return `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Barion API] Error response body:`, errorText);
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
+  async startPayment(request: StartPaymentRequest): Promise<StartPaymentResponse> {
+    if (request.initiateRecurrence && !request.recurrenceId) {
+      throw new Error('recurrenceId is required when initiateRecurrence is true');
+    }
+    if (request.paymentWindow && !isValidPaymentWindow(request.paymentWindow)) {
+      throw new Error(`Invalid paymentWindow "${request.paymentWindow}": use [d.]hh:mm:ss between 00:01:00 and 7.00:00:00`);
     }
 
-    const result = await response.json();
-    console.error(`[Barion API] Response body:`, JSON.stringify(result, null, 2));
+    // Generate a unique PaymentRequestId if not provided
+    const paymentRequestId = request.paymentRequestId || this.generatePaymentRequestId();
 
-    // Check for Barion API errors
-    if (result.Errors && result.Errors.length > 0) {
-      console.error(`[Barion API] API Errors:`, result.Errors);
-      throw new Error(`Barion API Error: ${result.Errors.map((e: any) => `${e.ErrorCode}: ${e.Title} - ${e.Description}`).join(', ')}`);
+    const payload: Record<string, unknown> = {
+      PaymentType: request.paymentType,
+      PaymentRequestId: paymentRequestId,
+      Currency: request.currency,
+      Transactions: this.buildTransactions(request.transactions),
+      ...this.buildPaymentOptions(request),
+      ...this.buildThreeDSFields(request),
+    };
+
+    // Recurrence setup: the first payment registers the token under RecurrenceId
+    if (request.recurrenceId) {
+      payload.InitiateRecurrence = request.initiateRecurrence ?? false;
+      payload.RecurrenceId = request.recurrenceId;
+    }
+    if (request.recurrenceType) {
+      payload.RecurrenceType = request.recurrenceType;
     }
 
-    return result as T;
+    // Barion cannot look a payment up by PaymentRequestId, so a lost response cannot be checked
+    return this.request<StartPaymentResponse>('/v2/Payment/Start', payload, 'POST', { kind: 'never' });
   }
 
-  async startPayment(request: StartPaymentRequest): Promise<StartPaymentResponse> {
-    // Generate a unique PaymentRequestId if not provided
-    const paymentRequestId = request.paymentRequestId || `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Charge a previously registered recurrence token without customer interaction
+  async chargeRecurring(request: ChargeRecurringRequest): Promise<StartPaymentResponse> {
+    const paymentRequestId = request.paymentRequestId || this.generatePaymentRequestId();
 
-    const payload = {
-      PaymentType: request.paymentType,
+    const payload: Record<string, unknown> = {
+      PaymentType: 'Immediate',
       PaymentRequestId: paymentRequestId,
       Currency: request.currency,
-      FundingSources: ['All'],
-      Transactions: request.transactions.map((t) => ({
-        POSTransactionId: t.posTransactionId,
-        Payee: t.payee,
-        Total: t.total,
-        Items: t.items.map((i) => ({
-          Name: i.name,
-          Description: i.description,
-          Quantity: i.quantity,
-          Unit: i.unit,
-          UnitPrice: i.unitPrice,
-          ItemTotal: i.itemTotal,
-        })),
-      })),
-      RedirectUrl: request.redirectUrl,
-      CallbackUrl: request.callbackUrl,
-      GuestCheckOut: true,
-      Locale: 'en-US',
+      Transactions: this.buildTransactions(request.transactions),
+      InitiateRecurrence: false,
+      RecurrenceId: request.recurrenceId,
+      RecurrenceType: request.recurrenceType,
+      ...this.buildPaymentOptions(request),
     };
 
-    return this.request<StartPaymentResponse>('/v2/Payment/Start', payload);
+    if (request.traceId) {
+      payload.TraceId = request.traceId;
+    }
+
+    // Never resent after a lost response: the token could be charged twice
+    return this.request<StartPaymentResponse>('/v2/Payment/Start', payload, 'POST', { kind: 'never' });
   }
 
   async getPaymentState(paymentId: string): Promise<PaymentStateResponse> {
@@ -287,9 +529,15 @@ export class BarionClient {
   async refundPayment(request: RefundPaymentRequest): Promise<RefundPaymentResponse> {
     const payload = {
       PaymentId: request.paymentId,
-      TransactionId: request.transactionId,
-      AmountToRefund: request.amount,
-      Comment: request.comment || '',
+      TransactionsToRefund: request.transactions.map((t) =>
+        this.omitUndefined({
+          TransactionId: t.transactionId,
+          POSTransactionId: t.posTransactionId,
+          AmountToRefund: t.amount,
+          Comment: t.comment || '',
+          Items: t.items && this.buildItems(t.items),
+        })
+      ),
     };
 
     return this.request<RefundPaymentResponse>('/v2/Payment/Refund', payload);
@@ -0,0 +1,124 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { BarionClient, PaymentStateResponse } from './barion-client.js';
+import { PaymentEventLog } from './payment-event-log.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Callback Server');
+
+// Barion callbacks only carry a PaymentId, anything larger is not a Barion request
+const MAX_BODY_BYTES = 16 * 1024;
+
+export interface CallbackServerOptions {
+  port: number;
+  host?: string;
+  path?: string;
+  client: BarionClient;
+  eventLog: PaymentEventLog;
+  onPaymentState?: (paymentId: string, state: PaymentStateResponse) => void | Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+// Barion posts form-encoded "paymentId=...", but accept JSON and query strings too
+export function extractPaymentId(body: string, contentType: string | undefined, query: URLSearchParams): string | undefined {
+  if (contentType?.includes('application/json')) {
+    try {
+      const parsed = JSON.parse(body);
+      const value = parsed.PaymentId ?? parsed.paymentId;
+      return typeof value === 'string' && value ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const form = new URLSearchParams(body);
+  for (const params of [form, query]) {
+    for (const [key, value] of params) {
+      if (key.toLowerCase() === 'paymentid' && value) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+async function handleNotification(paymentId: string, options: CallbackServerOptions): Promise<void> {
+  try {
+    const state = await options.client.getPaymentState(paymentId);
+    const event = await options.eventLog.recordState(state);
+    log.info(`Payment ${paymentId}: ${event.previousStatus || 'unknown'} -> ${event.status}`);
+    await options.onPaymentState?.(paymentId, state);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`Failed to process callback for payment ${paymentId}`, message);
+    await options.eventLog.recordFailure(paymentId, message);
+  }
+}
+
+/**
+ * Start an HTTP listener for Barion payment callbacks.
+ *
+ * Each notification is acknowledged immediately, then the payment state is
+ * fetched with getPaymentState and recorded in the event log.
+ */
+export function startCallbackServer(options: CallbackServerOptions): Promise<Server> {
+  const path = options.path || '/barion/callback';
+  // Local only unless asked otherwise; a tunnel or reverse proxy usually forwards Barion's requests
+  const host = options.host || '127.0.0.1';
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    let paymentId: string | undefined;
+    try {
+      const body = await readBody(req);
+      paymentId = extractPaymentId(body, req.headers['content-type'], url.searchParams);
+    } catch {
+      res.writeHead(413).end();
+      return;
+    }
+
+    if (!paymentId) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Missing PaymentId');
+      return;
+    }
+
+    // Barion only needs a 200 response; process the notification afterwards
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('OK');
+    void handleNotification(paymentId, options);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => {
+      server.off('error', reject);
+      log.info(`Listening on http://${host}:${options.port}${path}`);
+      resolve(server);
+    });
+  });
+}
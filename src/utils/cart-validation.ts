@@ -0,0 +1,133 @@
+import { Currency, PaymentTransaction } from './barion-client.js';
+
+// Decimal places Barion accepts per currency
+export const CURRENCY_DECIMALS: Record<Currency, number> = { HUF: 0, EUR: 2, USD: 2, CZK: 2 };
+
+// One problem in the cart, e.g. at "transactions[0].items[1].itemTotal"
+export interface CartIssue {
+  path: string;
+  message: string;
+  // Corrected value, when one can be derived from the rest of the cart
+  suggestion?: string | number;
+}
+
+export interface CartTransactionSummary {
+  posTransactionId: string;
+  total: number;
+  itemsTotal: number;
+  items: number;
+}
+
+export interface CartValidation {
+  valid: boolean;
+  currency: Currency;
+  total: number;
+  transactions: CartTransactionSummary[];
+  issues: CartIssue[];
+}
+
+export class CartValidationError extends Error {
+  constructor(public validation: CartValidation) {
+    super(`The cart has ${validation.issues.length} problem${validation.issues.length === 1 ? '' : 's'}: ${validation.issues.map((issue) => issue.message).join('; ')}`);
+    this.name = 'CartValidationError';
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Amount rounded to the precision Barion accepts in the currency
+export function roundAmount(value: number, currency: Currency): number {
+  return round(value, CURRENCY_DECIMALS[currency] ?? 2);
+}
+
+// Amounts are compared in the smallest unit of the currency, so 0.1 + 0.2 equals 0.3
+function sameAmount(a: number, b: number, decimals: number): boolean {
+  return Math.abs(a - b) < 0.5 * 10 ** -decimals;
+}
+
+function hasValidDecimals(value: number, decimals: number): boolean {
+  const factor = 10 ** decimals;
+  return Math.abs(Math.round(value * factor) - value * factor) < 1e-6;
+}
+
+/**
+ * Check a cart the way Barion validates it before a payment starts: amount
+ * precision of the currency, item totals, transaction totals and unique
+ * POS transaction IDs. Nothing is sent to Barion.
+ */
+export function validateCart(request: { currency: Currency; transactions: PaymentTransaction[] }): CartValidation {
+  const { currency, transactions } = request;
+  const decimals = CURRENCY_DECIMALS[currency];
+  const precision = decimals === 0 ? `whole ${currency} amounts` : `at most ${decimals} decimals in ${currency}`;
+  const issues: CartIssue[] = [];
+
+  const checkDecimals = (path: string, label: string, value: number) => {
+    if (!hasValidDecimals(value, decimals)) {
+      issues.push({ path, message: `${label} ${value} has too many decimals; Barion accepts ${precision}`, suggestion: round(value, decimals) });
+    }
+  };
+
+  const seen = new Map<string, number>();
+  const summaries = transactions.map((transaction, t) => {
+    const path = `transactions[${t}]`;
+    const first = seen.get(transaction.posTransactionId);
+    if (first !== undefined) {
+      issues.push({
+        path: `${path}.posTransactionId`,
+        message: `posTransactionId "${transaction.posTransactionId}" is also used by transactions[${first}]; every transaction needs its own`,
+        suggestion: `${transaction.posTransactionId}-${t + 1}`,
+      });
+    } else {
+      seen.set(transaction.posTransactionId, t);
+    }
+
+    checkDecimals(`${path}.total`, 'Total', transaction.total);
+    if (transaction.items.length === 0) {
+      issues.push({ path: `${path}.items`, message: 'Every transaction needs at least one item' });
+    }
+
+    transaction.items.forEach((item, i) => {
+      const itemPath = `${path}.items[${i}]`;
+      checkDecimals(`${itemPath}.unitPrice`, `Unit price of "${item.name}"`, item.unitPrice);
+      checkDecimals(`${itemPath}.itemTotal`, `Item total of "${item.name}"`, item.itemTotal);
+      const expected = round(item.quantity * item.unitPrice, decimals);
+      if (!sameAmount(item.itemTotal, expected, decimals)) {
+        issues.push({
+          path: `${itemPath}.itemTotal`,
+          message: `Item total of "${item.name}" is ${item.itemTotal}, but quantity ${item.quantity} × unit price ${item.unitPrice} is ${expected}`,
+          suggestion: expected,
+        });
+      }
+    });
+
+    const itemsTotal = round(transaction.items.reduce((sum, item) => sum + item.itemTotal, 0), decimals);
+    if (transaction.items.length > 0 && !sameAmount(transaction.total, itemsTotal, decimals)) {
+      issues.push({
+        path: `${path}.total`,
+        message: `Total of ${transaction.posTransactionId} is ${transaction.total}, but its items add up to ${itemsTotal}`,
+        suggestion: itemsTotal,
+      });
+    }
+
+    return { posTransactionId: transaction.posTransactionId, total: transaction.total, itemsTotal, items: transaction.items.length };
+  });
+
+  return {
+    valid: issues.length === 0,
+    currency,
+    total: round(transactions.reduce((sum, transaction) => sum + transaction.total, 0), decimals),
+    transactions: summaries,
+    issues,
+  };
+}
+
+// Throws CartValidationError when the cart would be rejected by Barion
+export function assertValidCart(request: { currency: Currency; transactions: PaymentTransaction[] }): void {
+  const validation = validateCart(request);
+  if (!validation.valid) {
+    throw new CartValidationError(validation);
+  }
+}
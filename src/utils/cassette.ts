@@ -0,0 +1,193 @@
+import { mkdirSync, readFileSync, readdirSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { BarionApiErrorKind } from './barion-api-error.js';
+import { createLogger } from './logger.js';
+import { redactValue } from './redaction.js';
+
+const log = createLogger('Cassette');
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteRequest {
+  method: 'GET' | 'POST';
+  endpoint: string;
+  params: Record<string, unknown>;
+}
+
+// What Barion answered, or why no answer arrived
+export type CassetteOutcome =
+  | { status: number; statusText: string; body: unknown }
+  | { error: { kind: Extract<BarionApiErrorKind, 'network' | 'timeout'>; message: string } };
+
+// One cassette file
+export interface CassetteInteraction {
+  recordedAt: string;
+  request: CassetteRequest;
+  response: CassetteOutcome;
+}
+
+// Generated by the client for every start request, so they differ between recording and replay
+const VOLATILE_KEYS = ['PaymentRequestId'];
+
+// JSON with sorted keys, so the same parameters in any order give the same key
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// The random reference WalletClient appends to transfer comments, alone or after the comment
+const TRANSFER_REFERENCE = /^ref [0-9a-f]{12}$| \(ref [0-9a-f]{12}\)$/;
+
+function matchKey(request: CassetteRequest): string {
+  const params = redactValue(request.params) as Record<string, unknown>;
+  const stable = Object.fromEntries(Object.entries(params).filter(([key]) => !VOLATILE_KEYS.includes(key)));
+  if (typeof stable.Comment === 'string') {
+    stable.Comment = stable.Comment.replace(TRANSFER_REFERENCE, '');
+  }
+  return `${request.method} ${request.endpoint} ${canonicalJson(stable)}`;
+}
+
+function fileName(sequence: number, request: CassetteRequest): string {
+  const slug = request.endpoint.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${String(sequence).padStart(4, '0')}-${request.method}-${slug}.json`;
+}
+
+function cassetteFiles(dir: string): string[] {
+  return readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Recorded Barion traffic in a directory, one JSON file per request.
+ *
+ * In record mode every request and its response (or network error) is
+ * written with credentials and payer data removed and emails and account
+ * numbers masked, as in the logs. Masking is deterministic, so replayed
+ * requests still match. In replay mode responses are served from
+ * the files instead of the network: requests match on method, endpoint and
+ * parameters (key order and client-generated request IDs ignored), and
+ * matching interactions are served in recorded order, the last one repeating.
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly dir: string;
+  private sequence = 0;
+  private interactions = new Map<string, { recorded: CassetteInteraction[]; next: number }>();
+
+  constructor(mode: CassetteMode, dir: string) {
+    this.mode = mode;
+    this.dir = dir;
+    if (mode === 'record') {
+      this.openForRecording();
+    } else {
+      this.load();
+    }
+  }
+
+  private openForRecording(): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      // Continue the numbering of an earlier session in the same directory
+      for (const name of cassetteFiles(this.dir)) {
+        this.sequence = Math.max(this.sequence, parseInt(name, 10) || 0);
+      }
+    } catch (error: unknown) {
+      throw new Error(`Cannot record to ${this.dir}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private load(): void {
+    let files: string[];
+    try {
+      files = cassetteFiles(this.dir);
+    } catch (error: unknown) {
+      throw new Error(`Cannot replay from ${this.dir}: ${error instanceof Error ? error.message : error}`);
+    }
+    for (const name of files) {
+      let interaction: CassetteInteraction;
+      try {
+        interaction = JSON.parse(readFileSync(join(this.dir, name), 'utf8')) as CassetteInteraction;
+      } catch (error: unknown) {
+        throw new Error(`Invalid cassette file ${join(this.dir, name)}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!interaction.request?.endpoint || !interaction.response) {
+        throw new Error(`Invalid cassette file ${join(this.dir, name)}: request and response are required`);
+      }
+      const key = matchKey(interaction.request);
+      const entry = this.interactions.get(key) || { recorded: [], next: 0 };
+      entry.recorded.push(interaction);
+      this.interactions.set(key, entry);
+    }
+    log.info(`Replaying ${files.length} recorded requests from ${this.dir}; nothing is sent to Barion`);
+  }
+
+  /**
+   * Write one interaction. A failed write is logged; it never fails the Barion request.
+   */
+  async record(request: CassetteRequest, response: CassetteOutcome): Promise<void> {
+    const interaction: CassetteInteraction = {
+      recordedAt: new Date().toISOString(),
+      request: { ...request, params: redactValue(request.params) as Record<string, unknown> },
+      response: 'body' in response ? { ...response, body: redactValue(response.body) } : response,
+    };
+    const file = join(this.dir, fileName(++this.sequence, request));
+    try {
+      await writeFile(file, `${JSON.stringify(interaction, null, 2)}\n`);
+      log.debug(`Recorded ${request.method} ${request.endpoint} to ${file}`);
+    } catch (error: unknown) {
+      log.warn(`Cannot write cassette file ${file}`, error);
+    }
+  }
+
+  // The recorded outcome for the request; throws when nothing matches
+  replay(request: CassetteRequest): CassetteOutcome {
+    const entry = this.interactions.get(matchKey(request));
+    if (!entry) {
+      const sameEndpoint = [...this.interactions.values()]
+        .flatMap((item) => item.recorded)
+        .filter((item) => item.request.method === request.method && item.request.endpoint === request.endpoint).length;
+      log.debug('Unmatched request parameters', redactValue(request.params));
+      throw new Error(
+        `No recorded response for ${request.method} ${request.endpoint} with these parameters in ${this.dir}` +
+          (sameEndpoint > 0 ? ` (${sameEndpoint} recorded with other parameters)` : '')
+      );
+    }
+    const interaction = entry.recorded[Math.min(entry.next, entry.recorded.length - 1)];
+    entry.next++;
+    return interaction.response;
+  }
+}
+
+// Clients sharing a directory share one cassette, so recordings are numbered in request order
+const cassettes = new Map<string, Cassette>();
+
+/**
+ * Cassette for the record or replay directory of the connection. Undefined when neither is set.
+ */
+export function openCassette(connection: { recordDir?: string; replayDir?: string }): Cassette | undefined {
+  if (connection.recordDir && connection.replayDir) {
+    throw new Error('Recording and replaying cannot be combined; choose one');
+  }
+  const mode: CassetteMode | undefined = connection.recordDir ? 'record' : connection.replayDir ? 'replay' : undefined;
+  if (!mode) {
+    return undefined;
+  }
+  const dir = (connection.recordDir || connection.replayDir) as string;
+  const key = `${mode}|${dir}`;
+  let cassette = cassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette(mode, dir);
+    cassettes.set(key, cassette);
+  }
+  return cassette;
+}
@@ -0,0 +1,94 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatOperationCancelled } from './response-formatter.js';
+import { noteCancelled } from './audit-log.js';
+
+export interface OperationSummary {
+  operation: string;
+  details: Record<string, string | number | undefined>;
+}
+
+export interface ConfirmationOutcome {
+  approved: boolean;
+  reason?: string;
+}
+
+export type Confirmer = (summary: OperationSummary) => Promise<ConfirmationOutcome>;
+
+const APPROVED: ConfirmationOutcome = { approved: true };
+
+export function formatOperationSummary(summary: OperationSummary): string {
+  const lines = Object.entries(summary.details)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => `- ${label}: ${value}`);
+  return `${summary.operation}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Create the confirmation step used by money-moving tools.
+ *
+ * When enabled, the user is asked through MCP elicitation to approve a summary
+ * of the operation. Clients without elicitation support cannot confirm, so the
+ * operation is refused rather than run unconfirmed.
+ */
+export function createConfirmer(server: McpServer, enabled: boolean): Confirmer {
+  if (!enabled) {
+    return async () => APPROVED;
+  }
+
+  return async (summary) => {
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      return {
+        approved: false,
+        reason: 'Human confirmation is required, but this MCP client does not support elicitation. Use a client with elicitation support or start the server without --require-confirmation.',
+      };
+    }
+
+    const result = await server.server.elicitInput({
+      message: `Please review and approve this operation:\n\n${formatOperationSummary(summary)}`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          approve: {
+            type: 'boolean',
+            title: 'Approve',
+            description: `Execute "${summary.operation}" with the details above`,
+          },
+        },
+        required: ['approve'],
+      },
+    });
+
+    if (result.action === 'accept' && result.content?.approve === true) {
+      return APPROVED;
+    }
+    if (result.action === 'accept') {
+      return { approved: false, reason: 'The user did not approve the operation.' };
+    }
+    return {
+      approved: false,
+      reason: result.action === 'decline' ? 'The user declined the operation.' : 'The user dismissed the confirmation request.',
+    };
+  };
+}
+
+/**
+ * Ask for approval and return the tool result to send back when it is not given
+ */
+export async function requireApproval(confirm: Confirmer, summary: OperationSummary): Promise<CallToolResult | undefined> {
+  const outcome = await confirm(summary);
+  if (outcome.approved) {
+    return undefined;
+  }
+  noteCancelled();
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatOperationCancelled(summary.operation, formatOperationSummary(summary), outcome.reason),
+      },
+    ],
+    // Not a result of the operation, so it carries no structured content
+    isError: true,
+  };
+}
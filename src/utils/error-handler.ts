@@ -3,55 +3,149 @@
  * Provides actionable, LLM-friendly error messages with specific guidance
  */
 
-export interface BarionError {
-  ErrorCode?: string;
-  Title?: string;
-  Description?: string;
-  AuthData?: string;
-}
+import { BarionApiError } from './barion-api-error.js';
+import { CartValidationError } from './cart-validation.js';
+import { PaymentStateError } from './payment-state-machine.js';
+import { formatCartIssues } from './response-formatter.js';
+import { PolicyViolationError } from './spending-policy.js';
 
 /**
  * Format Barion API error with actionable guidance
  */
 export function formatBarionError(operationName: string, error: unknown): string {
-  const errorMessage = error instanceof Error ? error.message : String(error);
+  if (error instanceof PolicyViolationError) {
+    return formatPolicyViolation(operationName, error);
+  }
 
-  // Check for HTTP errors
-  if (errorMessage.includes('HTTP 401') || errorMessage.includes('HTTP 403')) {
-    return formatAuthenticationError(operationName, errorMessage);
+  if (error instanceof CartValidationError) {
+    return formatCartValidationError(operationName, error);
   }
 
-  if (errorMessage.includes('HTTP 400')) {
-    return formatValidationError(operationName, errorMessage);
+  if (error instanceof PaymentStateError) {
+    return formatPaymentStateError(operationName, error);
   }
 
-  if (errorMessage.includes('HTTP 404')) {
-    return formatNotFoundError(operationName, errorMessage);
+  if (error instanceof BarionApiError) {
+    return formatApiError(operationName, error);
   }
 
-  if (errorMessage.includes('HTTP 500') || errorMessage.includes('HTTP 502') || errorMessage.includes('HTTP 503')) {
-    return formatServerError(operationName, errorMessage);
+  // Errors raised before anything was sent to Barion (missing parameters, unknown profile, ...)
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return `❌ ${operationName} failed: ${errorMessage}\n\nTroubleshooting:\n- Verify all required parameters are provided\n- Check that values are in correct format\n- Ensure sufficient balance/permissions for this operation`;
+}
+
+/**
+ * Pick the guidance for a failed Barion request: known error codes first,
+ * then the kind of failure and the HTTP status.
+ */
+function formatApiError(operationName: string, error: BarionApiError): string {
+  const code = error.errorCodes.find((errorCode) => errorCode in ERROR_CODE_GUIDANCE);
+  if (code === 'AuthenticationFailed') {
+    return formatAuthenticationError(operationName, error);
+  }
+  if (code) {
+    return formatErrorCodeGuidance(operationName, error, ERROR_CODE_GUIDANCE[code]);
   }
 
-  // Check for Barion-specific error codes in the message
-  if (errorMessage.includes('Barion API Error:')) {
-    return parseBarionApiError(operationName, errorMessage);
+  if (error.kind === 'network' || error.kind === 'timeout') {
+    return formatNetworkError(operationName, error);
+  }
+  if (error.status === 401 || error.status === 403) {
+    return formatAuthenticationError(operationName, error);
+  }
+  if (error.status === 400) {
+    return formatValidationError(operationName, error);
   }
+  if (error.status === 404) {
+    return formatNotFoundError(operationName, error);
+  }
+  if (error.transient) {
+    return formatServerError(operationName, error);
+  }
+  return formatErrorCodeGuidance(operationName, error, '\nBarion rejected the request; the error details below describe why.');
+}
 
-  // Network/connectivity errors
-  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('ENOTFOUND') || errorMessage.includes('fetch failed')) {
-    return formatNetworkError(operationName, errorMessage);
+// Where the failed request went, and what Barion said about it
+function describeRequest(error: BarionApiError): string {
+  const lines = [`**Endpoint:** ${error.endpoint} (${error.environment} environment${error.kind === 'http' ? `, HTTP ${error.status}` : ''})`];
+  if (error.errors.length > 0) {
+    lines.push('', '**Barion reported:**');
+    for (const item of error.errors) {
+      lines.push(`- ${item.ErrorCode || 'Error'}: ${item.Title || ''}${item.Description ? ` - ${item.Description}` : ''}${item.AuthData ? ` (AuthData: ${item.AuthData})` : ''}`);
+    }
   }
+  return lines.join('\n');
+}
 
-  // Generic error with basic guidance
-  return `❌ ${operationName} failed: ${errorMessage}\n\nTroubleshooting:\n- Verify all required parameters are provided\n- Check that values are in correct format\n- Ensure sufficient balance/permissions for this operation`;
+/**
+ * Format spending policy violations (the request never reached Barion)
+ */
+function formatPolicyViolation(operationName: string, error: PolicyViolationError): string {
+  const details = Object.entries(error.details)
+    .filter(([, value]) => value !== undefined)
+    .map(([label, value]) => `- ${label}: ${value}`);
+
+  return `❌ Blocked by Spending Policy: ${operationName}
+
+**Rule:** ${error.rule}
+**Issue:** ${error.message}
+${details.length > 0 ? `\n**Details:**\n${details.join('\n')}\n` : ''}
+**Note:** The request was not sent to Barion. The limits are set in the local policy file by the server operator.
+
+**Next Steps:**
+1. Reduce the amount or choose an allowed recipient/account
+2. Ask the operator to change the policy if this operation is legitimate`;
+}
+
+/**
+ * Format cart problems found before the payment was sent to Barion
+ */
+function formatCartValidationError(operationName: string, error: CartValidationError): string {
+  return `❌ Invalid Cart: ${operationName}
+
+**Issues:**
+${formatCartIssues(error.validation.issues)}
+
+**Note:** The request was not sent to Barion, which would reject it with a ModelValidationError.
+
+**Next Steps:**
+1. Apply the suggested corrections (amounts use ${error.validation.currency} precision)
+2. Check the corrected cart with validate_payment
+3. Retry the operation`;
+}
+
+/**
+ * Format operations that the current payment state does not allow (the request never reached Barion)
+ */
+function formatPaymentStateError(operationName: string, error: PaymentStateError): string {
+  const { state } = error;
+  const allowed = error.allowed.length > 0
+    ? error.allowed.map((item) => `- ${item.operation}${item.until ? ` (until ${item.until})` : ''}`).join('\n')
+    : '- None of finish_reservation, capture_payment, cancel_authorization or refund_payment';
+  const deadline = error.paymentDeadline
+    ? `\n\nThe customer has not paid yet and can complete the payment until ${error.paymentDeadline}.`
+    : '';
+
+  return `❌ Not Allowed in the Current Payment State: ${operationName}
+
+**Issue:** ${error.message}
+**Payment:** ${state.PaymentId} (${state.PaymentType}, ${state.Status}${state.ReservedUntil ? `, held until ${state.ReservedUntil}` : ''})
+
+**Allowed now:**
+${allowed}${deadline}
+
+**Note:** The request was not sent to Barion, which would reject it with InvalidPaymentState. The check uses the live payment state; the server operator can turn it off with --skip-state-checks.
+
+**Next Steps:**
+1. Check the payment with get_payment_state
+2. Use one of the allowed operations, or wait until the customer has paid`;
 }
 
 /**
  * Format authentication errors
  */
-function formatAuthenticationError(operationName: string, errorMessage: string): string {
-  const env = errorMessage.includes('test.barion.com') ? 'test' : 'prod';
+function formatAuthenticationError(operationName: string, error: BarionApiError): string {
+  const env = error.environment;
 
   return `❌ Authentication Failed: ${operationName}
 
@@ -73,32 +167,18 @@ function formatAuthenticationError(operationName: string, errorMessage: string):
 2. Ensure you're using ${env} credentials for ${env} API
 3. Try regenerating your API keys if credentials are old
 
-Original error: ${errorMessage}`;
+Original error: ${error.message}`;
 }
 
 /**
  * Format validation errors
  */
-function formatValidationError(operationName: string, errorMessage: string): string {
-  let guidance = '';
-
-  // Specific validation issues
-  if (errorMessage.toLowerCase().includes('currency')) {
-    guidance = '\n**Issue:** Invalid currency code.\n**Fix:** Use uppercase currency codes: HUF, EUR, USD, or CZK';
-  } else if (errorMessage.toLowerCase().includes('email')) {
-    guidance = '\n**Issue:** Invalid email address.\n**Fix:** Provide a valid email in format: user@example.com';
-  } else if (errorMessage.toLowerCase().includes('amount') || errorMessage.toLowerCase().includes('total')) {
-    guidance = '\n**Issue:** Invalid amount value.\n**Fix:** Ensure amount is a positive number and does not exceed available balance or reservation amount';
-  } else if (errorMessage.toLowerCase().includes('paymenttype')) {
-    guidance = '\n**Issue:** Invalid payment type.\n**Fix:** Use one of: "Immediate", "Reservation", or "DelayedCapture"';
-  } else if (errorMessage.toLowerCase().includes('payee')) {
-    guidance = '\n**Issue:** Invalid payee email.\n**Fix:** Payee must be a registered Barion merchant account email';
-  }
-
+function formatValidationError(operationName: string, error: BarionApiError): string {
   return `❌ Validation Error: ${operationName}
 
 **Issue:** Request contains invalid or missing data.
-${guidance}
+
+${describeRequest(error)}
 
 **Common Validation Errors:**
 - Currency codes must be uppercase (HUF, EUR, USD, CZK)
@@ -112,20 +192,18 @@ ${guidance}
 2. Check API documentation for required fields
 3. Validate amounts are within acceptable limits
 
-Original error: ${errorMessage}`;
+Original error: ${error.message}`;
 }
 
 /**
  * Format not found errors
  */
-function formatNotFoundError(operationName: string, errorMessage: string): string {
+function formatNotFoundError(operationName: string, error: BarionApiError): string {
   let specific = '';
 
-  if (errorMessage.toLowerCase().includes('payment')) {
+  if (error.endpoint.startsWith('/v2/Payment/')) {
     specific = '\n**Likely Issue:** Payment ID does not exist or has been deleted.\n**Fix:** Use get_payment_state with a valid PaymentId from a recent start_payment call';
-  } else if (errorMessage.toLowerCase().includes('transaction')) {
-    specific = '\n**Likely Issue:** Transaction ID not found.\n**Fix:** Get valid TransactionId from get_payment_state response before attempting refund/capture';
-  } else if (errorMessage.toLowerCase().includes('account')) {
+  } else if (error.endpoint.startsWith('/v2/Transfer/') || error.endpoint.startsWith('/v3/withdraw/')) {
     specific = '\n**Likely Issue:** Account ID not found.\n**Fix:** Use get_wallet_accounts to retrieve valid Account IDs';
   }
 
@@ -134,6 +212,8 @@ function formatNotFoundError(operationName: string, errorMessage: string): strin
 **Issue:** The requested resource does not exist.
 ${specific}
 
+${describeRequest(error)}
+
 **Common Causes:**
 - Using an incorrect or expired ID
 - Resource was already deleted or cancelled
@@ -146,71 +226,75 @@ ${specific}
 3. For payment operations: Use get_payment_state to verify payment exists
 4. For wallet operations: Use get_wallet_accounts to get valid account IDs
 
-Original error: ${errorMessage}`;
+Original error: ${error.message}`;
 }
 
 /**
  * Format server errors
  */
-function formatServerError(operationName: string, errorMessage: string): string {
+function formatServerError(operationName: string, error: BarionApiError): string {
   return `❌ Server Error: ${operationName}
 
 **Issue:** Barion API server encountered an error.
 
+${describeRequest(error)}
+
 **This is typically a temporary issue on Barion's side.**
 
 **What to do:**
-1. Wait 30-60 seconds and retry the operation
-2. Check Barion status page: https://status.barion.com (if available)
-3. If error persists for >5 minutes, contact Barion support
+1. The server already retried this request automatically (see the Retries section, if shown)
+2. Wait 30-60 seconds and retry the operation
+3. Check Barion status page: https://status.barion.com (if available)
+4. If error persists for >5 minutes, contact Barion support
 
-**Note:** Your request may or may not have been processed. Before retrying:
+**Note:** Payments and transfers are only resent automatically when Barion confirms the earlier attempt did not go through. If they were not retried, your request may or may not have been processed. Before retrying:
 - For payment operations: Check get_payment_state to see if payment was created
 - For financial operations: Check get_wallet_statement to see if transaction was recorded
 - Avoid duplicate submissions that could result in double-charging
 
-Original error: ${errorMessage}`;
+Original error: ${error.message}`;
 }
 
 /**
  * Format network/connectivity errors
  */
-function formatNetworkError(operationName: string, errorMessage: string): string {
+function formatNetworkError(operationName: string, error: BarionApiError): string {
+  const baseUrl = error.baseUrl || (error.environment === 'prod' ? 'https://api.barion.com' : 'https://api.test.barion.com');
+  const host = baseUrl.replace(/^https?:\/\//, '').replace(/[/:].*$/, '');
+  const proxyArg = error.proxy ? ` --proxy ${error.proxy}` : '';
+
   return `❌ Network Error: ${operationName}
 
-**Issue:** Cannot connect to Barion API.
+**Issue:** ${error.kind === 'timeout' ? 'Barion API did not answer in time.' : 'Cannot connect to Barion API.'}
+
+${describeRequest(error)}
+**Base URL:** ${baseUrl}
+**Proxy:** ${error.proxy || 'none (direct connection)'}
 
 **Possible Causes:**
 1. No internet connection
-2. Firewall blocking access to Barion API
+2. Firewall blocking access to ${baseUrl}
 3. DNS resolution failure
 4. Barion API is temporarily down
+5. Barion did not answer within the request timeout (--request-timeout)
+${error.proxy ? '6. The proxy is unreachable, rejects the request or needs different credentials\n7. The proxy inspects TLS with a certificate that is not trusted (add its CA with --ca-file)' : '6. A proxy is required on this network but not configured (--proxy)'}
 
 **How to Fix:**
 1. Check your internet connection
-2. Verify firewall allows connections to:
-   - https://api.test.barion.com (test environment)
-   - https://api.barion.com (production environment)
-3. Try accessing Barion website in browser to confirm connectivity
-4. If behind corporate proxy, ensure proxy is configured correctly
+2. Verify the firewall${error.proxy ? ' and proxy allow' : ' allows'} connections to ${baseUrl}
+3. Check --base-url / BARION_BASE_URL if you changed it
+4. If behind corporate proxy, set --proxy (BARION_PROXY) and, for TLS inspection, --ca-file (BARION_CA_FILE)
 
 **Next Steps:**
-1. Test connectivity: curl https://api.test.barion.com
-2. Check DNS: nslookup api.barion.com
+1. Test connectivity: curl${proxyArg} ${baseUrl}
+2. Check DNS: nslookup ${host}
 3. Retry operation once connectivity is restored
 
-Original error: ${errorMessage}`;
+Original error: ${error.message}`;
 }
 
-/**
- * Parse Barion-specific API errors
- */
-function parseBarionApiError(operationName: string, errorMessage: string): string {
-  let guidance = '';
-
-  // Common Barion error codes and their solutions
-  if (errorMessage.includes('ModelValidation') || errorMessage.includes('InvalidInput')) {
-    guidance = `
+// Guidance for Barion error codes, shared by codes that mean the same thing
+const INVALID_INPUT_GUIDANCE = `
 **Barion Validation Error**
 
 The request data failed Barion's validation rules.
@@ -226,8 +310,8 @@ The request data failed Barion's validation rules.
 2. Verify currency codes match across related operations
 3. Ensure amounts don't exceed limits or available funds
 4. Validate email addresses are properly formatted`;
-  } else if (errorMessage.includes('PaymentNotFound') || errorMessage.includes('TransactionNotFound')) {
-    guidance = `
+
+const NOT_FOUND_GUIDANCE = `
 **Resource Not Found**
 
 The payment or transaction ID does not exist.
@@ -237,8 +321,8 @@ The payment or transaction ID does not exist.
 2. Copy the exact PaymentId from the start_payment response
 3. For transactions: Get TransactionId from get_payment_state response
 4. Ensure you're using the correct environment (test vs prod)`;
-  } else if (errorMessage.includes('InvalidPaymentState') || errorMessage.includes('StateError')) {
-    guidance = `
+
+const PAYMENT_STATE_GUIDANCE = `
 **Invalid Payment State**
 
 The operation cannot be performed in the current payment state.
@@ -255,8 +339,8 @@ The operation cannot be performed in the current payment state.
    - DelayedCapture → capture_payment (when Status=Authorized)
    - Succeeded → refund_payment (when Status=Succeeded)
 3. Wait for customer to complete payment before attempting capture/refund`;
-  } else if (errorMessage.includes('InsufficientFunds')) {
-    guidance = `
+
+const INSUFFICIENT_FUNDS_GUIDANCE = `
 **Insufficient Funds**
 
 The wallet does not have enough balance for this operation.
@@ -266,8 +350,8 @@ The wallet does not have enough balance for this operation.
 2. Ensure sufficient balance in the specified currency
 3. Reduce withdrawal/transfer amount
 4. Add funds to wallet before retrying`;
-  } else if (errorMessage.includes('AmountTooHigh') || errorMessage.includes('ExceedsMaximum')) {
-    guidance = `
+
+const AMOUNT_TOO_HIGH_GUIDANCE = `
 **Amount Exceeds Maximum**
 
 The amount is higher than allowed or available.
@@ -277,8 +361,8 @@ The amount is higher than allowed or available.
 2. For withdrawals: Amount cannot exceed available balance
 3. Check Barion's limits for your account type
 4. Reduce the amount and retry`;
-  } else if (errorMessage.includes('Expired') || errorMessage.includes('TimeLimit')) {
-    guidance = `
+
+const EXPIRED_GUIDANCE = `
 **Operation Timeout**
 
 The operation window has expired.
@@ -292,8 +376,8 @@ The operation window has expired.
 1. For reservations: Capture within 7 days or funds auto-release
 2. For expired payments: Create a new payment - old one cannot be recovered
 3. Check get_payment_state to see if payment is still active`;
-  } else if (errorMessage.includes('Unauthorized') || errorMessage.includes('Permission')) {
-    guidance = `
+
+const PERMISSION_GUIDANCE = `
 **Permission Denied**
 
 Your account doesn't have permission for this operation.
@@ -303,14 +387,39 @@ Your account doesn't have permission for this operation.
 2. Check your Barion account permissions
 3. Ensure account is fully verified for this operation type
 4. Contact Barion support to enable required permissions`;
-  }
 
+/**
+ * Barion ErrorCode values with specific guidance. Codes are matched exactly;
+ * AuthenticationFailed is handled by formatAuthenticationError.
+ */
+const ERROR_CODE_GUIDANCE: Record<string, string> = {
+  AuthenticationFailed: '',
+  ModelValidationError: INVALID_INPUT_GUIDANCE,
+  InvalidInput: INVALID_INPUT_GUIDANCE,
+  PaymentNotFound: NOT_FOUND_GUIDANCE,
+  TransactionNotFound: NOT_FOUND_GUIDANCE,
+  InvalidPaymentState: PAYMENT_STATE_GUIDANCE,
+  StateError: PAYMENT_STATE_GUIDANCE,
+  InsufficientFunds: INSUFFICIENT_FUNDS_GUIDANCE,
+  InsufficientBalance: INSUFFICIENT_FUNDS_GUIDANCE,
+  AmountTooHigh: AMOUNT_TOO_HIGH_GUIDANCE,
+  ExceedsMaximum: AMOUNT_TOO_HIGH_GUIDANCE,
+  Expired: EXPIRED_GUIDANCE,
+  TimeLimit: EXPIRED_GUIDANCE,
+  Unauthorized: PERMISSION_GUIDANCE,
+  Permission: PERMISSION_GUIDANCE,
+};
+
+/**
+ * Format errors Barion reported in its Errors array
+ */
+function formatErrorCodeGuidance(operationName: string, error: BarionApiError, guidance: string): string {
   return `❌ ${operationName} Failed - Barion API Error
 
 ${guidance}
 
 **Full Error Details:**
-${errorMessage}
+${describeRequest(error)}
 
 **General Troubleshooting:**
 1. Check payment state with get_payment_state before operations
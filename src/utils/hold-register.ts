@@ -0,0 +1,257 @@
+import { Currency, PaymentStateResponse, PaymentStatus, PaymentType, TransactionDetail } from './barion-client.js';
+import { roundAmount } from './cart-validation.js';
+import { JsonFileWriter, readJsonFile } from './json-file.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Hold Register');
+
+export type HoldPaymentType = Extract<PaymentType, 'Reservation' | 'DelayedCapture'>;
+
+const HOLD_PAYMENT_TYPES: PaymentType[] = ['Reservation', 'DelayedCapture'];
+
+// The customer has not paid yet, so the hold has no deadline yet
+const UNPAID_STATUSES: PaymentStatus[] = ['Prepared', 'Started', 'InProgress', 'Waiting'];
+
+// Funds are held until ReservedUntil
+const HELD_STATUSES: PaymentStatus[] = ['Reserved', 'Authorized'];
+
+// Shop transactions in these states moved money to the shop
+const CAPTURED_STATUSES = ['Succeeded', 'PartiallyRefunded', 'Refunded'];
+
+// Payments whose hold ended are kept this long, for the captured amounts
+const RETENTION_DAYS = 30;
+
+export interface HeldTransaction {
+  transactionId: string;
+  posTransactionId: string;
+  status: string;
+  total: number;
+}
+
+export interface HeldPayment {
+  paymentId: string;
+  paymentRequestId: string;
+  // Profile the payment was made with, used to look it up again
+  profile: string;
+  paymentType: HoldPaymentType;
+  status: PaymentStatus;
+  currency: Currency;
+  // Amount reserved or authorized for the payment
+  held: number;
+  // Deadline of finish_reservation / capture_payment, known once the customer paid
+  reservedUntil?: string;
+  // Until when the customer can pay
+  validUntil?: string;
+  transactions: HeldTransaction[];
+  updatedAt: string;
+}
+
+export interface HoldSummary {
+  paymentId: string;
+  paymentRequestId: string;
+  profile: string;
+  paymentType: HoldPaymentType;
+  status: PaymentStatus;
+  currency: Currency;
+  held: number;
+  captured: number;
+  remaining: number;
+  reservedUntil?: string;
+  hoursLeft?: number;
+  // The deadline passed, but the register has not seen the payment settle
+  overdue: boolean;
+  // Tools that end the hold
+  operations: string[];
+  transactions: HeldTransaction[];
+  updatedAt: string;
+}
+
+export interface ExpiringHolds {
+  checkedAt: string;
+  withinHours: number;
+  holds: HoldSummary[];
+  // Payments the customer has not paid yet; their deadline starts when they pay
+  unpaid: { paymentId: string; profile: string; paymentType: HoldPaymentType; status: PaymentStatus; validUntil?: string }[];
+}
+
+function isHoldPayment(paymentType: PaymentType | undefined): paymentType is HoldPaymentType {
+  return paymentType !== undefined && HOLD_PAYMENT_TYPES.includes(paymentType);
+}
+
+// Not paid yet or still held, i.e. worth looking up again
+export function isOpen(payment: HeldPayment): boolean {
+  return UNPAID_STATUSES.includes(payment.status) || HELD_STATUSES.includes(payment.status);
+}
+
+function heldTransactions(transactions: TransactionDetail[] | undefined): HeldTransaction[] {
+  return (transactions || [])
+    .filter((t) => t.TransactionType !== 'Refund')
+    .map((t) => ({ transactionId: t.TransactionId, posTransactionId: t.POSTransactionId, status: t.Status, total: t.Total }));
+}
+
+/**
+ * Summarize a registered payment: what was captured, what is still held and
+ * how long the hold lasts
+ */
+export function summarizeHold(payment: HeldPayment, now: Date = new Date()): HoldSummary {
+  const isHeld = HELD_STATUSES.includes(payment.status);
+  const captured = roundAmount(
+    payment.transactions.filter((t) => CAPTURED_STATUSES.includes(t.status)).reduce((sum, t) => sum + t.total, 0),
+    payment.currency
+  );
+  const msLeft = payment.reservedUntil ? new Date(payment.reservedUntil).getTime() - now.getTime() : undefined;
+  return {
+    paymentId: payment.paymentId,
+    paymentRequestId: payment.paymentRequestId,
+    profile: payment.profile,
+    paymentType: payment.paymentType,
+    status: payment.status,
+    currency: payment.currency,
+    held: payment.held,
+    captured,
+    remaining: isHeld ? Math.max(roundAmount(payment.held - captured, payment.currency), 0) : 0,
+    reservedUntil: payment.reservedUntil,
+    hoursLeft: msLeft === undefined ? undefined : Math.round((msLeft / 3600000) * 10) / 10,
+    overdue: isHeld && msLeft !== undefined && msLeft <= 0,
+    operations: !isHeld ? [] : payment.paymentType === 'Reservation' ? ['finish_reservation'] : ['capture_payment', 'cancel_authorization'],
+    transactions: payment.transactions,
+    updatedAt: payment.updatedAt,
+  };
+}
+
+/**
+ * Register of Reservation and DelayedCapture payments and their hold
+ * deadlines, so holds do not expire unnoticed.
+ *
+ * Payments are noted when they are started or looked up through the tools.
+ * The register is kept in memory and, when a file path is given, saved as
+ * JSON so it survives restarts.
+ */
+export class HoldRegister {
+  private payments = new Map<string, HeldPayment>();
+  private file?: JsonFileWriter;
+
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFileWriter(filePath) : undefined;
+  }
+
+  static async open(filePath?: string): Promise<HoldRegister> {
+    const register = new HoldRegister(filePath);
+    if (filePath) {
+      const saved = await readJsonFile<{ payments?: HeldPayment[] }>(filePath, 'hold register');
+      for (const payment of saved?.payments || []) {
+        register.payments.set(payment.paymentId, payment);
+      }
+      log.info(`Loaded ${register.payments.size} payments from ${filePath}`);
+    }
+    return register;
+  }
+
+  // Note a payment created with start_payment; other payment types are ignored
+  async recordStarted(
+    payment: { paymentType?: PaymentType; currency: Currency; transactions: { total: number }[] },
+    result: { PaymentId: string; PaymentRequestId: string; Status: PaymentStatus; Transactions?: TransactionDetail[] },
+    profile: string
+  ): Promise<void> {
+    if (!isHoldPayment(payment.paymentType)) {
+      return;
+    }
+    await this.put({
+      paymentId: result.PaymentId,
+      paymentRequestId: result.PaymentRequestId,
+      profile,
+      paymentType: payment.paymentType,
+      status: result.Status,
+      currency: payment.currency,
+      held: roundAmount(payment.transactions.reduce((sum, t) => sum + t.total, 0), payment.currency),
+      transactions: heldTransactions(result.Transactions),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  // Note the payment state fetched from Barion; other payment types are ignored. A known payment keeps its profile
+  async recordState(state: PaymentStateResponse, profile: string): Promise<void> {
+    if (!isHoldPayment(state.PaymentType)) {
+      return;
+    }
+    const known = this.payments.get(state.PaymentId);
+    // Finishing changes the transaction totals to the captured amounts, so the held amount is kept from before
+    const stillOpen = UNPAID_STATUSES.includes(state.Status) || HELD_STATUSES.includes(state.Status);
+    await this.put({
+      paymentId: state.PaymentId,
+      paymentRequestId: state.PaymentRequestId,
+      profile: known?.profile ?? profile,
+      paymentType: state.PaymentType,
+      status: state.Status,
+      currency: state.Currency,
+      held: stillOpen || !known ? state.Total : known.held,
+      reservedUntil: state.ReservedUntil ?? known?.reservedUntil,
+      validUntil: state.ValidUntil,
+      transactions: heldTransactions(state.Transactions),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  // Note the outcome of finish_reservation, capture_payment or cancel_authorization
+  async recordOutcome(result: { PaymentId: string; Status: PaymentStatus; Transactions?: TransactionDetail[] }): Promise<void> {
+    const known = this.payments.get(result.PaymentId);
+    if (!known) {
+      return;
+    }
+    await this.put({
+      ...known,
+      status: result.Status,
+      transactions: result.Transactions ? heldTransactions(result.Transactions) : known.transactions,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  get(paymentId: string): HeldPayment | undefined {
+    return this.payments.get(paymentId);
+  }
+
+  // Payments that are not paid yet or still held
+  openPayments(profile?: string): HeldPayment[] {
+    return [...this.payments.values()].filter((payment) => isOpen(payment) && (!profile || payment.profile === profile));
+  }
+
+  /**
+   * Holds whose deadline is within the given number of hours (or already
+   * passed), soonest first, and the payments that are not paid yet
+   */
+  expiring(withinHours: number, options: { profile?: string; now?: Date } = {}): ExpiringHolds {
+    const now = options.now ?? new Date();
+    const open = this.openPayments(options.profile);
+    const holds = open
+      .filter((payment) => HELD_STATUSES.includes(payment.status))
+      .map((payment) => summarizeHold(payment, now))
+      .filter((hold) => hold.hoursLeft === undefined || hold.hoursLeft <= withinHours)
+      .sort((a, b) => (a.reservedUntil ?? '').localeCompare(b.reservedUntil ?? ''));
+    const unpaid = open
+      .filter((payment) => UNPAID_STATUSES.includes(payment.status))
+      .map(({ paymentId, profile, paymentType, status, validUntil }) => ({ paymentId, profile, paymentType, status, validUntil }));
+    return { checkedAt: now.toISOString(), withinHours, holds, unpaid };
+  }
+
+  private async put(payment: HeldPayment): Promise<void> {
+    this.payments.set(payment.paymentId, payment);
+    try {
+      await this.save();
+    } catch (error: unknown) {
+      // The register is a safety net; a failed write must not fail the payment operation
+      log.warn(`Failed to save hold register ${this.file?.filePath}`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private save(): Promise<void> {
+    // Drop payments whose hold ended long ago so the file does not grow forever
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 86400000).toISOString();
+    for (const [paymentId, payment] of this.payments) {
+      if (payment.updatedAt < cutoff && !isOpen(payment)) {
+        this.payments.delete(paymentId);
+      }
+    }
+
+    return this.file ? this.file.write({ payments: [...this.payments.values()] }) : Promise.resolve();
+  }
+}
@@ -0,0 +1,46 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Read a JSON file written by JsonFileWriter. Returns undefined when the file
+ * does not exist yet.
+ */
+export async function readJsonFile<T>(filePath: string, description: string): Promise<T | undefined> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch (error: unknown) {
+    throw new Error(`Cannot read ${description} ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Replaces a JSON file through a temporary file, so a crash never leaves a
+ * half-written file behind
+ */
+export class JsonFileWriter {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  write(data: unknown): Promise<void> {
+    const filePath = this.filePath;
+    // Writes are queued so concurrent tool calls do not interleave
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+      await rename(tmpPath, filePath);
+    });
+    return this.writing;
+  }
+}
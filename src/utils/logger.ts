@@ -0,0 +1,132 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { redactText, redactValue } from './redaction.js';
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ['pretty', 'json'] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Mask credentials, emails and account numbers (default: true)
+  redact?: boolean;
+}
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  component: string;
+  message: string;
+  data?: unknown;
+}
+
+export type LogSink = (record: LogRecord) => void | Promise<void>;
+
+export interface Logger {
+  error(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  debug(message: string, data?: unknown): void;
+}
+
+const SEVERITY: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+// MCP uses syslog level names
+const MCP_LEVELS = { error: 'error', warn: 'warning', info: 'info', debug: 'debug' } as const;
+
+let settings: Required<LoggerOptions> = { level: 'info', format: 'pretty', redact: true };
+
+// Sinks that receive every record, e.g. the MCP server of a stdio session
+const globalSinks = new Set<LogSink>();
+// Sink of the HTTP session whose request is being handled
+const scopedSink = new AsyncLocalStorage<LogSink>();
+
+export function configureLogger(options: LoggerOptions): void {
+  settings = { ...settings, ...options };
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+export function addLogSink(sink: LogSink): () => void {
+  globalSinks.add(sink);
+  return () => globalSinks.delete(sink);
+}
+
+// Run fn so that records it logs also reach sink (and no other session's sink)
+export function withLogSink<T>(sink: LogSink, fn: () => T): T {
+  return scopedSink.run(sink, fn);
+}
+
+/**
+ * Forward log records to an MCP client as notifications/message.
+ * The client can lower or raise the level with logging/setLevel.
+ */
+export function mcpLogSink(server: McpServer): LogSink {
+  return async (record) => {
+    // Nothing may be sent before the client has initialized
+    if (!server.isConnected() || !server.server.getClientCapabilities()) {
+      return;
+    }
+    await server.server.sendLoggingMessage(
+      {
+        level: MCP_LEVELS[record.level],
+        logger: record.component,
+        data: record.data === undefined ? record.message : { message: record.message, data: record.data },
+      },
+      server.server.transport?.sessionId
+    );
+  };
+}
+
+function formatPretty(record: LogRecord): string {
+  const prefix = record.level === 'info' ? '' : `${record.level.toUpperCase()} `;
+  if (record.data === undefined) {
+    return `${prefix}[${record.component}] ${record.message}`;
+  }
+  const data = typeof record.data === 'string' ? record.data : JSON.stringify(record.data, null, 2);
+  return `${prefix}[${record.component}] ${record.message}: ${data}`;
+}
+
+function emit(level: LogLevel, component: string, message: string, data?: unknown): void {
+  if (SEVERITY[level] > SEVERITY[settings.level]) {
+    return;
+  }
+
+  const record: LogRecord = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    message: settings.redact ? redactText(message) : message,
+    data: settings.redact ? redactValue(data) : data instanceof Error ? data.message : data,
+  };
+
+  // stdout carries the stdio transport, so logs always go to stderr
+  process.stderr.write(`${settings.format === 'json' ? JSON.stringify(record) : formatPretty(record)}\n`);
+
+  const sinks = new Set(globalSinks);
+  const sessionSink = scopedSink.getStore();
+  if (sessionSink) {
+    sinks.add(sessionSink);
+  }
+  for (const sink of sinks) {
+    // A failing sink must not log again, or it could loop forever
+    Promise.resolve()
+      .then(() => sink(record))
+      .catch(() => undefined);
+  }
+}
+
+// Logger for one component; the name is shown as [Component] like the old console prefixes
+export function createLogger(component: string): Logger {
+  return {
+    error: (message, data) => emit('error', component, message, data),
+    warn: (message, data) => emit('warn', component, message, data),
+    info: (message, data) => emit('info', component, message, data),
+    debug: (message, data) => emit('debug', component, message, data),
+  };
+}
@@ -0,0 +1,188 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { PaymentStateResponse, PaymentStatus } from './barion-client.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Payment Events');
+
+// Events kept in memory and in the file by default; older ones are dropped
+export const DEFAULT_MAX_EVENTS = 1000;
+
+export interface PaymentEvent {
+  receivedAt: string;
+  paymentId: string;
+  paymentRequestId?: string;
+  previousStatus?: PaymentStatus;
+  status?: PaymentStatus;
+  changed: boolean;
+  paymentType?: string;
+  total?: number;
+  currency?: string;
+  transactions?: {
+    transactionId: string;
+    posTransactionId: string;
+    status: string;
+    total: number;
+  }[];
+  error?: string;
+}
+
+/**
+ * Log of payment status transitions reported by Barion callbacks.
+ *
+ * Events are kept in memory and, when a file path is given, appended to a
+ * JSONL file so the history survives restarts. Only the last maxEvents are
+ * kept: older events are dropped from memory, and the file is rewritten with
+ * the kept events once it holds twice as many. A failed write is logged and
+ * the event is still kept in memory.
+ */
+export class PaymentEventLog {
+  private events: PaymentEvent[] = [];
+  private filePath?: string;
+  private maxEvents: number;
+  // Lines in the file, including the events already dropped from memory
+  private fileEvents = 0;
+  // Appends and rewrites are serialized so they do not interleave
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private constructor(filePath: string | undefined, maxEvents: number) {
+    this.filePath = filePath;
+    this.maxEvents = maxEvents;
+  }
+
+  static async open(filePath?: string, maxEvents = DEFAULT_MAX_EVENTS): Promise<PaymentEventLog> {
+    if (!Number.isInteger(maxEvents) || maxEvents < 1) {
+      throw new Error(`Invalid event log size ${maxEvents}: must be a positive whole number`);
+    }
+    const eventLog = new PaymentEventLog(filePath, maxEvents);
+    if (filePath) {
+      await eventLog.load(filePath);
+    }
+    return eventLog;
+  }
+
+  private async load(filePath: string): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        this.events.push(JSON.parse(line) as PaymentEvent);
+      } catch {
+        log.warn(`Skipping malformed line in ${filePath}`);
+      }
+    }
+    this.fileEvents = this.events.length;
+    this.dropOldEvents();
+    log.info(`Loaded ${this.events.length} events from ${filePath}`);
+    if (this.fileEvents > this.events.length) {
+      await this.rewrite();
+    }
+  }
+
+  lastStatus(paymentId: string): PaymentStatus | undefined {
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      const event = this.events[i];
+      if (event.paymentId === paymentId && event.status) {
+        return event.status;
+      }
+    }
+    return undefined;
+  }
+
+  // Record the state fetched after a callback as a transition from the last known status
+  async recordState(state: PaymentStateResponse): Promise<PaymentEvent> {
+    const previousStatus = this.lastStatus(state.PaymentId);
+    return this.append({
+      receivedAt: new Date().toISOString(),
+      paymentId: state.PaymentId,
+      paymentRequestId: state.PaymentRequestId,
+      previousStatus,
+      status: state.Status,
+      changed: previousStatus !== state.Status,
+      paymentType: state.PaymentType,
+      total: state.Total,
+      currency: state.Currency,
+      transactions: (state.Transactions || []).map((t) => ({
+        transactionId: t.TransactionId,
+        posTransactionId: t.POSTransactionId,
+        status: t.Status,
+        total: t.Total,
+      })),
+    });
+  }
+
+  // Record a callback whose payment state could not be fetched
+  async recordFailure(paymentId: string, error: string): Promise<PaymentEvent> {
+    return this.append({
+      receivedAt: new Date().toISOString(),
+      paymentId,
+      previousStatus: this.lastStatus(paymentId),
+      changed: false,
+      error,
+    });
+  }
+
+  list(filter: { paymentId?: string; limit?: number } = {}): PaymentEvent[] {
+    const matching = filter.paymentId
+      ? this.events.filter((event) => event.paymentId === filter.paymentId)
+      : this.events;
+    const limit = filter.limit ?? matching.length;
+    // Most recent first
+    return matching.slice(-limit).reverse();
+  }
+
+  private async append(event: PaymentEvent): Promise<PaymentEvent> {
+    this.events.push(event);
+    this.dropOldEvents();
+    const filePath = this.filePath;
+    if (filePath) {
+      const write = this.writes.then(async () => {
+        await mkdir(dirname(filePath), { recursive: true });
+        await appendFile(filePath, `${JSON.stringify(event)}\n`, 'utf8');
+        this.fileEvents++;
+      });
+      this.writes = write.catch(() => undefined);
+      try {
+        await write;
+        if (this.fileEvents >= 2 * this.maxEvents) {
+          await this.rewrite();
+        }
+      } catch (error: unknown) {
+        // The event stays in memory; a failed write must not fail callback processing
+        log.warn(`Failed to write payment event log ${filePath}`, error instanceof Error ? error.message : error);
+      }
+    }
+    return event;
+  }
+
+  private dropOldEvents(): void {
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  // Replace the file with the events kept in memory, through a temporary file
+  private rewrite(): Promise<void> {
+    const filePath = this.filePath!;
+    const write = this.writes.then(async () => {
+      const kept = [...this.events];
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, kept.map((event) => `${JSON.stringify(event)}\n`).join(''), 'utf8');
+      await rename(tmpPath, filePath);
+      this.fileEvents = kept.length;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
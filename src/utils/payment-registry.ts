@@ -0,0 +1,232 @@
+import { Currency, PaymentStateResponse, PaymentStatus, PaymentTransaction, PaymentType, TransactionDetail } from './barion-client.js';
+import { roundAmount } from './cart-validation.js';
+import { JsonFileWriter, readJsonFile } from './json-file.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Payment Registry');
+
+export interface RegisteredTransaction {
+  // Our own ID of the transaction, e.g. an order or invoice number
+  posTransactionId: string;
+  // Barion's ID, known once the payment was looked up
+  transactionId?: string;
+  payee: string;
+  total: number;
+  status?: string;
+}
+
+export interface RegisteredPayment {
+  paymentId: string;
+  paymentRequestId: string;
+  orderNumber?: string;
+  // Profile the payment was made with, used to look it up again
+  profile: string;
+  paymentType: PaymentType;
+  status: PaymentStatus;
+  currency: Currency;
+  total: number;
+  transactions: RegisteredTransaction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentSearch {
+  status?: PaymentStatus[];
+  // ISO 8601; a bare date in "to" includes the whole day
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  currency?: Currency;
+  // Part of a payee email address
+  payee?: string;
+  // Part of a PaymentRequestId, orderNumber or POSTransactionId
+  reference?: string;
+  profile?: string;
+  limit?: number;
+}
+
+export interface PaymentSearchResult {
+  // Number of matching payments, including those beyond the limit
+  matches: number;
+  payments: RegisteredPayment[];
+}
+
+// Bare dates in "to" include the whole day
+function parseBound(value: string | undefined, endOfDay: boolean): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return Date.parse(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value);
+}
+
+function newestFirst(a: RegisteredPayment, b: RegisteredPayment): number {
+  return Date.parse(b.createdAt) - Date.parse(a.createdAt);
+}
+
+function contains(value: string | undefined, part: string): boolean {
+  return value !== undefined && value.toLowerCase().includes(part.toLowerCase());
+}
+
+function registeredTransactions(transactions: TransactionDetail[] | undefined): RegisteredTransaction[] {
+  return (transactions || [])
+    .filter((t) => t.TransactionType !== 'Refund')
+    .map((t) => ({ posTransactionId: t.POSTransactionId, transactionId: t.TransactionId, payee: t.Payee, total: t.Total, status: t.Status }));
+}
+
+/**
+ * Local register of the payments created through this server, so they can be
+ * found again by our own references (PaymentRequestId, order number,
+ * POSTransactionId) instead of the Barion PaymentId.
+ *
+ * The register is kept in memory and, when a file path is given, saved as
+ * JSON so it survives restarts. Payments are never dropped from it.
+ */
+export class PaymentRegistry {
+  private payments = new Map<string, RegisteredPayment>();
+  private file?: JsonFileWriter;
+
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFileWriter(filePath) : undefined;
+  }
+
+  static async open(filePath?: string): Promise<PaymentRegistry> {
+    const registry = new PaymentRegistry(filePath);
+    if (filePath) {
+      const saved = await readJsonFile<{ payments?: RegisteredPayment[] }>(filePath, 'payment registry');
+      for (const payment of saved?.payments || []) {
+        registry.payments.set(payment.paymentId, payment);
+      }
+      log.info(`Loaded ${registry.payments.size} payments from ${filePath}`);
+    }
+    return registry;
+  }
+
+  // Note a payment created with start_payment or charge_recurring
+  async recordStarted(
+    request: { paymentType?: PaymentType; currency: Currency; transactions: PaymentTransaction[]; orderNumber?: string },
+    result: { PaymentId: string; PaymentRequestId: string; Status: PaymentStatus; Transactions?: TransactionDetail[] },
+    profile: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const ids = new Map(registeredTransactions(result.Transactions).map((t) => [t.posTransactionId, t]));
+    await this.put({
+      paymentId: result.PaymentId,
+      paymentRequestId: result.PaymentRequestId,
+      orderNumber: request.orderNumber,
+      profile,
+      paymentType: request.paymentType ?? 'Immediate',
+      status: result.Status,
+      currency: request.currency,
+      total: roundAmount(request.transactions.reduce((sum, t) => sum + t.total, 0), request.currency),
+      transactions: request.transactions.map((t) => ({
+        posTransactionId: t.posTransactionId,
+        transactionId: ids.get(t.posTransactionId)?.transactionId,
+        payee: t.payee,
+        total: t.total,
+        status: ids.get(t.posTransactionId)?.status,
+      })),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  // Note the payment state fetched from Barion
+  async recordState(state: PaymentStateResponse, profile: string): Promise<void> {
+    const known = this.payments.get(state.PaymentId);
+    await this.put({
+      paymentId: state.PaymentId,
+      paymentRequestId: state.PaymentRequestId,
+      orderNumber: state.OrderNumber ?? known?.orderNumber,
+      profile: known?.profile ?? profile,
+      paymentType: state.PaymentType,
+      status: state.Status,
+      currency: state.Currency,
+      total: state.Total,
+      transactions: registeredTransactions(state.Transactions),
+      createdAt: state.CreatedAt ?? known?.createdAt ?? new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  // Note the status returned by finish_reservation, capture_payment or cancel_authorization
+  async recordStatus(paymentId: string, status: PaymentStatus): Promise<void> {
+    const known = this.payments.get(paymentId);
+    if (known) {
+      await this.put({ ...known, status, updatedAt: new Date().toISOString() });
+    }
+  }
+
+  get(paymentId: string): RegisteredPayment | undefined {
+    return this.payments.get(paymentId);
+  }
+
+  // Most recent payment with this PaymentRequestId or POSTransactionId (exact match)
+  findByReference(reference: { paymentRequestId?: string; posTransactionId?: string }): RegisteredPayment | undefined {
+    return [...this.payments.values()]
+      .filter(
+        (payment) =>
+          (reference.paymentRequestId !== undefined && payment.paymentRequestId === reference.paymentRequestId) ||
+          (reference.posTransactionId !== undefined && payment.transactions.some((t) => t.posTransactionId === reference.posTransactionId))
+      )
+      .sort(newestFirst)[0];
+  }
+
+  // Payments matching every given filter, most recent first
+  search(filter: PaymentSearch = {}): PaymentSearchResult {
+    // Compared as instants, so offsets such as +02:00 in the filter or in Barion's CreatedAt do not matter
+    const from = parseBound(filter.from, false);
+    const to = parseBound(filter.to, true);
+    const matching = [...this.payments.values()]
+      .filter((payment) => {
+        if (filter.status && filter.status.length > 0 && !filter.status.includes(payment.status)) {
+          return false;
+        }
+        if (from !== undefined && Date.parse(payment.createdAt) < from) {
+          return false;
+        }
+        if (to !== undefined && Date.parse(payment.createdAt) > to) {
+          return false;
+        }
+        if (filter.minAmount !== undefined && payment.total < filter.minAmount) {
+          return false;
+        }
+        if (filter.maxAmount !== undefined && payment.total > filter.maxAmount) {
+          return false;
+        }
+        if (filter.currency && payment.currency !== filter.currency) {
+          return false;
+        }
+        if (filter.profile && payment.profile !== filter.profile) {
+          return false;
+        }
+        if (filter.payee && !payment.transactions.some((t) => contains(t.payee, filter.payee!))) {
+          return false;
+        }
+        if (
+          filter.reference &&
+          !contains(payment.paymentRequestId, filter.reference) &&
+          !contains(payment.orderNumber, filter.reference) &&
+          !payment.transactions.some((t) => contains(t.posTransactionId, filter.reference!))
+        ) {
+          return false;
+        }
+        return true;
+      })
+      .sort(newestFirst);
+    return { matches: matching.length, payments: matching.slice(0, filter.limit ?? matching.length) };
+  }
+
+  private async put(payment: RegisteredPayment): Promise<void> {
+    this.payments.set(payment.paymentId, payment);
+    if (!this.file) {
+      return;
+    }
+    try {
+      await this.file.write({ payments: [...this.payments.values()] });
+    } catch (error: unknown) {
+      // A failed write must not fail the payment operation
+      log.warn(`Failed to save payment registry ${this.file.filePath}`, error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { PaymentStateResponse, PaymentStatus, PaymentType, TransactionStatus } from './barion-client.js';
+import { REFUNDABLE_STATUSES } from './refunds.js';
+
+// Tools that change an existing payment
+export type PaymentOperation = 'finish_reservation' | 'capture_payment' | 'cancel_authorization' | 'refund_payment';
+
+interface OperationRule {
+  // Payment types the operation applies to (all when not set)
+  paymentTypes?: PaymentType[];
+  paymentStatuses: PaymentStatus[];
+  // Required status of the transactions named in the request
+  transactionStatuses: TransactionStatus[];
+  // The operation is only possible while the hold lasts
+  untilReservedUntil?: boolean;
+}
+
+const OPERATION_RULES: Record<PaymentOperation, OperationRule> = {
+  finish_reservation: { paymentTypes: ['Reservation'], paymentStatuses: ['Reserved'], transactionStatuses: ['Reserved'], untilReservedUntil: true },
+  capture_payment: { paymentTypes: ['DelayedCapture'], paymentStatuses: ['Authorized'], transactionStatuses: ['Authorized'], untilReservedUntil: true },
+  cancel_authorization: { paymentTypes: ['DelayedCapture'], paymentStatuses: ['Authorized'], transactionStatuses: ['Authorized'], untilReservedUntil: true },
+  refund_payment: { paymentStatuses: ['Succeeded', 'PartiallySucceeded'], transactionStatuses: REFUNDABLE_STATUSES },
+};
+
+export const PAYMENT_OPERATIONS = Object.keys(OPERATION_RULES) as PaymentOperation[];
+
+// The customer has not finished paying in these states
+const PENDING_STATUSES: PaymentStatus[] = ['Prepared', 'Started', 'InProgress', 'Waiting'];
+
+export interface AllowedOperation {
+  operation: PaymentOperation;
+  // Deadline of the operation (ReservedUntil of the hold)
+  until?: string;
+}
+
+export class PaymentStateError extends Error {
+  constructor(
+    public operation: PaymentOperation,
+    public state: PaymentStateResponse,
+    public allowed: AllowedOperation[],
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentStateError';
+  }
+
+  // When the customer can still complete the payment, if it is not paid yet
+  get paymentDeadline(): string | undefined {
+    return PENDING_STATUSES.includes(this.state.Status) ? this.state.ValidUntil : undefined;
+  }
+}
+
+function shopTransactions(state: PaymentStateResponse) {
+  return (state.Transactions || []).filter((t) => t.TransactionType !== 'Refund');
+}
+
+// Why the payment as a whole does not allow the operation, if it does not
+function paymentProblem(state: PaymentStateResponse, operation: PaymentOperation, now: Date): string | undefined {
+  const rule = OPERATION_RULES[operation];
+  if (rule.paymentTypes && !rule.paymentTypes.includes(state.PaymentType)) {
+    return `${operation} only applies to ${rule.paymentTypes.join(' or ')} payments; payment ${state.PaymentId} has PaymentType ${state.PaymentType}`;
+  }
+  if (!rule.paymentStatuses.includes(state.Status)) {
+    return `${operation} needs a ${rule.paymentStatuses.join(' or ')} payment; payment ${state.PaymentId} is ${state.Status}`;
+  }
+  if (rule.untilReservedUntil && state.ReservedUntil && new Date(state.ReservedUntil) <= now) {
+    return `The hold of payment ${state.PaymentId} expired at ${state.ReservedUntil}`;
+  }
+  if (operation === 'refund_payment' && !shopTransactions(state).some((t) => rule.transactionStatuses.includes(t.Status))) {
+    return `Every transaction of payment ${state.PaymentId} is already refunded`;
+  }
+  return undefined;
+}
+
+/**
+ * Operations the payment allows now, with their deadlines
+ */
+export function allowedOperations(state: PaymentStateResponse, now: Date = new Date()): AllowedOperation[] {
+  return PAYMENT_OPERATIONS
+    .filter((operation) => !paymentProblem(state, operation, now))
+    .map((operation) => ({ operation, until: OPERATION_RULES[operation].untilReservedUntil ? state.ReservedUntil : undefined }));
+}
+
+/**
+ * Throws PaymentStateError when the payment type and status (and the status
+ * of the named transactions) do not allow the operation, the way Barion
+ * would answer with InvalidPaymentState.
+ */
+export function assertOperationAllowed(
+  state: PaymentStateResponse,
+  operation: PaymentOperation,
+  transactionIds: string[] = [],
+  now: Date = new Date()
+): void {
+  const reject = (message: string): never => {
+    throw new PaymentStateError(operation, state, allowedOperations(state, now), message);
+  };
+
+  const problem = paymentProblem(state, operation, now);
+  if (problem) {
+    reject(problem);
+  }
+
+  const rule = OPERATION_RULES[operation];
+  const transactions = shopTransactions(state);
+  for (const transactionId of transactionIds) {
+    const transaction = transactions.find((t) => t.TransactionId === transactionId);
+    if (!transaction) {
+      reject(`Transaction ${transactionId} is not part of payment ${state.PaymentId}`);
+    } else if (!rule.transactionStatuses.includes(transaction.Status)) {
+      reject(`Transaction ${transactionId} is ${transaction.Status}; ${operation} needs a ${rule.transactionStatuses.join(' or ')} transaction`);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { BarionApiError } from './barion-api-error.js';
+import { BarionClient, PaymentStateResponse, PaymentStatus } from './barion-client.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Payment Watcher');
+
+// Statuses after which Barion no longer changes the payment on its own.
+// Watched payments in these states are only re-checked when a callback arrives.
+const SETTLED_STATUSES: PaymentStatus[] = ['Succeeded', 'Failed', 'Canceled', 'Expired', 'PartiallySucceeded'];
+
+export interface PaymentWatcherOptions {
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+  backoffFactor?: number;
+}
+
+export type PaymentChangeListener = (paymentId: string, state: PaymentStateResponse) => void | Promise<void>;
+
+interface WatchedPayment {
+  signature?: string;
+  intervalMs: number;
+  timer?: NodeJS.Timeout;
+  checking: boolean;
+  // check() was called while a request was in flight, so another one follows it
+  checkAgain: boolean;
+  // States fed through update(); a request that overlaps one of them returns an older state
+  updates: number;
+}
+
+// Barion does not know the payment, so polling it again cannot succeed
+function isNotFound(error: unknown): boolean {
+  return error instanceof BarionApiError && (error.status === 404 || error.hasErrorCode('PaymentNotFound'));
+}
+
+/**
+ * Tracks subscribed payments and reports status changes.
+ *
+ * Each payment is polled with exponential backoff: the interval resets whenever
+ * the state changes and grows up to maxIntervalMs while it stays the same.
+ * Incoming Barion callbacks can trigger an immediate re-check through check()
+ * or feed the state they fetched through update(). Payments Barion does not
+ * know are no longer watched.
+ */
+export class PaymentWatcher {
+  private client: BarionClient;
+  private listener: PaymentChangeListener;
+  private initialIntervalMs: number;
+  private maxIntervalMs: number;
+  private backoffFactor: number;
+  private watched = new Map<string, WatchedPayment>();
+
+  constructor(client: BarionClient, listener: PaymentChangeListener, options: PaymentWatcherOptions = {}) {
+    this.client = client;
+    this.listener = listener;
+    this.initialIntervalMs = options.initialIntervalMs ?? 5000;
+    this.maxIntervalMs = options.maxIntervalMs ?? 5 * 60 * 1000;
+    this.backoffFactor = options.backoffFactor ?? 2;
+  }
+
+  watch(paymentId: string): void {
+    if (this.watched.has(paymentId)) {
+      return;
+    }
+    this.watched.set(paymentId, { intervalMs: this.initialIntervalMs, checking: false, checkAgain: false, updates: 0 });
+    log.debug(`Watching payment ${paymentId}`);
+    void this.check(paymentId);
+  }
+
+  unwatch(paymentId: string): void {
+    const entry = this.watched.get(paymentId);
+    if (!entry) {
+      return;
+    }
+    clearTimeout(entry.timer);
+    this.watched.delete(paymentId);
+    log.debug(`Stopped watching payment ${paymentId}`);
+  }
+
+  isWatching(paymentId: string): boolean {
+    return this.watched.has(paymentId);
+  }
+
+  stop(): void {
+    for (const paymentId of [...this.watched.keys()]) {
+      this.unwatch(paymentId);
+    }
+  }
+
+  // Fetch the current state now and notify the listener if it changed
+  async check(paymentId: string): Promise<void> {
+    const entry = this.watched.get(paymentId);
+    if (!entry) {
+      return;
+    }
+    if (entry.checking) {
+      // The state may have changed after the request in flight was answered
+      entry.checkAgain = true;
+      return;
+    }
+
+    entry.checking = true;
+    try {
+      do {
+        entry.checkAgain = false;
+        await this.poll(paymentId, entry);
+      } while (entry.checkAgain && this.watched.get(paymentId) === entry);
+    } finally {
+      entry.checking = false;
+    }
+  }
+
+  // Feed a state fetched elsewhere (e.g. after a Barion callback) without another API call
+  async update(paymentId: string, state: PaymentStateResponse): Promise<void> {
+    const entry = this.watched.get(paymentId);
+    if (!entry) {
+      return;
+    }
+    entry.updates++;
+    await this.apply(paymentId, entry, state);
+  }
+
+  private async poll(paymentId: string, entry: WatchedPayment): Promise<void> {
+    const updates = entry.updates;
+    try {
+      const state = await this.client.getPaymentState(paymentId);
+      // update() applied a newer state while the request was in flight
+      if (entry.updates !== updates) {
+        return;
+      }
+      await this.apply(paymentId, entry, state);
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        log.warn(`Payment ${paymentId} was not found, so it is no longer watched`);
+        this.unwatch(paymentId);
+        return;
+      }
+      log.warn(`Failed to check payment ${paymentId}`, error instanceof Error ? error.message : error);
+      entry.intervalMs = Math.min(entry.intervalMs * this.backoffFactor, this.maxIntervalMs);
+      this.schedule(paymentId, entry);
+    }
+  }
+
+  private async apply(paymentId: string, entry: WatchedPayment, state: PaymentStateResponse): Promise<void> {
+    const signature = this.signatureOf(state);
+    const changed = entry.signature !== undefined && entry.signature !== signature;
+    entry.signature = signature;
+
+    if (changed) {
+      entry.intervalMs = this.initialIntervalMs;
+      await this.listener(paymentId, state);
+    } else {
+      entry.intervalMs = Math.min(entry.intervalMs * this.backoffFactor, this.maxIntervalMs);
+    }
+
+    if (SETTLED_STATUSES.includes(state.Status)) {
+      clearTimeout(entry.timer);
+      return;
+    }
+    this.schedule(paymentId, entry);
+  }
+
+  private schedule(paymentId: string, entry: WatchedPayment): void {
+    clearTimeout(entry.timer);
+    // The payment may have been unwatched while a request was in flight
+    if (this.watched.get(paymentId) !== entry) {
+      return;
+    }
+    entry.timer = setTimeout(() => void this.check(paymentId), entry.intervalMs);
+    entry.timer.unref();
+  }
+
+  private signatureOf(state: PaymentStateResponse): string {
+    const transactions = (state.Transactions || []).map((t) => `${t.TransactionId}:${t.Status}:${t.Total}`);
+    return [state.Status, ...transactions].join('|');
+  }
+}
@@ -0,0 +1,255 @@
+import { readFile } from 'node:fs/promises';
+import { BarionClient, PaymentDefaults } from './barion-client.js';
+import { WalletClient } from './wallet-client.js';
+import { noteProfileUse } from './audit-log.js';
+import { ConnectionOptions } from './barion-http.js';
+import { RetryOptions } from './retry.js';
+import { paymentDefaultsSchema } from '../tools/payment-schemas.js';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export interface BarionProfile {
+  name: string;
+  poskey?: string;
+  apiKey?: string;
+  environment: 'test' | 'prod';
+  description?: string;
+  paymentDefaults?: PaymentDefaults;
+}
+
+// What list_profiles shows: everything except the secrets
+export interface ProfileSummary {
+  name: string;
+  environment: 'test' | 'prod';
+  description?: string;
+  paymentTools: boolean;
+  walletTools: boolean;
+  defaultForPayments: boolean;
+  defaultForWallet: boolean;
+  paymentDefaults?: PaymentDefaults;
+}
+
+interface ProfilesFile {
+  defaultProfile?: string;
+  profiles: Record<string, Omit<BarionProfile, 'name'>>;
+}
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// Replace ${VAR} references so secrets can stay in the environment instead of the file
+function expandEnv(value: string, profileName: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable: string) => {
+    const resolved = process.env[variable];
+    if (resolved === undefined) {
+      throw new Error(`Profile "${profileName}" references undefined environment variable ${variable}`);
+    }
+    return resolved;
+  });
+}
+
+// Check the paymentDefaults of a profile now rather than when Barion rejects the first payment
+function validatePaymentDefaults(value: unknown, profileName: string): PaymentDefaults | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const result = paymentDefaultsSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'paymentDefaults'}: ${issue.message}`);
+    throw new Error(`Profile "${profileName}" has invalid paymentDefaults: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Named Barion credential sets (shops and wallets) with lazily created clients.
+ *
+ * Tools pick a profile by name; when none is given the default profile is used
+ * if it has the required credential, otherwise the first profile that has it.
+ */
+export class ProfileRegistry {
+  private profiles = new Map<string, BarionProfile>();
+  private defaultProfile?: string;
+  private paymentClients = new Map<string, BarionClient>();
+  private walletClients = new Map<string, WalletClient>();
+  private retry: RetryOptions;
+  private connection: ConnectionOptions;
+
+  constructor(profiles: BarionProfile[], defaultProfile?: string, retry: RetryOptions = {}, connection: ConnectionOptions = {}) {
+    this.retry = retry;
+    this.connection = connection;
+    for (const profile of profiles) {
+      if (!PROFILE_NAME_PATTERN.test(profile.name)) {
+        throw new Error(`Invalid profile name "${profile.name}": use letters, digits, ".", "_" or "-"`);
+      }
+      if (profile.environment !== 'test' && profile.environment !== 'prod') {
+        throw new Error(`Profile "${profile.name}" has invalid environment "${profile.environment}": use "test" or "prod"`);
+      }
+      if (!profile.poskey && !profile.apiKey) {
+        throw new Error(`Profile "${profile.name}" needs a poskey or an apiKey`);
+      }
+      this.profiles.set(profile.name, profile);
+    }
+    if (defaultProfile && !this.profiles.has(defaultProfile)) {
+      throw new Error(`Default profile "${defaultProfile}" is not defined`);
+    }
+    this.defaultProfile = defaultProfile;
+  }
+
+  // Single implicit profile from command line / environment credentials
+  static fromCredentials(credentials: {
+    poskey?: string;
+    apiKey?: string;
+    environment?: 'test' | 'prod';
+    paymentDefaults?: PaymentDefaults;
+    retry?: RetryOptions;
+    connection?: ConnectionOptions;
+  }): ProfileRegistry {
+    if (!credentials.poskey && !credentials.apiKey) {
+      return new ProfileRegistry([], undefined, credentials.retry, credentials.connection);
+    }
+    return new ProfileRegistry(
+      [
+        {
+          name: DEFAULT_PROFILE_NAME,
+          poskey: credentials.poskey,
+          apiKey: credentials.apiKey,
+          environment: credentials.environment || 'test',
+          paymentDefaults: credentials.paymentDefaults,
+        },
+      ],
+      DEFAULT_PROFILE_NAME,
+      credentials.retry,
+      credentials.connection
+    );
+  }
+
+  /**
+   * Load profiles from a JSON file:
+   * { "defaultProfile": "hu-shop", "profiles": { "hu-shop": { "poskey": "${HU_POSKEY}", "environment": "prod" } } }
+   * Server-level payment defaults apply to every profile unless the profile overrides them.
+   */
+  static async load(
+    filePath: string,
+    paymentDefaults: PaymentDefaults = {},
+    retry: RetryOptions = {},
+    connection: ConnectionOptions = {}
+  ): Promise<ProfileRegistry> {
+    // Only JSON is supported, so the server needs no YAML parser
+    if (/\.ya?ml$/i.test(filePath)) {
+      throw new Error(`Profiles file ${filePath} looks like YAML, but only JSON profiles files are supported. Convert it to JSON`);
+    }
+
+    let parsed: ProfilesFile;
+    try {
+      parsed = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error: unknown) {
+      throw new Error(`Cannot read profiles file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!parsed || typeof parsed.profiles !== 'object' || parsed.profiles === null) {
+      throw new Error(`Profiles file ${filePath} must contain a "profiles" object`);
+    }
+
+    const profiles = Object.entries(parsed.profiles).map(([name, profile]) => ({
+      name,
+      description: profile.description,
+      poskey: profile.poskey && expandEnv(profile.poskey, name),
+      apiKey: profile.apiKey && expandEnv(profile.apiKey, name),
+      environment: profile.environment || 'test',
+      paymentDefaults: { ...paymentDefaults, ...validatePaymentDefaults(profile.paymentDefaults, name) },
+    }));
+
+    return new ProfileRegistry(profiles, parsed.defaultProfile, retry, connection);
+  }
+
+  hasPaymentProfiles(): boolean {
+    return this.paymentProfileNames().length > 0;
+  }
+
+  hasWalletProfiles(): boolean {
+    return this.walletProfileNames().length > 0;
+  }
+
+  paymentProfileNames(): string[] {
+    return [...this.profiles.values()].filter((p) => p.poskey).map((p) => p.name);
+  }
+
+  walletProfileNames(): string[] {
+    return [...this.profiles.values()].filter((p) => p.apiKey).map((p) => p.name);
+  }
+
+  // Resolve the profile used for payment operations (POSKey required)
+  paymentProfile(name?: string): BarionProfile & { poskey: string } {
+    const profile = this.resolve(name, 'poskey');
+    return profile as BarionProfile & { poskey: string };
+  }
+
+  // Resolve the profile used for wallet operations (API Key required)
+  walletProfile(name?: string): BarionProfile & { apiKey: string } {
+    const profile = this.resolve(name, 'apiKey');
+    return profile as BarionProfile & { apiKey: string };
+  }
+
+  paymentClient(name?: string): BarionClient {
+    const profile = this.paymentProfile(name);
+    let client = this.paymentClients.get(profile.name);
+    if (!client) {
+      client = new BarionClient(profile.poskey, profile.environment, profile.paymentDefaults, this.retry, this.connection);
+      this.paymentClients.set(profile.name, client);
+    }
+    noteProfileUse(profile.name, profile.environment);
+    return client;
+  }
+
+  walletClient(name?: string): WalletClient {
+    const profile = this.walletProfile(name);
+    let client = this.walletClients.get(profile.name);
+    if (!client) {
+      client = new WalletClient(profile.apiKey, profile.environment, this.retry, this.connection);
+      this.walletClients.set(profile.name, client);
+    }
+    noteProfileUse(profile.name, profile.environment);
+    return client;
+  }
+
+  list(): ProfileSummary[] {
+    const defaultPayment = this.hasPaymentProfiles() ? this.paymentProfile().name : undefined;
+    const defaultWallet = this.hasWalletProfiles() ? this.walletProfile().name : undefined;
+
+    return [...this.profiles.values()].map((profile) => ({
+      name: profile.name,
+      environment: profile.environment,
+      description: profile.description,
+      paymentTools: !!profile.poskey,
+      walletTools: !!profile.apiKey,
+      defaultForPayments: profile.name === defaultPayment,
+      defaultForWallet: profile.name === defaultWallet,
+      paymentDefaults: profile.paymentDefaults,
+    }));
+  }
+
+  private resolve(name: string | undefined, credential: 'poskey' | 'apiKey'): BarionProfile {
+    const kind = credential === 'poskey' ? 'payment (POSKey)' : 'wallet (API Key)';
+
+    if (name) {
+      const profile = this.profiles.get(name);
+      if (!profile) {
+        throw new Error(`Unknown profile "${name}". Configured profiles: ${[...this.profiles.keys()].join(', ') || 'none'}`);
+      }
+      if (!profile[credential]) {
+        throw new Error(`Profile "${name}" has no ${kind} credentials`);
+      }
+      return profile;
+    }
+
+    const preferred = this.defaultProfile ? this.profiles.get(this.defaultProfile) : undefined;
+    if (preferred && preferred[credential]) {
+      return preferred;
+    }
+    const fallback = [...this.profiles.values()].find((profile) => profile[credential]);
+    if (!fallback) {
+      throw new Error(`No profile with ${kind} credentials is configured`);
+    }
+    return fallback;
+  }
+}
@@ -0,0 +1,63 @@
+// Keys whose values are credentials and never leave the process
+const SECRET_KEYS = /^(poskey|x-api-key|apikey|api_key|x-barion-pos-key|x-barion-api-key|authorization|password|secret|token)$/i;
+const ACCOUNT_KEYS = /accountnumber|iban/i;
+// Payer data that is not needed to reproduce an operation: names, phone numbers and 3DS addresses
+const PERSONAL_DATA_KEYS = /^(billingAddress|shippingAddress|payerAccountInformation|cardHolderNameHint|payerPhoneNumber|payerWorkPhoneNumber|payerHomeNumber|accountHolderName|payer)$/i;
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+// Hungarian GIRO account numbers: 8-8 or 8-8-8 digits
+const GIRO_PATTERN = /\b\d{8}-\d{8}(?:-\d{8})?\b/g;
+const POSKEY_QUERY_PATTERN = /([?&]POSKey=)[^&\s"']+/gi;
+
+export const REDACTED = '[REDACTED]';
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEYS.test(key);
+}
+
+export function isPersonalDataKey(key: string): boolean {
+  return PERSONAL_DATA_KEYS.test(key);
+}
+
+export function maskEmail(value: string): string {
+  const [local, domain] = value.split('@');
+  return domain ? `${local.slice(0, 1)}***@${domain}` : '***';
+}
+
+export function maskAccountNumber(value: string): string {
+  const compact = value.replace(/[\s-]+/g, '');
+  return compact.length > 4 ? `****${compact.slice(-4)}` : '****';
+}
+
+// Mask secrets, emails and bank account numbers that appear inside free text
+export function redactText(text: string): string {
+  return text
+    .replace(POSKEY_QUERY_PATTERN, `$1${REDACTED}`)
+    .replace(EMAIL_PATTERN, '$1***@$2')
+    .replace(IBAN_PATTERN, (match) => maskAccountNumber(match))
+    .replace(GIRO_PATTERN, (match) => maskAccountNumber(match));
+}
+
+/**
+ * Deep-copy a value with credentials and payer data removed and emails/account
+ * numbers masked.
+ */
+export function redactValue(value: unknown, key = ''): unknown {
+  if (isSecretKey(key) || isPersonalDataKey(key)) {
+    return value === undefined ? undefined : REDACTED;
+  }
+  if (typeof value === 'string') {
+    return ACCOUNT_KEYS.test(key) ? maskAccountNumber(value) : redactText(value);
+  }
+  if (value instanceof Error) {
+    return redactText(value.message);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, key));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(v, k)]));
+  }
+  return value;
+}
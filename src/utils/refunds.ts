@@ -0,0 +1,101 @@
+import { PaymentStateResponse, TransactionDetail, TransactionStatus } from './barion-client.js';
+import { roundAmount } from './cart-validation.js';
+
+// Refund transactions in these states never moved money
+const VOID_STATUSES: TransactionStatus[] = ['Timeout', 'ShopCanceled', 'UserCanceled', 'Expired'];
+
+// Transactions in these states were paid and not fully refunded; what remains of them can be refunded
+export const REFUNDABLE_STATUSES: TransactionStatus[] = ['Succeeded', 'PartiallyRefunded'];
+
+export interface RefundableTransaction {
+  transactionId: string;
+  posTransactionId: string;
+  status: TransactionStatus;
+  total: number;
+  refunded: number;
+  refundable: number;
+  // Earlier refunds of this transaction
+  refunds: { transactionId: string; amount: number; status: TransactionStatus; time?: string; comment?: string }[];
+  // Why nothing can be refunded
+  reason?: string;
+}
+
+export interface RefundableAmounts {
+  paymentId: string;
+  paymentStatus: string;
+  currency: string;
+  // Sum of what can still be refunded
+  refundable: number;
+  transactions: RefundableTransaction[];
+  reason?: string;
+}
+
+function isRefund(transaction: TransactionDetail): boolean {
+  return transaction.TransactionType === 'Refund';
+}
+
+// Refunds of the transaction that moved money, newest last
+function refundsOf(transactions: TransactionDetail[], transactionId: string): TransactionDetail[] {
+  return transactions.filter((t) => isRefund(t) && t.RelatedId === transactionId && !VOID_STATUSES.includes(t.Status));
+}
+
+/**
+ * Amount already refunded from a transaction, from the refund transactions in the payment state
+ */
+export function refundedAmount(state: PaymentStateResponse, transactionId: string): number {
+  const total = refundsOf(state.Transactions || [], transactionId).reduce((sum, t) => sum + Math.abs(t.Total), 0);
+  return roundAmount(total, state.Currency);
+}
+
+/**
+ * What can still be refunded from each transaction of a payment. Refunds
+ * are the transactions of type Refund whose RelatedId is the refunded
+ * transaction; fee transactions are not listed.
+ */
+export function computeRefundableAmounts(state: PaymentStateResponse): RefundableAmounts {
+  const all = state.Transactions || [];
+  const paymentRefundable = state.Status === 'Succeeded' || state.Status === 'PartiallySucceeded';
+
+  const transactions = all
+    .filter((t) => !isRefund(t) && (t.TransactionType === undefined || t.TransactionType === 'Shop'))
+    .map((t): RefundableTransaction => {
+      const refunded = refundedAmount(state, t.TransactionId);
+      let reason: string | undefined;
+      if (!paymentRefundable) {
+        reason = `Payment is ${state.Status}`;
+      } else if (t.Status === 'Refunded') {
+        reason = 'Fully refunded';
+      } else if (!REFUNDABLE_STATUSES.includes(t.Status)) {
+        reason = `Transaction is ${t.Status}`;
+      }
+      const refundable = reason ? 0 : Math.max(roundAmount(t.Total - refunded, state.Currency), 0);
+      if (!reason && refundable === 0) {
+        reason = 'Fully refunded';
+      }
+      return {
+        transactionId: t.TransactionId,
+        posTransactionId: t.POSTransactionId,
+        status: t.Status,
+        total: t.Total,
+        refunded,
+        refundable,
+        refunds: refundsOf(all, t.TransactionId).map((refund) => ({
+          transactionId: refund.TransactionId,
+          amount: Math.abs(refund.Total),
+          status: refund.Status,
+          time: refund.TransactionTime,
+          comment: refund.Comment,
+        })),
+        reason,
+      };
+    });
+
+  return {
+    paymentId: state.PaymentId,
+    paymentStatus: state.Status,
+    currency: state.Currency,
+    refundable: roundAmount(transactions.reduce((sum, t) => sum + t.refundable, 0), state.Currency),
+    transactions,
+    reason: paymentRefundable ? undefined : `Only succeeded payments can be refunded; this payment is ${state.Status}`,
+  };
+}
@@ -1,3 +1,5 @@
+import { RetryReport } from './retry.js';
+
 // Character limit for responses to prevent context overflow
 export const CHARACTER_LIMIT = 25000;
 
@@ -59,6 +61,9 @@ ${data.Status === 'Failed' ? '✗ Payment failed' : ''}`;
   // Detailed format
   let output = `## Payment Details\n\n`;
   output += `**Payment ID:** ${data.PaymentId || 'N/A'}\n`;
+  if (data.OrderNumber) {
+    output += `**Order Number:** ${data.OrderNumber}\n`;
+  }
   output += `**Status:** ${data.Status || 'Unknown'}\n`;
   output += `**Type:** ${data.PaymentType || 'N/A'}\n`;
   output += `**Currency:** ${data.Currency || 'N/A'}\n`;
@@ -68,6 +73,15 @@ ${data.Status === 'Failed' ? '✗ Payment failed' : ''}`;
   if (data.GatewayUrl) {
     output += `**Gateway URL:** ${data.GatewayUrl}\n`;
   }
+  if (data.RecurrenceId) {
+    output += `**Recurrence ID:** ${data.RecurrenceId}\n`;
+  }
+  if (data.RecurrenceType) {
+    output += `**Recurrence Type:** ${data.RecurrenceType}\n`;
+  }
+  if (data.TraceId) {
+    output += `**Trace ID:** ${data.TraceId}\n`;
+  }
 
   if (data.Transactions && data.Transactions.length > 0) {
     output += `\n### Transactions\n\n`;
@@ -193,9 +207,370 @@ export function formatSuccessResponse(data: any, operationName: string, detail:
   if (data.TransactionId) {
     output += `**Transaction ID:** ${data.TransactionId}\n`;
   }
+  if (data.RecurrenceResult) {
+    output += `**Recurrence Result:** ${data.RecurrenceResult}\n`;
+  }
 
   // Show full JSON for detailed view
   output += `\n### Full Response\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
 
   return output;
 }
+
+/**
+ * Describe a RecurrenceResult value returned by Barion
+ */
+export function describeRecurrenceResult(result: string | undefined): string {
+  switch (result) {
+    case 'Successful':
+      return '✓ Recurring charge succeeded using the stored token';
+    case 'Failed':
+      return '✗ Recurring charge failed - the token exists but the charge was declined (e.g. insufficient funds or expired card)';
+    case 'NotFound':
+      return '✗ Recurrence token not found - start a new payment with initiateRecurrence=true to register one';
+    case 'None':
+      return 'No recurrence was performed for this payment';
+    default:
+      return `Unknown recurrence result: ${result || 'N/A'}`;
+  }
+}
+
+/**
+ * Format recurring (token) charge response
+ */
+export function formatRecurringCharge(data: any, detail: DetailLevel): string {
+  const outcome = describeRecurrenceResult(data.RecurrenceResult);
+
+  if (detail === 'concise') {
+    return `Recurring charge ${data.PaymentId || 'N/A'}
+Status: ${data.Status || 'Unknown'}
+Recurrence Result: ${data.RecurrenceResult || 'N/A'}
+${outcome}`;
+  }
+
+  let output = `## Recurring Charge\n\n`;
+  output += `**Payment ID:** ${data.PaymentId || 'N/A'}\n`;
+  output += `**Payment Request ID:** ${data.PaymentRequestId || 'N/A'}\n`;
+  output += `**Status:** ${data.Status || 'Unknown'}\n`;
+  output += `**Recurrence Result:** ${data.RecurrenceResult || 'N/A'}\n\n`;
+  output += `${outcome}\n`;
+
+  if (data.Transactions && data.Transactions.length > 0) {
+    output += `\n### Transactions\n\n`;
+    data.Transactions.forEach((t: any, idx: number) => {
+      output += `**Transaction ${idx + 1}:**\n`;
+      output += `- ID: ${t.TransactionId || 'N/A'}\n`;
+      output += `- POS Transaction ID: ${t.POSTransactionId || 'N/A'}\n`;
+      output += `- Status: ${t.Status || 'N/A'}\n`;
+      output += `- Amount: ${t.Total || 0} ${t.Currency || ''}\n\n`;
+    });
+  }
+
+  return output;
+}
+
+/**
+ * List cart problems with their suggested corrections, one per line
+ */
+export function formatCartIssues(issues: any[]): string {
+  return issues
+    .map((issue: any) => `- \`${issue.path}\`: ${issue.message}${issue.suggestion !== undefined ? ` → use ${issue.suggestion}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Format the local cart validation report of validate_payment
+ */
+export function formatCartValidation(data: any, detail: DetailLevel): string {
+  const transactions: any[] = data.transactions || [];
+  const issues: any[] = data.issues || [];
+  let output = data.valid
+    ? `✓ Cart is valid: ${transactions.length} transaction${transactions.length === 1 ? '' : 's'}, ${data.total} ${data.currency}`
+    : `❌ Cart has ${issues.length} problem${issues.length === 1 ? '' : 's'}; Barion would reject it\n\n${formatCartIssues(issues)}`;
+
+  if (detail === 'detailed') {
+    output += `\n\n### Transactions\n\n`;
+    for (const t of transactions) {
+      output += `- ${t.posTransactionId}: total ${t.total} ${data.currency}, ${t.items} item${t.items === 1 ? '' : 's'} adding up to ${t.itemsTotal} ${data.currency}\n`;
+    }
+  }
+
+  return `${output}${data.valid ? '' : '\n\nNothing was sent to Barion. Fix the cart and call validate_payment again, or start_payment when it is valid.'}`;
+}
+
+/**
+ * Format what can still be refunded from each transaction of a payment
+ */
+export function formatRefundableAmounts(data: any, detail: DetailLevel): string {
+  const transactions: any[] = data.transactions || [];
+  let output = data.reason
+    ? `Nothing can be refunded: ${data.reason}\n\n`
+    : `${data.refundable} ${data.currency} can still be refunded from payment ${data.paymentId}\n\n`;
+
+  for (const t of transactions) {
+    output += `- ${t.transactionId} (${t.posTransactionId}): ${t.refundable} of ${t.total} ${data.currency} refundable`;
+    output += t.refunded > 0 ? `, ${t.refunded} already refunded` : '';
+    output += t.reason && !data.reason ? ` (${t.reason})` : '';
+    output += '\n';
+    if (detail === 'detailed') {
+      for (const refund of t.refunds || []) {
+        output += `  - Refund ${refund.transactionId}: ${refund.amount} ${data.currency}, ${refund.status}${refund.time ? ` at ${refund.time}` : ''}${refund.comment ? ` (${refund.comment})` : ''}\n`;
+      }
+    }
+  }
+
+  return output.trimEnd();
+}
+
+/**
+ * Format the Reservation and DelayedCapture holds of list_expiring_holds, soonest deadline first
+ */
+export function formatExpiringHolds(data: any, detail: DetailLevel): string {
+  const holds: any[] = data.holds || [];
+  const sections: string[] = [];
+
+  if (holds.length === 0) {
+    sections.push(`No holds expire within ${data.withinHours} hours`);
+  } else {
+    let output = `${holds.length} hold${holds.length === 1 ? '' : 's'} expire${holds.length === 1 ? 's' : ''} within ${data.withinHours} hours:\n`;
+    for (const hold of holds) {
+      const deadline = hold.reservedUntil === undefined
+        ? 'deadline unknown'
+        : hold.overdue
+          ? `⚠ deadline passed at ${hold.reservedUntil}`
+          : `expires in ${hold.hoursLeft} h (${hold.reservedUntil})`;
+      output += `\n- ${hold.paymentId} (${hold.paymentType}, ${hold.status}, profile ${hold.profile}): ${hold.remaining} ${hold.currency} held, ${deadline} → ${hold.operations.join(' or ')}`;
+      if (detail === 'detailed') {
+        output += `\n  - Held ${hold.held} ${hold.currency}, captured ${hold.captured} ${hold.currency}, last checked ${hold.updatedAt}`;
+        for (const t of hold.transactions || []) {
+          output += `\n  - Transaction ${t.transactionId} (${t.posTransactionId}): ${t.total} ${hold.currency}, ${t.status}`;
+        }
+      }
+    }
+    sections.push(output);
+  }
+
+  const ended: any[] = data.ended || [];
+  if (ended.length > 0) {
+    sections.push(`Ended since the last check:\n${ended.map((e) => `- ${e.paymentId}: ${e.previousStatus} → ${e.status}`).join('\n')}`);
+  }
+  const unpaid: any[] = data.unpaid || [];
+  if (unpaid.length > 0) {
+    sections.push(`Not paid yet (the hold starts when the customer pays): ${unpaid.map((p) => `${p.paymentId}${p.validUntil ? ` (until ${p.validUntil})` : ''}`).join(', ')}`);
+  }
+  const errors: any[] = data.refreshErrors || [];
+  if (errors.length > 0) {
+    sections.push(`Could not refresh, showing the last known state:\n${errors.map((e) => `- ${e.paymentId}: ${e.error}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Format the payments found by search_payments, one per line
+ */
+export function formatPaymentSearch(data: any, detail: DetailLevel): string {
+  const payments: any[] = data.payments || [];
+  if (payments.length === 0) {
+    return 'No payments found in the payment registry';
+  }
+
+  let output = `${data.matches} payment${data.matches === 1 ? '' : 's'} found${data.matches > payments.length ? `, showing the ${payments.length} most recent` : ''}:\n`;
+  for (const p of payments) {
+    const references = [p.orderNumber && `order ${p.orderNumber}`, `request ${p.paymentRequestId}`].filter(Boolean).join(', ');
+    output += `\n- ${p.paymentId} (${references}): ${p.total} ${p.currency}, ${p.paymentType}, ${p.status}, created ${p.createdAt}`;
+    if (detail === 'detailed') {
+      output += `\n  - Profile ${p.profile}, last updated ${p.updatedAt}`;
+      for (const t of p.transactions || []) {
+        output += `\n  - Transaction ${t.posTransactionId}${t.transactionId ? ` (${t.transactionId})` : ''}: ${t.total} ${p.currency} to ${t.payee}${t.status ? `, ${t.status}` : ''}`;
+      }
+    }
+  }
+  return `${output}\n\nThe status is the last one seen by this server; use get_payment_state for the live state.`;
+}
+
+/**
+ * Format payment events recorded from Barion callbacks
+ */
+export function formatPaymentEvents(data: any, detail: DetailLevel): string {
+  const events = Array.isArray(data) ? data : [];
+
+  if (events.length === 0) {
+    return detail === 'concise'
+      ? 'No payment events recorded'
+      : '## Payment Events\n\nNo payment events recorded yet. Events appear when Barion calls the built-in callback listener.';
+  }
+
+  if (detail === 'concise') {
+    let output = `${events.length} payment events (most recent first)\n\n`;
+    events.forEach((e: any) => {
+      const transition = e.error
+        ? `error: ${e.error}`
+        : `${e.previousStatus || 'unknown'} → ${e.status || 'unknown'}${e.changed ? '' : ' (unchanged)'}`;
+      output += `${e.receivedAt || 'N/A'}: ${e.paymentId || 'N/A'} ${transition}\n`;
+    });
+    return output;
+  }
+
+  let output = `## Payment Events (${events.length}, most recent first)\n\n`;
+  events.forEach((e: any, idx: number) => {
+    output += `### Event ${idx + 1}\n`;
+    output += `- **Received:** ${e.receivedAt || 'N/A'}\n`;
+    output += `- **Payment ID:** ${e.paymentId || 'N/A'}\n`;
+    if (e.paymentRequestId) {
+      output += `- **Payment Request ID:** ${e.paymentRequestId}\n`;
+    }
+    output += `- **Previous Status:** ${e.previousStatus || 'unknown'}\n`;
+    output += `- **Status:** ${e.status || 'unknown'}\n`;
+    if (e.total !== undefined) {
+      output += `- **Amount:** ${e.total} ${e.currency || ''}\n`;
+    }
+    if (e.error) {
+      output += `- **Error:** ${e.error}\n`;
+    }
+    (e.transactions || []).forEach((t: any) => {
+      output += `  - Transaction ${t.transactionId} (${t.posTransactionId}): ${t.status}, ${t.total}\n`;
+    });
+    output += '\n';
+  });
+
+  return output;
+}
+
+/**
+ * Format audit log entries
+ */
+export function formatAuditEntries(data: any, detail: DetailLevel): string {
+  const entries = Array.isArray(data) ? data : [];
+
+  if (entries.length === 0) {
+    return 'No matching audit log entries';
+  }
+
+  const ids = (e: any) =>
+    Object.entries(e.barionIds || {})
+      .map(([field, values]) => `${field}=${(values as string[]).join(',')}`)
+      .join(' ');
+
+  if (detail === 'concise') {
+    let output = `${entries.length} audit log entries (most recent first)\n\n`;
+    entries.forEach((e: any) => {
+      const profile = e.profile ? ` [${e.profile}/${e.environment}]` : '';
+      output += `#${e.seq} ${e.timestamp}: ${e.tool}${profile} ${e.status} (${e.durationMs} ms)${ids(e) ? ` ${ids(e)}` : ''}\n`;
+    });
+    return output;
+  }
+
+  let output = `## Audit Log (${entries.length} entries, most recent first)\n\n`;
+  entries.forEach((e: any) => {
+    output += `### #${e.seq} ${e.tool}\n`;
+    output += `- **Time:** ${e.timestamp}\n`;
+    output += `- **Status:** ${e.status}\n`;
+    output += `- **Duration:** ${e.durationMs} ms\n`;
+    if (e.profile) {
+      output += `- **Profile:** ${e.profile} (${e.environment})\n`;
+    }
+    if (ids(e)) {
+      output += `- **Barion IDs:** ${ids(e)}\n`;
+    }
+    if (e.error) {
+      output += `- **Error:** ${e.error}\n`;
+    }
+    output += `- **Arguments:** \`${JSON.stringify(e.arguments)}\`\n`;
+    output += `- **Hash:** ${e.hash}\n\n`;
+  });
+  return output;
+}
+
+/**
+ * Format the result of an audit log chain verification
+ */
+export function formatAuditVerification(data: any, detail: DetailLevel): string {
+  if (data.valid) {
+    const output = `✓ Audit log is intact: ${data.entries} entries, hash chain verified`;
+    return detail === 'concise' ? output : `${output}\n\n- **Last Hash:** ${data.lastHash}`;
+  }
+
+  let output = `❌ Audit log verification FAILED at line ${data.brokenAt?.line}${data.brokenAt?.seq ? ` (entry #${data.brokenAt.seq})` : ''}\n\n`;
+  output += `**Reason:** ${data.brokenAt?.reason}\n`;
+  output += `**Entries verified before the break:** ${data.entries}\n`;
+  if (detail === 'detailed') {
+    output += `**Last valid hash:** ${data.lastHash}\n`;
+  }
+  output += '\nThe log file was modified outside the server. Preserve a copy and investigate before trusting entries after this point.';
+  return output;
+}
+
+/**
+ * Format configured profiles (secrets are never part of the data)
+ */
+export function formatProfiles(data: any, detail: DetailLevel): string {
+  const profiles = Array.isArray(data) ? data : [];
+
+  if (profiles.length === 0) {
+    return 'No profiles configured';
+  }
+
+  const capabilities = (p: any) => [p.paymentTools ? 'payments' : '', p.walletTools ? 'wallet' : ''].filter(Boolean).join(' + ');
+  const defaults = (p: any) =>
+    [p.defaultForPayments ? 'default for payments' : '', p.defaultForWallet ? 'default for wallet' : ''].filter(Boolean).join(', ');
+
+  if (detail === 'concise') {
+    let output = `${profiles.length} profiles configured:\n`;
+    profiles.forEach((p: any) => {
+      const flags = defaults(p);
+      output += `- ${p.name} (${p.environment}): ${capabilities(p)}${flags ? ` [${flags}]` : ''}\n`;
+    });
+    return output;
+  }
+
+  let output = `## Profiles (${profiles.length} total)\n\n`;
+  profiles.forEach((p: any) => {
+    output += `### ${p.name}\n`;
+    if (p.description) {
+      output += `- **Description:** ${p.description}\n`;
+    }
+    output += `- **Environment:** ${p.environment}\n`;
+    output += `- **Tools:** ${capabilities(p)}\n`;
+    output += `- **Default:** ${defaults(p) || 'no'}\n`;
+    const paymentDefaults = Object.entries(p.paymentDefaults || {}).filter(([, v]) => v !== undefined);
+    if (p.paymentTools && paymentDefaults.length > 0) {
+      output += `- **Payment Defaults:** ${paymentDefaults.map(([k, v]) => `${k}=${Array.isArray(v) ? v.join(',') : v}`).join(', ')}\n`;
+    }
+    output += '\n';
+  });
+
+  return output;
+}
+
+/**
+ * Format the result of an operation the user did not approve
+ */
+export function formatOperationCancelled(operationName: string, summary: string, reason?: string): string {
+  return `⚠ ${operationName} cancelled - nothing was sent to Barion.
+
+**Reason:** ${reason || 'The operation was not approved.'}
+
+**Requested operation:**
+${summary}
+
+Do not retry this operation unless the user explicitly asks for it again.`;
+}
+
+/**
+ * Format the retries of Barion requests made by a tool call
+ */
+export function formatRetryReports(collected: RetryReport[]): string {
+  const lines = collected.map((report) => {
+    const retries = report.attempts - 1;
+    const outcome = {
+      succeeded: 'succeeded',
+      recovered: 'already applied on Barion, existing result used (not sent again)',
+      failed: 'failed',
+      unsafe: 'not retried, because it may already have been applied',
+    }[report.outcome];
+    const errors = report.errors.length > 0 ? ` Errors: ${report.errors.join('; ')}` : '';
+    return `- ${report.operation}: ${report.attempts} ${report.attempts === 1 ? 'attempt' : 'attempts'} (${retries} ${retries === 1 ? 'retry' : 'retries'}), ${outcome}.${errors}`;
+  });
+  return `**Retries:**\n${lines.join('\n')}`;
+}
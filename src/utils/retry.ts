@@ -0,0 +1,139 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { BarionApiError } from './barion-api-error.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Retry');
+
+export interface RetryOptions {
+  // Per-attempt timeout of a Barion request
+  timeoutMs?: number;
+  // Retries after the first attempt (0 disables retrying)
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  timeoutMs: 30 * 1000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8 * 1000,
+};
+
+// Outcome of checking whether a failed mutating request took effect anyway
+export type VerifyResult<T> = { applied: true; result: T } | { applied: false };
+
+/**
+ * How a failed request may be retried:
+ * - always: read-only requests
+ * - never: mutating requests whose effect cannot be checked
+ * - verify: mutating requests; verify() must prove the first attempt did not
+ *   take effect before the request is sent again. It gets the error of the
+ *   attempt and throws when it cannot tell.
+ */
+export type RetryMode<T> =
+  | { kind: 'always' }
+  | { kind: 'never' }
+  | { kind: 'verify'; verify: (error: BarionApiError) => Promise<VerifyResult<T>> };
+
+export type RetryOutcome = 'succeeded' | 'recovered' | 'failed' | 'unsafe';
+
+export interface RetryReport {
+  operation: string;
+  attempts: number;
+  outcome: RetryOutcome;
+  errors: string[];
+}
+
+const reports = new AsyncLocalStorage<RetryReport[]>();
+
+/**
+ * Run fn and collect the reports of requests it made that needed more than one
+ * attempt or were not retried because that was unsafe.
+ */
+export async function collectRetryReports<T>(fn: () => Promise<T>): Promise<{ result: T; reports: RetryReport[] }> {
+  const collected: RetryReport[] = [];
+  const result = await reports.run(collected, fn);
+  return { result, reports: collected };
+}
+
+function backoffDelay(retry: number, options: Required<RetryOptions>): number {
+  const delay = Math.min(options.baseDelayMs * 2 ** (retry - 1), options.maxDelayMs);
+  // Jitter between half and the full delay so parallel clients do not retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run attempt() and retry transient failures with exponential backoff and jitter.
+ * Only a BarionApiError marked transient is retried.
+ */
+export async function withRetry<T>(
+  operation: string,
+  attempt: () => Promise<T>,
+  mode: RetryMode<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const settings = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const report: RetryReport = { operation, attempts: 0, outcome: 'succeeded', errors: [] };
+  const finish = (outcome: RetryOutcome) => {
+    report.outcome = outcome;
+    if (report.attempts > 1 || outcome !== 'succeeded') {
+      reports.getStore()?.push(report);
+    }
+  };
+
+  for (;;) {
+    report.attempts++;
+    try {
+      const result = await attempt();
+      finish('succeeded');
+      return result;
+    } catch (error: unknown) {
+      if (!(error instanceof BarionApiError) || !error.transient) {
+        if (report.attempts > 1) {
+          finish('failed');
+        }
+        throw error;
+      }
+
+      report.errors.push(error.message);
+      if (report.attempts > settings.maxRetries) {
+        finish('failed');
+        throw error;
+      }
+
+      if (mode.kind === 'never' && !error.notProcessed) {
+        log.warn(`${operation} failed and is not retried because it may have been applied`, error.message);
+        finish('unsafe');
+        throw error;
+      }
+
+      if (mode.kind === 'verify' && !error.notProcessed) {
+        let verification: VerifyResult<T>;
+        try {
+          verification = await mode.verify(error);
+        } catch (verifyError: unknown) {
+          const reason = verifyError instanceof Error ? verifyError.message : String(verifyError);
+          log.warn(`${operation} failed and could not be checked, so it is not retried`, reason);
+          report.errors.push(`check failed: ${reason}`);
+          finish('unsafe');
+          throw error;
+        }
+        if (verification.applied) {
+          log.info(`${operation} was applied despite the error; using the existing result`);
+          finish('recovered');
+          return verification.result;
+        }
+      }
+
+      const delay = backoffDelay(report.attempts, settings);
+      log.warn(`${operation} failed (attempt ${report.attempts}), retrying in ${Math.round(delay)} ms`, error.message);
+      await sleep(delay);
+    }
+  }
+}
+
@@ -0,0 +1,295 @@
+import { readFile } from 'node:fs/promises';
+import { BarionApiError } from './barion-api-error.js';
+import { PaymentStateResponse } from './barion-client.js';
+import { JsonFileWriter, readJsonFile } from './json-file.js';
+import { createLogger } from './logger.js';
+import { refundedAmount } from './refunds.js';
+
+const log = createLogger('Spending Policy');
+
+export type PolicyTool = 'send_money' | 'withdraw_to_bank';
+
+/**
+ * Policy file format (all rules optional):
+ * {
+ *   "maxSingleAmount": { "send_money": { "EUR": 500 }, "withdraw_to_bank": { "EUR": 2000 } },
+ *   "dailyTotal": { "tools": ["send_money", "withdraw_to_bank"], "limits": { "EUR": 1000 } },
+ *   "allowedRecipientEmails": ["partner@example.com"],
+ *   "allowedIbans": ["HU42117730161111101800000000"],
+ *   "maxRefundPercent": 50,
+ *   "stateFile": "./barion-policy-state.json"
+ * }
+ */
+export interface SpendingPolicyConfig {
+  maxSingleAmount?: Partial<Record<PolicyTool, Record<string, number>>>;
+  dailyTotal?: {
+    tools?: PolicyTool[];
+    limits: Record<string, number>;
+  };
+  allowedRecipientEmails?: string[];
+  allowedIbans?: string[];
+  maxRefundPercent?: number;
+  stateFile?: string;
+}
+
+// Running totals per UTC day and currency
+interface PolicyState {
+  days: Record<string, Record<string, number>>;
+}
+
+const DEFAULT_DAILY_TOOLS: PolicyTool[] = ['send_money', 'withdraw_to_bank'];
+const STATE_RETENTION_DAYS = 7;
+
+export class PolicyViolationError extends Error {
+  constructor(
+    public rule: string,
+    message: string,
+    public details: Record<string, string | number | undefined> = {}
+  ) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Amount set aside for a transfer between the policy check and Barion's answer,
+ * so concurrent transfers cannot all pass the daily limit
+ */
+export interface SpendingReservation {
+  // The transfer went through: count it towards the daily total
+  commit(): Promise<void>;
+  // The transfer was cancelled or rejected: give the amount back
+  release(): void;
+  // The transfer failed; it keeps counting when it may have gone through anyway
+  fail(error: unknown): Promise<void>;
+}
+
+function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Local limits on money movement, checked before Barion is called.
+ *
+ * A transfer that passes the check reserves its amount until it completes.
+ * Daily totals are recorded after each successful transfer and persisted to
+ * the state file so they survive restarts.
+ */
+export class SpendingPolicy {
+  private config: SpendingPolicyConfig;
+  private stateFile?: JsonFileWriter;
+  private state: PolicyState = { days: {} };
+  // Amounts of transfers that passed the check and have not completed yet, per UTC day and currency
+  private reserved: PolicyState = { days: {} };
+
+  constructor(config: SpendingPolicyConfig, statePath?: string) {
+    this.config = config;
+    this.stateFile = statePath ? new JsonFileWriter(statePath) : undefined;
+  }
+
+  static async load(filePath: string): Promise<SpendingPolicy> {
+    let config: SpendingPolicyConfig;
+    try {
+      config = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error: unknown) {
+      throw new Error(`Cannot read policy file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (config.maxRefundPercent !== undefined && (config.maxRefundPercent < 0 || config.maxRefundPercent > 100)) {
+      throw new Error(`Invalid maxRefundPercent ${config.maxRefundPercent} in ${filePath}: must be between 0 and 100`);
+    }
+
+    const statePath = config.stateFile || filePath.replace(/(\.json)?$/, '.state.json');
+    const policy = new SpendingPolicy(config, statePath);
+    await policy.loadState();
+    return policy;
+  }
+
+  checkSendMoney(request: { currency: string; amount: number; recipientEmail: string }): SpendingReservation {
+    const allowed = this.config.allowedRecipientEmails;
+    if (allowed && !allowed.some((email) => email.toLowerCase() === request.recipientEmail.toLowerCase())) {
+      throw new PolicyViolationError('allowedRecipientEmails', `Recipient ${request.recipientEmail} is not on the allowlist`, {
+        Recipient: request.recipientEmail,
+      });
+    }
+    return this.checkAmount('send_money', request.currency, request.amount);
+  }
+
+  checkWithdraw(request: { currency: string; amount: number; accountNumber: string }): SpendingReservation {
+    const allowed = this.config.allowedIbans;
+    if (allowed && !allowed.some((iban) => normalizeIban(iban) === normalizeIban(request.accountNumber))) {
+      throw new PolicyViolationError('allowedIbans', `Bank account ${request.accountNumber} is not on the allowlist`, {
+        'Account Number': request.accountNumber,
+      });
+    }
+    return this.checkAmount('withdraw_to_bank', request.currency, request.amount);
+  }
+
+  limitsRefunds(): boolean {
+    return this.config.maxRefundPercent !== undefined;
+  }
+
+  // Check a refund against the original transaction and its earlier refunds in the payment state
+  checkRefundOf(state: PaymentStateResponse, transactionId: string, amount: number): void {
+    const transactions = state.Transactions || [];
+    const original = transactions.find((t) => t.TransactionId === transactionId);
+    if (!original) {
+      throw new PolicyViolationError('maxRefundPercent', `Transaction ${transactionId} is not part of payment ${state.PaymentId}, so the refund limit cannot be checked`, {
+        'Payment ID': state.PaymentId,
+        'Transaction ID': transactionId,
+      });
+    }
+
+    const alreadyRefunded = refundedAmount(state, transactionId);
+    this.checkRefund({ amount, originalTotal: original.Total, alreadyRefunded, currency: original.Currency });
+  }
+
+  // alreadyRefunded is the sum of earlier refunds of the same transaction
+  checkRefund(request: { amount: number; originalTotal: number; alreadyRefunded?: number; currency?: string }): void {
+    const maxPercent = this.config.maxRefundPercent;
+    if (maxPercent === undefined) {
+      return;
+    }
+
+    const limit = (request.originalTotal * maxPercent) / 100;
+    const total = (request.alreadyRefunded || 0) + request.amount;
+    if (total > limit) {
+      throw new PolicyViolationError(
+        'maxRefundPercent',
+        `Refunds of ${total} would exceed ${maxPercent}% of the original transaction (${request.originalTotal})`,
+        {
+          'Requested Refund': request.amount,
+          'Already Refunded': request.alreadyRefunded || 0,
+          'Original Total': request.originalTotal,
+          'Maximum Refundable': limit,
+          Currency: request.currency,
+        }
+      );
+    }
+  }
+
+  // Completed transfers of today
+  dailyTotal(currency: string): number {
+    return this.state.days[today()]?.[currency] || 0;
+  }
+
+  // Transfers of today that passed the check and have not completed yet
+  reservedTotal(currency: string): number {
+    return this.reserved.days[today()]?.[currency] || 0;
+  }
+
+  private checkAmount(tool: PolicyTool, currency: string, amount: number): SpendingReservation {
+    const singleLimits = this.config.maxSingleAmount?.[tool];
+    const maxSingle = singleLimits?.[currency];
+    if (singleLimits && maxSingle === undefined) {
+      throw new PolicyViolationError(`maxSingleAmount.${tool}`, `The single ${tool} limit has no ${currency} entry, so ${currency} is not allowed`, {
+        Currency: currency,
+        'Limited Currencies': Object.keys(singleLimits).join(', '),
+      });
+    }
+    if (maxSingle !== undefined && amount > maxSingle) {
+      throw new PolicyViolationError(`maxSingleAmount.${tool}.${currency}`, `${amount} ${currency} exceeds the single ${tool} limit of ${maxSingle} ${currency}`, {
+        Amount: `${amount} ${currency}`,
+        Limit: `${maxSingle} ${currency}`,
+      });
+    }
+
+    if (!this.countsTowardsDailyTotal(tool)) {
+      return { commit: async () => undefined, release: () => undefined, fail: async () => undefined };
+    }
+    const limits = this.config.dailyTotal!.limits;
+    const dailyLimit = limits[currency];
+    if (dailyLimit === undefined) {
+      throw new PolicyViolationError('dailyTotal', `The daily limit has no ${currency} entry, so ${currency} is not allowed`, {
+        Currency: currency,
+        'Limited Currencies': Object.keys(limits).join(', '),
+      });
+    }
+    // Checked and reserved in one synchronous step, so concurrent calls see each other's amounts
+    const spent = this.dailyTotal(currency);
+    const pending = this.reservedTotal(currency);
+    if (spent + pending + amount > dailyLimit) {
+      throw new PolicyViolationError(`dailyTotal.${currency}`, `${amount} ${currency} would exceed the daily limit of ${dailyLimit} ${currency}`, {
+        Amount: `${amount} ${currency}`,
+        'Spent Today': `${spent} ${currency}`,
+        'Pending Transfers': pending > 0 ? `${pending} ${currency}` : undefined,
+        'Daily Limit': `${dailyLimit} ${currency}`,
+        'Remaining Today': `${Math.max(dailyLimit - spent - pending, 0)} ${currency}`,
+      });
+    }
+    return this.reserve(currency, amount);
+  }
+
+  private reserve(currency: string, amount: number): SpendingReservation {
+    const day = today();
+    const add = (totals: PolicyState, delta: number) => {
+      const byCurrency = (totals.days[day] ||= {});
+      byCurrency[currency] = (byCurrency[currency] || 0) + delta;
+    };
+    add(this.reserved, amount);
+
+    let settled = false;
+    const settle = (): boolean => {
+      if (settled) {
+        return false;
+      }
+      settled = true;
+      add(this.reserved, -amount);
+      return true;
+    };
+    const commit = async () => {
+      if (!settle()) {
+        return;
+      }
+      add(this.state, amount);
+      try {
+        await this.saveState();
+      } catch (error: unknown) {
+        // The money has moved; a failed write must not turn the transfer into an error
+        log.warn(`Failed to save policy state ${this.stateFile?.filePath}`, error instanceof Error ? error.message : error);
+      }
+    };
+    return {
+      commit,
+      release: () => {
+        settle();
+      },
+      fail: async (error: unknown) => {
+        if (error instanceof BarionApiError && error.transient && !error.notProcessed) {
+          await commit();
+        } else {
+          settle();
+        }
+      },
+    };
+  }
+
+  private countsTowardsDailyTotal(tool: PolicyTool): boolean {
+    return !!this.config.dailyTotal && (this.config.dailyTotal.tools || DEFAULT_DAILY_TOOLS).includes(tool);
+  }
+
+  private async loadState(): Promise<void> {
+    if (!this.stateFile) {
+      return;
+    }
+    this.state = (await readJsonFile<PolicyState>(this.stateFile.filePath, 'policy state')) || this.state;
+  }
+
+  private saveState(): Promise<void> {
+    // Drop old days so the state file does not grow forever
+    const cutoff = new Date(Date.now() - STATE_RETENTION_DAYS * 86400000).toISOString().slice(0, 10);
+    for (const totals of [this.state, this.reserved]) {
+      for (const day of Object.keys(totals.days)) {
+        if (day < cutoff) {
+          delete totals.days[day];
+        }
+      }
+    }
+
+    return this.stateFile ? this.stateFile.write(this.state) : Promise.resolve();
+  }
+}
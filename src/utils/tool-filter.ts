@@ -0,0 +1,92 @@
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+export interface ToolFilterOptions {
+  // Only expose tools annotated with readOnlyHint: true
+  readOnly?: boolean;
+  // Glob patterns (* and ?) of tools to expose; empty means all
+  enable?: string[];
+  // Glob patterns of tools to hide, applied after enable
+  disable?: string[];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+// Split a comma-separated list from the command line or an env variable
+export function parseToolPatterns(value?: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Decides which registered tools a server exposes.
+ */
+export class ToolFilter {
+  private readOnly: boolean;
+  private enable: RegExp[];
+  private disable: RegExp[];
+
+  constructor(private options: ToolFilterOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.enable = (options.enable || []).map(globToRegExp);
+    this.disable = (options.disable || []).map(globToRegExp);
+  }
+
+  allows(name: string, tool: RegisteredTool): boolean {
+    if (this.readOnly && tool.annotations?.readOnlyHint !== true) {
+      return false;
+    }
+    if (this.enable.length > 0 && !this.enable.some((pattern) => pattern.test(name))) {
+      return false;
+    }
+    return !this.disable.some((pattern) => pattern.test(name));
+  }
+
+  describe(): string {
+    const parts = [
+      this.readOnly ? 'read-only' : undefined,
+      this.options.enable?.length ? `enable=${this.options.enable.join(',')}` : undefined,
+      this.options.disable?.length ? `disable=${this.options.disable.join(',')}` : undefined,
+    ];
+    return parts.filter(Boolean).join(', ') || 'none';
+  }
+
+  /**
+   * Run configure() against a server, then remove the tools this filter rejects.
+   * Returns the names of the tools that stay exposed.
+   */
+  apply(server: McpServer, configure: (server: McpServer) => void): string[] {
+    const registered = new Map<string, RegisteredTool>();
+
+    // Record every tool registered through this server while configure() runs
+    const recorder = new Proxy(server, {
+      get(target, property, receiver) {
+        if (property === 'tool' || property === 'registerTool') {
+          return (...args: unknown[]) => {
+            const register = Reflect.get(target, property, receiver) as (...args: unknown[]) => RegisteredTool;
+            const tool = Reflect.apply(register, target, args);
+            registered.set(args[0] as string, tool);
+            return tool;
+          };
+        }
+        return Reflect.get(target, property, receiver);
+      },
+    });
+    configure(recorder);
+
+    const exposed: string[] = [];
+    for (const [name, tool] of registered) {
+      if (this.allows(name, tool)) {
+        exposed.push(name);
+      } else {
+        tool.remove();
+      }
+    }
+    return exposed;
+  }
+}
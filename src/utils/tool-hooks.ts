@@ -0,0 +1,26 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+export type ToolCallback = (...args: unknown[]) => Promise<CallToolResult>;
+
+// Registration methods whose last argument is the tool callback
+const REGISTRATION_METHODS: (string | symbol)[] = ['tool', 'registerTool'];
+
+/**
+ * Return a view of server whose tool() and registerTool() registrations get their callback wrapped.
+ * The wrapper receives the tool name and the original callback.
+ */
+export function wrapToolCallbacks(server: McpServer, wrap: (name: string, callback: ToolCallback) => ToolCallback): McpServer {
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (REGISTRATION_METHODS.includes(property)) {
+        return (...args: unknown[]) => {
+          // The callback is always the last argument of every tool() overload and of registerTool()
+          args[args.length - 1] = wrap(args[0] as string, args[args.length - 1] as ToolCallback);
+          return Reflect.apply(Reflect.get(target, property, receiver) as ToolCallback, target, args);
+        };
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
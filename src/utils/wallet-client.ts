@@ -1,3 +1,8 @@
+import { randomBytes } from 'node:crypto';
+import { BarionApiError, BarionEnvironment, BarionError } from './barion-api-error.js';
+import { BarionHttp, ConnectionOptions } from './barion-http.js';
+import { RetryMode, RetryOptions, VerifyResult } from './retry.js';
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -13,11 +18,7 @@ export interface WalletAccount {
 
 export interface AccountsResponse {
   Accounts: WalletAccount[];
-  Errors?: Array<{
-    ErrorCode: string;
-    Title: string;
-    Description: string;
-  }>;
+  Errors?: BarionError[];
 }
 
 export interface Statement {
@@ -31,11 +32,7 @@ export interface Statement {
 
 export interface StatementResponse {
   Transactions: Statement[];
-  Errors?: Array<{
-    ErrorCode: string;
-    Title: string;
-    Description: string;
-  }>;
+  Errors?: BarionError[];
 }
 
 export interface UserHistoryItem {
@@ -68,21 +65,13 @@ export interface UserHistoryItem {
 
 export interface UserHistoryResponse {
   UserHistory: UserHistoryItem[];
-  Errors?: Array<{
-    ErrorCode: string;
-    Title: string;
-    Description: string;
-  }>;
+  Errors?: BarionError[];
 }
 
 export interface WithdrawResponse {
   IsSuccessful: boolean;
   TransactionId?: string;
-  Errors?: Array<{
-    ErrorCode: string;
-    Title: string;
-    Description: string;
-  }>;
+  Errors?: BarionError[];
 }
 
 export interface SendMoneyResponse {
@@ -94,77 +83,82 @@ export interface SendMoneyResponse {
     Currency: Currency;
     Value: number;
   };
-  Errors?: Array<{
-    ErrorCode: string;
-    Title: string;
-    Description: string;
-  }>;
+  Errors?: BarionError[];
+}
+
+// Most items the user history returns per request
+const HISTORY_PAGE_SIZE = 20;
+
+// Unique per transfer request and appended to its comment, so a retry can recognize the transfer in the user history.
+// The recipient and the bank see it; cassettes ignore it when matching requests
+function transferReference(): string {
+  return `ref ${randomBytes(6).toString('hex')}`;
+}
+
+function withReference(comment: string | undefined, reference: string): string {
+  return comment ? `${comment} (${reference})` : reference;
 }
 
 export class WalletClient {
-  private apiKey: string;
-  private baseUrl: string;
+  private http: BarionHttp;
 
-  constructor(apiKey: string, environment: 'test' | 'prod' = 'test') {
-    this.apiKey = apiKey;
-    this.baseUrl =
-      environment === 'prod'
-        ? 'https://api.barion.com'
-        : 'https://api.test.barion.com';
+  constructor(apiKey: string, environment: BarionEnvironment = 'test', retry: RetryOptions = {}, connection: ConnectionOptions = {}) {
+    this.http = new BarionHttp({ environment, name: 'Barion Wallet API', apiKey, retry, ...connection });
   }
 
-  private async request<T>(
+  private request<T>(
     endpoint: string,
     data: Record<string, unknown> = {},
-    method: 'GET' | 'POST' = 'GET'
+    method: 'GET' | 'POST' = 'GET',
+    retry?: RetryMode<T>
   ): Promise<T> {
-    let url = `${this.baseUrl}${endpoint}`;
-    let body: string | undefined;
+    return this.http.request<T>(endpoint, data, method, retry);
+  }
 
-    const headers: Record<string, string> = {
-      'X-API-Key': this.apiKey,
-    };
+  /**
+   * Look in the user history for the outgoing transfer that a failed request may
+   * have created. Only an outgoing item of the same amount and currency that
+   * carries the reference of the request (and, for transfers to an email
+   * address, went to that recipient) counts, whether or not it is still in
+   * progress. Throws when the history does not settle the question, so the
+   * request is not sent again. A transfer Barion accepted a moment ago may not
+   * be in the history yet, so a missing item only proves the transfer was not
+   * made when the connection failed; after a timeout or an error response it
+   * proves nothing.
+   */
+  private async findTransfer(
+    since: Date,
+    transfer: { currency: Currency; amount: number; reference: string; recipientEmail?: string },
+    error: BarionApiError
+  ): Promise<VerifyResult<{ IsSuccessful: boolean; TransactionId?: string }>> {
+    // Allow for clock skew between this machine and Barion
+    const lastRequestTime = new Date(since.getTime() - 5 * 60 * 1000).toISOString();
+    const history = await this.fetchUserHistory({ LastRequestTime: lastRequestTime, Currency: transfer.currency, Limit: HISTORY_PAGE_SIZE });
 
-    if (method === 'POST') {
-      headers['Content-Type'] = 'application/json';
-      body = JSON.stringify(data);
-      console.error(`[Barion Wallet API] POST Request to: ${url}`);
-      console.error(`[Barion Wallet API] Payload:`, JSON.stringify(data, null, 2));
-    } else {
-      // For GET requests, append parameters as query string
-      if (Object.keys(data).length > 0) {
-        const params = new URLSearchParams(
-          Object.entries(data).map(([k, v]) => [k, String(v)])
-        );
-        url += `?${params.toString()}`;
+    const outgoing = history.filter((item) => item.Amount < 0 && item.Currency === transfer.currency && -item.Amount === transfer.amount);
+    const match = outgoing.find((item) => item.Description?.includes(transfer.reference));
+    if (match) {
+      const recipient = match.TargetAccount?.LoginName;
+      if (transfer.recipientEmail && recipient?.toLowerCase() !== transfer.recipientEmail.toLowerCase()) {
+        throw new Error(`History item ${match.Id} carries ${transfer.reference} but was sent to ${recipient || 'an unknown recipient'}, not ${transfer.recipientEmail}`);
       }
-      console.error(`[Barion Wallet API] GET Request to: ${url}`);
+      return { applied: true, result: { IsSuccessful: true, TransactionId: match.Id } };
     }
-
-    const response = await fetch(url, {
-      method,
-      headers,
-      body,
-    });
-
-    console.error(`[Barion Wallet API] Response status: ${response.status} ${response.statusText}`);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Barion Wallet API] Error response body:`, errorText);
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
+    if (outgoing.length > 0) {
+      throw new Error(`${outgoing.length} outgoing ${transfer.amount} ${transfer.currency} item(s) since the first attempt do not carry ${transfer.reference}`);
     }
-
-    const result = await response.json();
-    console.error(`[Barion Wallet API] Response body:`, JSON.stringify(result, null, 2));
-
-    // Check for Barion API errors
-    if (result.Errors && result.Errors.length > 0) {
-      console.error(`[Barion Wallet API] API Errors:`, result.Errors);
-      throw new Error(`Barion Wallet API Error: ${result.Errors.map((e: any) => `${e.ErrorCode || 'Error'}: ${e.Title || e.Description || e}`).join(', ')}`);
+    if (history.length >= HISTORY_PAGE_SIZE) {
+      throw new Error(`More than ${HISTORY_PAGE_SIZE} history items since the first attempt`);
+    }
+    if (error.kind !== 'network') {
+      throw new Error(`No history item carries ${transfer.reference} yet, but Barion may still be processing the transfer`);
     }
+    return { applied: false };
+  }
 
-    return result as T;
+  private async fetchUserHistory(params: Record<string, unknown>): Promise<UserHistoryItem[]> {
+    const result = await this.request<UserHistoryResponse>('/v3/userhistory/gethistory', params, 'GET');
+    return result.UserHistory || [];
   }
 
   // Get wallet accounts - v2 endpoint, requires wallet authentication
@@ -227,7 +221,7 @@ export class WalletClient {
     }
     if (params.limit !== undefined) {
       // API limits to max 20, so enforce that
-      requestParams.Limit = Math.min(params.limit, 20);
+      requestParams.Limit = Math.min(params.limit, HISTORY_PAGE_SIZE);
     }
     if (params.currency) {
       requestParams.Currency = params.currency;
@@ -238,19 +232,9 @@ export class WalletClient {
       throw new Error('At least one parameter (lastRequestTime, lastVisibleItemId, or currency) must be provided');
     }
 
-    // Using v3 UserHistory endpoint
-    const result = await this.request<UserHistoryResponse>(
-      '/v3/userhistory/gethistory',
-      requestParams,
-      'GET'
-    );
-    
-    // Map UserHistory items to Statement format
-    if (!result.UserHistory || result.UserHistory.length === 0) {
-      return [];
-    }
-    
-    return result.UserHistory.map((item) => ({
+    // Using v3 UserHistory endpoint, mapping its items to Statement format
+    const history = await this.fetchUserHistory(requestParams);
+    return history.map((item) => ({
       TransactionId: item.Id,
       Currency: item.Currency,
       Amount: item.Amount,
@@ -269,6 +253,8 @@ export class WalletClient {
     swift: string;
     comment?: string;
   }): Promise<WithdrawResponse> {
+    const startedAt = new Date();
+    const reference = transferReference();
     return this.request<WithdrawResponse>('/v3/withdraw/banktransfer', {
       Currency: params.currency,
       Amount: params.amount,
@@ -277,8 +263,11 @@ export class WalletClient {
         AccountHolderName: params.accountHolderName,
         Swift: params.swift,
       },
-      Comment: params.comment || '',
-    }, 'POST');
+      Comment: withReference(params.comment, reference),
+    }, 'POST', {
+      kind: 'verify',
+      verify: (error) => this.findTransfer(startedAt, { currency: params.currency, amount: params.amount, reference }, error),
+    });
   }
 
   // Send money to email address - v2 Transfer/Email endpoint (POST)
@@ -300,6 +289,8 @@ export class WalletClient {
       accountId = matchingAccount.Id;
     }
 
+    const startedAt = new Date();
+    const reference = transferReference();
     return this.request<SendMoneyResponse>('/v2/Transfer/Email', {
       SourceAccountId: accountId,
       Amount: {
@@ -307,7 +298,10 @@ export class WalletClient {
         Value: params.amount,
       },
       TargetEmail: params.recipientEmail,
-      Comment: params.comment || '',
-    }, 'POST');
+      Comment: withReference(params.comment, reference),
+    }, 'POST', {
+      kind: 'verify',
+      verify: (error) => this.findTransfer(startedAt, { currency: params.currency, amount: params.amount, reference, recipientEmail: params.recipientEmail }, error),
+    });
   }
 }
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog } from '../src/utils/audit-log.js';
+import { Harness, startHarness } from './helpers/harness.js';
+
+describe('AuditLog verification', () => {
+  let dir: string;
+  let file: string;
+  let auditLog: AuditLog;
+  let harness: Harness;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-audit-'));
+    file = join(dir, 'audit.jsonl');
+    auditLog = await AuditLog.open(file);
+    harness = await startHarness({ context: { auditLog } });
+    for (const currency of ['EUR', 'HUF', 'USD']) {
+      await harness.callTool('get_wallet_accounts', { currency });
+    }
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function lines(): string[] {
+    return readFileSync(file, 'utf8').trim().split('\n');
+  }
+
+  function rewrite(updated: string[]) {
+    writeFileSync(file, `${updated.join('\n')}\n`);
+  }
+
+  it('accepts an untouched log', async () => {
+    expect(await auditLog.verify()).toEqual({ valid: true, entries: 3, lastHash: JSON.parse(lines()[2]).hash });
+    const text = (await harness.callTool('verify_audit_log')).text;
+    expect(text).not.toContain('FAILED');
+  });
+
+  it('detects an edited entry', async () => {
+    const updated = lines();
+    updated[1] = JSON.stringify({ ...JSON.parse(updated[1]), status: 'error' });
+    rewrite(updated);
+    expect((await auditLog.verify()).brokenAt).toEqual({ line: 2, seq: 2, reason: expect.stringContaining('entry modified') });
+  });
+
+  it('detects reordered entries', async () => {
+    const [first, second, third] = lines();
+    rewrite([first, third, second]);
+    expect((await auditLog.verify()).brokenAt).toEqual({ line: 2, seq: 3, reason: expect.stringContaining('removed, inserted or reordered') });
+  });
+
+  it('detects entries removed from the end', async () => {
+    rewrite(lines().slice(0, 2));
+    const verification = await auditLog.verify();
+    expect(verification.valid).toBe(false);
+    expect(verification.brokenAt).toEqual({ line: 3, seq: 3, reason: 'the file ends after 2 entries, but 3 were written (1 removed from the end)' });
+
+    const text = (await harness.callTool('verify_audit_log')).text;
+    expect(text).toContain('❌ Audit log verification FAILED at line 3 (entry #3)');
+  });
+
+  it('refuses to open a broken log', async () => {
+    const [first, second, third] = lines();
+    rewrite([first, third, second]);
+    await expect(AuditLog.open(file)).rejects.toThrow(`Audit log ${file} failed verification at line 2`);
+
+    rewrite([first, second]);
+    const reopened = await AuditLog.open(file);
+    expect((await reopened.verify()).entries).toBe(2);
+  });
+});
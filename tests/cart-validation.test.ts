@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { PaymentTransaction } from '../src/utils/barion-client.js';
+import { CartValidationError, assertValidCart, validateCart } from '../src/utils/cart-validation.js';
+
+function transaction(posTransactionId: string, total: number, items: [quantity: number, unitPrice: number, itemTotal: number][]): PaymentTransaction {
+  return {
+    posTransactionId,
+    payee: 'shop@example.com',
+    total,
+    items: items.map(([quantity, unitPrice, itemTotal], index) => ({
+      name: `Item ${index + 1}`,
+      description: 'Item',
+      quantity,
+      unit: 'piece',
+      unitPrice,
+      itemTotal,
+    })),
+  };
+}
+
+describe('validateCart', () => {
+  it('accepts amounts that only differ by floating point error', () => {
+    const result = validateCart({ currency: 'EUR', transactions: [transaction('T-1', 0.3, [[1, 0.1, 0.1], [1, 0.2, 0.2]])] });
+    expect(result).toEqual({
+      valid: true,
+      currency: 'EUR',
+      total: 0.3,
+      transactions: [{ posTransactionId: 'T-1', total: 0.3, itemsTotal: 0.3, items: 2 }],
+      issues: [],
+    });
+  });
+
+  it('accepts fractional quantities', () => {
+    expect(validateCart({ currency: 'HUF', transactions: [transaction('T-1', 1500, [[1.5, 1000, 1500]])] }).valid).toBe(true);
+  });
+
+  it('requires whole HUF amounts', () => {
+    const result = validateCart({ currency: 'HUF', transactions: [transaction('T-1', 1000, [[2, 499.5, 999]])] });
+    expect(result.issues).toEqual([
+      { path: 'transactions[0].items[0].unitPrice', message: 'Unit price of "Item 1" 499.5 has too many decimals; Barion accepts whole HUF amounts', suggestion: 500 },
+      { path: 'transactions[0].total', message: 'Total of T-1 is 1000, but its items add up to 999', suggestion: 999 },
+    ]);
+  });
+
+  it('requires at least one item', () => {
+    expect(validateCart({ currency: 'EUR', transactions: [transaction('T-1', 10, [])] }).issues).toEqual([
+      { path: 'transactions[0].items', message: 'Every transaction needs at least one item' },
+    ]);
+  });
+
+  it('adds up the transactions of the payment', () => {
+    const result = validateCart({ currency: 'EUR', transactions: [transaction('T-1', 10.1, [[1, 10.1, 10.1]]), transaction('T-2', 5.2, [[2, 2.6, 5.2]])] });
+    expect(result.valid).toBe(true);
+    expect(result.total).toBe(15.3);
+  });
+});
+
+describe('assertValidCart', () => {
+  it('throws the validation report', () => {
+    const cart = { currency: 'EUR' as const, transactions: [transaction('T-1', 10, [[1, 10, 10]]), transaction('T-1', 10, [[1, 10, 10]])] };
+    expect(() => assertValidCart(cart)).toThrow(CartValidationError);
+    expect(() => assertValidCart(cart)).toThrow('The cart has 1 problem: posTransactionId "T-1" is also used by transactions[0]; every transaction needs its own');
+  });
+});
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette, openCassette } from '../src/utils/cassette.js';
+import { redactText } from '../src/utils/redaction.js';
+import { Harness, POSKEY, SHOP_EMAIL, parseJson, paymentArgs, startHarness } from './helpers/harness.js';
+
+describe('cassettes', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-cassette-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Tool calls of one session and their results
+  async function session(harness: Harness, completePayment: (paymentId: string) => void) {
+    const results: string[] = [];
+    const started = await harness.callTool('start_payment', { ...paymentArgs(30), format: 'json' });
+    const paymentId = parseJson(started).PaymentId as string;
+    results.push((await harness.callTool('get_payment_state', { paymentId })).text);
+    completePayment(paymentId);
+    const state = await harness.callTool('get_payment_state', { paymentId, format: 'json' });
+    results.push(state.text);
+    const transactionId = parseJson(state).Transactions[0].TransactionId;
+    results.push((await harness.callTool('refund_payment', { paymentId, transactionId, amount: 50 })).text);
+    results.push((await harness.callTool('refund_payment', { paymentId, transactionId, amount: 10, format: 'json' })).text);
+    results.push((await harness.callTool('get_wallet_accounts', { detail: 'detailed' })).text);
+    return { paymentId, results };
+  }
+
+  it('replays a recorded session without calling Barion', async () => {
+    const recording = await startHarness({ simulator: { balances: { EUR: 5 } }, connection: { recordDir: dir } });
+    const recorded = await session(recording, (paymentId) => recording.simulator.completePayment(paymentId));
+    await recording.close();
+
+    const files = readdirSync(dir);
+    expect(files).toEqual([
+      '0001-POST-v2-Payment-Start.json',
+      '0002-GET-v2-Payment-GetPaymentState.json',
+      '0003-GET-v2-Payment-GetPaymentState.json',
+      '0004-GET-v2-Payment-GetPaymentState.json',
+      '0005-POST-v2-Payment-Refund.json',
+      '0006-GET-v2-Payment-GetPaymentState.json',
+      '0007-POST-v2-Payment-Refund.json',
+      '0008-GET-v2-Payment-GetPaymentState.json',
+      '0009-GET-v2-accounts.json',
+    ]);
+    const contents = files.map((name) => readFileSync(join(dir, name), 'utf8')).join('\n');
+    expect(contents).not.toContain(POSKEY);
+    expect(contents).not.toContain(SHOP_EMAIL);
+
+    const replaying = await startHarness({ connection: { replayDir: dir } });
+    await replaying.simulator.stop();
+    const replayed = await session(replaying, () => undefined);
+    await replaying.close();
+
+    // Replayed responses carry the masked emails
+    expect(replayed).toEqual({ ...recorded, results: recorded.results.map(redactText) });
+    expect(recorded.results[2]).toContain('**Amount Exceeds Maximum**');
+  });
+
+  it('reports requests that were not recorded', async () => {
+    const replaying = await startHarness({ connection: { replayDir: dir } });
+    const result = await replaying.callTool('get_payment_state', { paymentId: 'other' });
+    await replaying.close();
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain(`No recorded response for GET /v2/Payment/GetPaymentState with these parameters in ${dir} (5 recorded with other parameters)`);
+  });
+
+  it('matches parameters regardless of key order and serves repeats in order', () => {
+    const cassette = new Cassette('replay', dir);
+    const request = (params: Record<string, unknown>) => ({ method: 'POST' as const, endpoint: '/v2/Payment/Refund', params });
+    const [first, second] = readdirSync(dir)
+      .filter((name) => name.includes('Refund'))
+      .map((name) => JSON.parse(readFileSync(join(dir, name), 'utf8')));
+
+    const reversed = (params: Record<string, unknown>) => Object.fromEntries(Object.entries(params).reverse());
+    expect(cassette.replay(request(reversed(first.request.params)))).toEqual(first.response);
+    expect(cassette.replay(request(second.request.params))).toEqual(second.response);
+    expect(cassette.replay(request(second.request.params))).toEqual(second.response);
+  });
+
+  it('does not write payer data', async () => {
+    const payerDir = mkdtempSync(join(tmpdir(), 'barion-cassette-payer-'));
+    try {
+      const recording = await startHarness({ connection: { recordDir: payerDir } });
+      await recording.callTool('start_payment', {
+        ...paymentArgs(30),
+        payerHint: 'jane.doe@example.org',
+        payerPhoneNumber: '36301234567',
+        billingAddress: { country: 'HU', city: 'Budapest', zip: '1051', street: 'Sas utca 12' },
+        shippingAddress: { country: 'HU', city: 'Budapest', zip: '1051', street: 'Sas utca 12', fullName: 'Jane Doe' },
+      });
+      await recording.close();
+
+      const [file] = readdirSync(payerDir);
+      const { request } = JSON.parse(readFileSync(join(payerDir, file), 'utf8'));
+      expect(request.params).toMatchObject({
+        PayerHint: 'j***@example.org',
+        PayerPhoneNumber: '[REDACTED]',
+        BillingAddress: '[REDACTED]',
+        ShippingAddress: '[REDACTED]',
+      });
+      const contents = readFileSync(join(payerDir, file), 'utf8');
+      expect(contents).not.toContain('Sas utca');
+      expect(contents).not.toContain('Jane Doe');
+    } finally {
+      rmSync(payerDir, { recursive: true, force: true });
+    }
+  });
+
+  it('replays transfers despite the reference in their comment', async () => {
+    const transferDir = mkdtempSync(join(tmpdir(), 'barion-cassette-transfer-'));
+    const transfer = { recipientEmail: 'friend@example.com', currency: 'EUR', amount: 20, comment: 'Dinner' };
+    try {
+      const recording = await startHarness({ simulator: { balances: { EUR: 100 } }, connection: { recordDir: transferDir } });
+      const recorded = await recording.callTool('send_money', transfer);
+      await recording.close();
+
+      const replaying = await startHarness({ connection: { replayDir: transferDir } });
+      await replaying.simulator.stop();
+      const replayed = await replaying.callTool('send_money', transfer);
+      await replaying.close();
+
+      expect(replayed.isError).toBeFalsy();
+      expect(replayed.text).toBe(redactText(recorded.text));
+    } finally {
+      rmSync(transferDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to record and replay at once', () => {
+    expect(() => openCassette({ recordDir: dir, replayDir: dir })).toThrow('Recording and replaying cannot be combined');
+    expect(() => openCassette({ replayDir: join(dir, 'missing') })).toThrow(/^Cannot replay from/);
+  });
+});
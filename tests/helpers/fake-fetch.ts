@@ -0,0 +1,12 @@
+import { jest } from '@jest/globals';
+
+export type FetchHandler = (url: URL, init?: RequestInit) => Response | Promise<Response>;
+
+// Answer Barion requests from the handler instead of the network; restore with mockRestore()
+export function mockFetch(handler: FetchHandler) {
+  return jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => handler(new URL(String(input)), init));
+}
+
+export function jsonResponse(body: unknown, status = 200, statusText = ''): Response {
+  return new Response(JSON.stringify(body), { status, statusText, headers: { 'Content-Type': 'application/json' } });
+}
@@ -0,0 +1,106 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createBarionServer } from '../../src/server.js';
+import { BarionSimulator, SimulatorOptions } from '../../src/simulator/barion-simulator.js';
+import { ToolContext } from '../../src/tools.js';
+import { ConnectionOptions } from '../../src/utils/barion-http.js';
+import { configureLogger } from '../../src/utils/logger.js';
+import { ProfileRegistry } from '../../src/utils/profiles.js';
+import { RetryOptions } from '../../src/utils/retry.js';
+
+export const POSKEY = 'test-poskey';
+export const API_KEY = 'test-api-key';
+export const SHOP_EMAIL = 'shop@example.com';
+
+// Fast retries so transient-error tests do not wait for the real backoff
+export const TEST_RETRY: RetryOptions = { timeoutMs: 2000, maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 };
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+}
+
+export interface Harness {
+  client: Client;
+  simulator: BarionSimulator;
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions {
+  simulator?: SimulatorOptions;
+  context?: ToolContext;
+  retry?: RetryOptions;
+  // Added to the simulator's base URL
+  connection?: ConnectionOptions;
+}
+
+/**
+ * Start the simulator and an MCP server using it, connected to an SDK client
+ * over an in-memory transport
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  configureLogger({ level: 'error' });
+
+  const simulator = new BarionSimulator({
+    poskeys: [POSKEY],
+    apiKeys: [API_KEY],
+    shopEmail: SHOP_EMAIL,
+    sendCallbacks: false,
+    ...options.simulator,
+  });
+  const baseUrl = await simulator.start();
+
+  const profiles = ProfileRegistry.fromCredentials({
+    poskey: POSKEY,
+    apiKey: API_KEY,
+    environment: 'test',
+    retry: options.retry ?? TEST_RETRY,
+    connection: { baseUrl, ...options.connection },
+  });
+  const { server } = createBarionServer(profiles, options.context);
+
+  const client = new Client({ name: 'barion-mcp-tests', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return {
+    client,
+    simulator,
+    async callTool(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as { type: string; text?: string }[];
+      return {
+        text: content.map((item) => item.text ?? '').join('\n'),
+        isError: result.isError === true,
+      };
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await simulator.stop();
+    },
+  };
+}
+
+// One Immediate/Reservation/DelayedCapture transaction with a single item
+export function paymentArgs(total: number, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    paymentType: 'Immediate',
+    currency: 'EUR',
+    transactions: [
+      {
+        posTransactionId: 'T-1',
+        payee: SHOP_EMAIL,
+        total,
+        items: [{ name: 'Widget', description: 'Blue widget', quantity: 1, unit: 'piece', unitPrice: total, itemTotal: total }],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+// Tools answer json output as the pretty-printed response
+export function parseJson<T = any>(result: ToolResult): T {
+  return JSON.parse(result.text) as T;
+}
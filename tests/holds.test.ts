@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BarionClient, PaymentStateResponse } from '../src/utils/barion-client.js';
+import { HoldRegister, summarizeHold } from '../src/utils/hold-register.js';
+import { Harness, POSKEY, TEST_RETRY, parseJson, paymentArgs, startHarness } from './helpers/harness.js';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function reservedState(overrides: Partial<PaymentStateResponse> = {}): PaymentStateResponse {
+  return {
+    PaymentId: 'P-1',
+    PaymentRequestId: 'R-1',
+    POSId: 'pos',
+    POSName: 'Shop',
+    Status: 'Reserved',
+    PaymentType: 'Reservation',
+    GuestCheckout: true,
+    CreatedAt: '2026-01-01T10:00:00Z',
+    ValidUntil: '2026-01-01T10:30:00Z',
+    ReservedUntil: '2026-01-02T10:00:00Z',
+    Total: 40,
+    Currency: 'EUR',
+    Transactions: [
+      {
+        TransactionId: 'T-1',
+        POSTransactionId: 'POS-1',
+        TransactionTime: '2026-01-01T10:05:00Z',
+        Total: 40,
+        Currency: 'EUR',
+        Payee: 'shop@example.com',
+        Status: 'Reserved',
+        TransactionType: 'Shop',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('HoldRegister', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-holds-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists holds expiring within the window, soonest first', async () => {
+    const holds = new HoldRegister();
+    await holds.recordState(reservedState(), 'default');
+    await holds.recordState(reservedState({ PaymentId: 'P-2', PaymentType: 'DelayedCapture', Status: 'Authorized', ReservedUntil: '2026-01-01T11:00:00Z' }), 'cz-shop');
+    await holds.recordState(reservedState({ PaymentId: 'P-3', PaymentType: 'Immediate', Status: 'Succeeded' }), 'default');
+
+    const expiring = holds.expiring(12, { now: NOW });
+    expect(expiring.holds.map((hold) => [hold.paymentId, hold.hoursLeft, hold.overdue, hold.operations])).toEqual([
+      ['P-2', -1, true, ['capture_payment', 'cancel_authorization']],
+    ]);
+    expect(holds.expiring(24, { now: NOW }).holds.map((hold) => hold.paymentId)).toEqual(['P-2', 'P-1']);
+    expect(holds.expiring(24, { now: NOW, profile: 'default' }).holds.map((hold) => hold.paymentId)).toEqual(['P-1']);
+  });
+
+  it('keeps the held amount after a partial finish', async () => {
+    const holds = new HoldRegister();
+    await holds.recordState(reservedState(), 'default');
+    await holds.recordState(
+      reservedState({ Status: 'Succeeded', Total: 25, Transactions: [{ ...reservedState().Transactions[0], Total: 25, Status: 'Succeeded' }] }),
+      'default'
+    );
+    expect(holds.openPayments()).toEqual([]);
+    expect(summarizeHold(holds.get('P-1')!, NOW)).toMatchObject({ held: 40, captured: 25, remaining: 0, operations: [] });
+  });
+
+  it('keeps the profile of a known hold when its state comes from another profile', async () => {
+    const holds = new HoldRegister();
+    await holds.recordState(reservedState(), 'cz-shop');
+    // A callback reports the state under the profile the listener runs with
+    await holds.recordState(reservedState(), 'default');
+    expect(holds.get('P-1')?.profile).toBe('cz-shop');
+    expect(holds.expiring(24, { now: NOW, profile: 'cz-shop' }).holds.map((hold) => hold.paymentId)).toEqual(['P-1']);
+  });
+
+  it('survives restarts when a file is given', async () => {
+    const file = join(dir, 'holds.json');
+    const holds = await HoldRegister.open(file);
+    await holds.recordStarted(
+      { paymentType: 'Reservation', currency: 'EUR', transactions: [{ total: 10 }, { total: 5.5 }] },
+      { PaymentId: 'P-1', PaymentRequestId: 'R-1', Status: 'Prepared' },
+      'default'
+    );
+    await holds.recordStarted({ paymentType: 'Immediate', currency: 'EUR', transactions: [{ total: 10 }] }, { PaymentId: 'P-2', PaymentRequestId: 'R-2', Status: 'Prepared' }, 'default');
+
+    const reopened = await HoldRegister.open(file);
+    expect(reopened.openPayments()).toEqual([expect.objectContaining({ paymentId: 'P-1', status: 'Prepared', held: 15.5 })]);
+    expect(reopened.expiring(48).unpaid).toEqual([{ paymentId: 'P-1', profile: 'default', paymentType: 'Reservation', status: 'Prepared', validUntil: undefined }]);
+  });
+});
+
+describe('list_expiring_holds', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  async function startHold(total: number, paymentType: string) {
+    const started = parseJson(await harness.callTool('start_payment', { ...paymentArgs(total, { paymentType }), format: 'json' }));
+    return started.PaymentId as string;
+  }
+
+  it('refreshes started payments and shows their deadlines', async () => {
+    const reserved = await startHold(40, 'Reservation');
+    const unpaid = await startHold(20, 'DelayedCapture');
+    await startHold(10, 'Immediate');
+    harness.simulator.completePayment(reserved);
+
+    const result = parseJson(await harness.callTool('list_expiring_holds', { format: 'json' }));
+    expect(result.holds).toEqual([
+      expect.objectContaining({ paymentId: reserved, status: 'Reserved', held: 40, captured: 0, remaining: 40, overdue: false, operations: ['finish_reservation'] }),
+    ]);
+    expect(result.holds[0].hoursLeft).toBeLessThanOrEqual(0.5);
+    expect(result.unpaid).toEqual([expect.objectContaining({ paymentId: unpaid, paymentType: 'DelayedCapture', status: 'Prepared' })]);
+    expect(result.ended).toEqual([]);
+
+    const text = (await harness.callTool('list_expiring_holds', { withinHours: 1 })).text;
+    expect(text).toMatch(new RegExp(`^1 hold expires within 1 hours:\\n\\n- ${reserved} \\(Reservation, Reserved, profile default\\): 40 EUR held, expires in 0\\.\\d h`));
+    expect(text).toContain(`Not paid yet (the hold starts when the customer pays): ${unpaid}`);
+  });
+
+  it('registers holds looked up with get_payment_state and forgets finished ones', async () => {
+    // Started outside this server, so only the lookup registers it
+    const client = new BarionClient(POSKEY, 'test', {}, TEST_RETRY, { baseUrl: harness.simulator.url });
+    const started = await client.startPayment(paymentArgs(30, { paymentType: 'DelayedCapture' }) as any);
+    harness.simulator.completePayment(started.PaymentId);
+    expect(parseJson(await harness.callTool('list_expiring_holds', { format: 'json' })).holds).toEqual([]);
+
+    const state = parseJson(await harness.callTool('get_payment_state', { paymentId: started.PaymentId, format: 'json' }));
+    const listed = parseJson(await harness.callTool('list_expiring_holds', { refresh: false, withinHours: 200, format: 'json' }));
+    expect(listed.holds).toEqual([expect.objectContaining({ paymentId: started.PaymentId, status: 'Authorized', remaining: 30 })]);
+
+    await harness.callTool('capture_payment', { paymentId: started.PaymentId, transactions: [{ transactionId: state.Transactions[0].TransactionId, total: 30 }] });
+    expect(parseJson(await harness.callTool('list_expiring_holds', { refresh: false, format: 'json' })).holds).toEqual([]);
+  });
+
+  it('reports holds that ended since they were last seen', async () => {
+    const reserved = await startHold(40, 'Reservation');
+    harness.simulator.completePayment(reserved);
+    await harness.callTool('get_payment_state', { paymentId: reserved });
+    harness.simulator.advanceClock(60 * 60 * 1000);
+
+    const stale = parseJson(await harness.callTool('list_expiring_holds', { refresh: false, format: 'json' }));
+    expect(stale.holds).toEqual([expect.objectContaining({ paymentId: reserved, status: 'Reserved' })]);
+
+    const result = await harness.callTool('list_expiring_holds');
+    expect(result.text).toBe(`No holds expire within 48 hours\n\nEnded since the last check:\n- ${reserved}: Reserved → Succeeded`);
+  });
+
+  it('offers a prompt to review the holds', async () => {
+    const { prompts } = await harness.client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['review_expiring_holds']);
+
+    const prompt = await harness.client.getPrompt({ name: 'review_expiring_holds', arguments: { withinHours: '12' } });
+    const text = (prompt.messages[0].content as { text: string }).text;
+    expect(text).toContain('Call list_expiring_holds with withinHours=12');
+    expect(text).toContain('Only call finish_reservation, capture_payment or cancel_authorization after I have confirmed');
+  });
+});
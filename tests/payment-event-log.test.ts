@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PaymentEventLog } from '../src/utils/payment-event-log.js';
+
+function fileEvents(file: string): string[] {
+  return readFileSync(file, 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line).paymentId);
+}
+
+describe('PaymentEventLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-events-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps only the most recent events', async () => {
+    const eventLog = await PaymentEventLog.open(undefined, 3);
+    for (const paymentId of ['P-1', 'P-2', 'P-3', 'P-4', 'P-5']) {
+      await eventLog.recordFailure(paymentId, 'timeout');
+    }
+    expect(eventLog.list().map((event) => event.paymentId)).toEqual(['P-5', 'P-4', 'P-3']);
+  });
+
+  it('rewrites the file once it holds twice as many events', async () => {
+    const file = join(dir, 'events.jsonl');
+    const eventLog = await PaymentEventLog.open(file, 2);
+    await eventLog.recordFailure('P-1', 'timeout');
+    await eventLog.recordFailure('P-2', 'timeout');
+    await eventLog.recordFailure('P-3', 'timeout');
+    expect(fileEvents(file)).toEqual(['P-1', 'P-2', 'P-3']);
+
+    await eventLog.recordFailure('P-4', 'timeout');
+    expect(fileEvents(file)).toEqual(['P-3', 'P-4']);
+
+    const reopened = await PaymentEventLog.open(file, 1);
+    expect(reopened.list().map((event) => event.paymentId)).toEqual(['P-4']);
+    expect(fileEvents(file)).toEqual(['P-4']);
+  });
+
+  it('keeps events in memory when the file cannot be written', async () => {
+    const file = join(dir, 'events.jsonl');
+    const eventLog = await PaymentEventLog.open(file);
+    // A directory where the events file should be
+    mkdirSync(file);
+    await expect(eventLog.recordFailure('P-1', 'timeout')).resolves.toMatchObject({ paymentId: 'P-1' });
+    expect(eventLog.list().map((event) => event.paymentId)).toEqual(['P-1']);
+  });
+
+  it('rejects an invalid size', async () => {
+    await expect(PaymentEventLog.open(undefined, 0)).rejects.toThrow('Invalid event log size 0');
+  });
+});
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { credentialFilePath } from '../src/http-server.js';
+import { BarionClient } from '../src/utils/barion-client.js';
+import { PaymentRegistry } from '../src/utils/payment-registry.js';
+import { Harness, POSKEY, SHOP_EMAIL, TEST_RETRY, parseJson, paymentArgs, startHarness } from './helpers/harness.js';
+
+function order(orderNumber: string, total: number, payee = 'shop@example.com') {
+  return {
+    paymentType: 'Immediate' as const,
+    currency: 'EUR' as const,
+    orderNumber,
+    transactions: [{ posTransactionId: `${orderNumber}-1`, payee, total, items: [] }],
+  };
+}
+
+// The same instant written with a +02:00 offset
+function inBudapest(time: number): string {
+  return new Date(time + 2 * 3600000).toISOString().replace('Z', '+02:00');
+}
+
+function started(paymentId: string) {
+  return { PaymentId: paymentId, PaymentRequestId: `R-${paymentId}`, Status: 'Prepared' as const };
+}
+
+describe('PaymentRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-payments-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('filters by status, amount, payee and reference', async () => {
+    const payments = new PaymentRegistry();
+    await payments.recordStarted(order('ORD-100', 10), started('P-1'), 'default');
+    await payments.recordStarted(order('ORD-101', 25, 'other@example.com'), started('P-2'), 'default');
+    await payments.recordStarted(order('ORD-200', 40), started('P-3'), 'cz-shop');
+    await payments.recordStatus('P-3', 'Canceled');
+
+    const ids = (filter: Parameters<PaymentRegistry['search']>[0]) => payments.search(filter).payments.map((p) => p.paymentId);
+    expect(ids({}).sort()).toEqual(['P-1', 'P-2', 'P-3']);
+    expect(ids({ status: ['Prepared'] }).sort()).toEqual(['P-1', 'P-2']);
+    expect(ids({ minAmount: 20, maxAmount: 30 })).toEqual(['P-2']);
+    expect(ids({ payee: 'OTHER@' })).toEqual(['P-2']);
+    expect(ids({ reference: 'ord-10' }).sort()).toEqual(['P-1', 'P-2']);
+    expect(ids({ reference: 'ORD-200-1' })).toEqual(['P-3']);
+    expect(ids({ reference: 'R-P-1' })).toEqual(['P-1']);
+    expect(ids({ profile: 'cz-shop' })).toEqual(['P-3']);
+    expect(payments.search({ limit: 1 })).toEqual({ matches: 3, payments: [expect.any(Object)] });
+  });
+
+  it('filters by creation date, a bare "to" date including the whole day', async () => {
+    const payments = new PaymentRegistry();
+    await payments.recordStarted(order('ORD-1', 10), started('P-1'), 'default');
+    const today = new Date().toISOString().slice(0, 10);
+    expect(payments.search({ from: `${today}T00:00:00.000Z`, to: today }).matches).toBe(1);
+    expect(payments.search({ to: '2020-01-01' }).matches).toBe(0);
+  });
+
+  it('compares dates with offsets as instants', async () => {
+    const payments = new PaymentRegistry();
+    await payments.recordStarted(order('ORD-1', 10), started('P-1'), 'default');
+    const hourAgo = Date.now() - 3600000;
+    expect(payments.search({ from: inBudapest(hourAgo) }).matches).toBe(1);
+    expect(payments.search({ to: inBudapest(hourAgo) }).matches).toBe(0);
+    expect(payments.search({ from: inBudapest(hourAgo + 2 * 3600000) }).matches).toBe(0);
+  });
+
+  it('finds a payment by its PaymentRequestId or POSTransactionId', async () => {
+    const payments = new PaymentRegistry();
+    await payments.recordStarted(order('ORD-1', 10), started('P-1'), 'default');
+    expect(payments.findByReference({ paymentRequestId: 'R-P-1' })?.paymentId).toBe('P-1');
+    expect(payments.findByReference({ posTransactionId: 'ORD-1-1' })?.paymentId).toBe('P-1');
+    expect(payments.findByReference({ posTransactionId: 'ORD-1' })).toBeUndefined();
+  });
+
+  it('survives restarts when a file is given', async () => {
+    const file = join(dir, 'payments.json');
+    const payments = await PaymentRegistry.open(file);
+    await payments.recordStarted(order('ORD-1', 10.5), started('P-1'), 'default');
+
+    const reopened = await PaymentRegistry.open(file);
+    expect(reopened.get('P-1')).toMatchObject({
+      paymentRequestId: 'R-P-1',
+      orderNumber: 'ORD-1',
+      profile: 'default',
+      status: 'Prepared',
+      total: 10.5,
+      transactions: [{ posTransactionId: 'ORD-1-1', payee: 'shop@example.com', total: 10.5 }],
+    });
+  });
+
+  it('keeps one file per POSKey and environment over HTTP', () => {
+    const file = credentialFilePath('/data/payments.json', 'poskey-a', 'test');
+    expect(file).toMatch(/^\/data\/payments\.[0-9a-f]{16}\.json$/);
+    expect(credentialFilePath('/data/payments.json', 'poskey-a', 'test')).toBe(file);
+    expect(credentialFilePath('/data/payments.json', 'poskey-b', 'test')).not.toBe(file);
+    expect(credentialFilePath('/data/payments.json', 'poskey-a', 'prod')).not.toBe(file);
+    expect(credentialFilePath('/data/payments', 'poskey-a', 'test')).toMatch(/^\/data\/payments\.[0-9a-f]{16}$/);
+  });
+});
+
+describe('search_payments', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  async function startOrder(orderNumber: string, total: number) {
+    const args = paymentArgs(total, { orderNumber });
+    (args.transactions as any[])[0].posTransactionId = `${orderNumber}-1`;
+    const result = parseJson(await harness.callTool('start_payment', { ...args, format: 'json' }));
+    return { paymentId: result.PaymentId as string, paymentRequestId: result.PaymentRequestId as string };
+  }
+
+  it('finds payments started through the server', async () => {
+    const first = await startOrder('ORD-1', 10);
+    const second = await startOrder('ORD-2', 20);
+    harness.simulator.completePayment(second.paymentId);
+    await harness.callTool('get_payment_state', { paymentId: second.paymentId });
+
+    const result = parseJson(await harness.callTool('search_payments', { status: ['Succeeded'], format: 'json' }));
+    expect(result).toEqual({
+      matches: 1,
+      payments: [
+        expect.objectContaining({
+          paymentId: second.paymentId,
+          paymentRequestId: second.paymentRequestId,
+          orderNumber: 'ORD-2',
+          status: 'Succeeded',
+          total: 20,
+          transactions: [expect.objectContaining({ posTransactionId: 'ORD-2-1', payee: SHOP_EMAIL, status: 'Succeeded' })],
+        }),
+      ],
+    });
+
+    const text = (await harness.callTool('search_payments', { reference: 'ord-1' })).text;
+    expect(text).toMatch(new RegExp(`^1 payment found:\\n\\n- ${first.paymentId} \\(order ORD-1, request ${first.paymentRequestId}\\): 10 EUR, Immediate, Prepared, created `));
+  });
+
+  it('notes the refunded transactions', async () => {
+    const { paymentId } = await startOrder('ORD-9', 40);
+    harness.simulator.completePayment(paymentId);
+    const state = parseJson(await harness.callTool('get_payment_state', { paymentId, format: 'json' }));
+    const transactionId = state.Transactions.find((t: any) => t.POSTransactionId === 'ORD-9-1').TransactionId;
+
+    const refund = await harness.callTool('refund_payment', { paymentId, transactionId, amount: 15 });
+    expect(refund.isError).toBe(false);
+    const result = parseJson(await harness.callTool('search_payments', { reference: 'ORD-9', format: 'json' }));
+    expect(result.payments[0].transactions).toEqual([expect.objectContaining({ posTransactionId: 'ORD-9-1', status: 'PartiallyRefunded' })]);
+  });
+
+  it('lets get_payment_state find payments by our own references', async () => {
+    const { paymentId, paymentRequestId } = await startOrder('ORD-7', 15);
+
+    const byRequest = parseJson(await harness.callTool('get_payment_state', { paymentRequestId, format: 'json' }));
+    expect(byRequest.PaymentId).toBe(paymentId);
+    expect(byRequest.OrderNumber).toBe('ORD-7');
+    const byPosTransaction = parseJson(await harness.callTool('get_payment_state', { posTransactionId: 'ORD-7-1', format: 'json' }));
+    expect(byPosTransaction.PaymentId).toBe(paymentId);
+
+    const unknown = await harness.callTool('get_payment_state', { posTransactionId: 'ORD-8-1' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.text).toContain('No payment with POSTransactionId ORD-8-1 in the payment registry');
+
+    const both = await harness.callTool('get_payment_state', { paymentId, paymentRequestId });
+    expect(both.isError).toBe(true);
+    expect(both.text).toContain('Provide exactly one of paymentId, paymentRequestId or posTransactionId');
+  });
+
+  it('only finds PaymentRequestIds in the registry', async () => {
+    // Started outside this server, so the registry does not know it
+    const client = new BarionClient(POSKEY, 'test', {}, TEST_RETRY, { baseUrl: harness.simulator.url });
+    const outside = await client.startPayment(paymentArgs(30, { paymentRequestId: 'REQ-OUTSIDE' }) as any);
+
+    const unknown = await harness.callTool('get_payment_state', { paymentRequestId: 'REQ-OUTSIDE' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.text).toContain('No payment with PaymentRequestId REQ-OUTSIDE in the payment registry');
+
+    await harness.callTool('get_payment_state', { paymentId: outside.PaymentId });
+    const state = parseJson(await harness.callTool('get_payment_state', { paymentRequestId: 'REQ-OUTSIDE', format: 'json' }));
+    expect(state.PaymentId).toBe(outside.PaymentId);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { PaymentStateResponse, PaymentStatus, PaymentType, TransactionStatus } from '../src/utils/barion-client.js';
+import { PaymentStateError, allowedOperations, assertOperationAllowed } from '../src/utils/payment-state-machine.js';
+import { Harness, parseJson, paymentArgs, startHarness } from './helpers/harness.js';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function paymentState(paymentType: PaymentType, status: PaymentStatus, transactionStatus: TransactionStatus, overrides: Partial<PaymentStateResponse> = {}): PaymentStateResponse {
+  return {
+    PaymentId: 'P-1',
+    PaymentRequestId: 'R-1',
+    POSId: 'pos',
+    POSName: 'Shop',
+    Status: status,
+    PaymentType: paymentType,
+    GuestCheckout: true,
+    CreatedAt: '2026-01-01T10:00:00Z',
+    ValidUntil: '2026-01-01T10:30:00Z',
+    Total: 30,
+    Currency: 'EUR',
+    Transactions: [
+      {
+        TransactionId: 'T-1',
+        POSTransactionId: 'POS-1',
+        TransactionTime: '2026-01-01T10:00:00Z',
+        Total: 30,
+        Currency: 'EUR',
+        Payee: 'shop@example.com',
+        Status: transactionStatus,
+        TransactionType: 'Shop',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function rejection(run: () => void): PaymentStateError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PaymentStateError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('The operation was allowed');
+}
+
+describe('allowedOperations', () => {
+  it('allows finishing a reservation until the hold expires', () => {
+    const reserved = paymentState('Reservation', 'Reserved', 'Reserved', { ReservedUntil: '2026-01-02T10:00:00Z' });
+    expect(allowedOperations(reserved, NOW)).toEqual([{ operation: 'finish_reservation', until: '2026-01-02T10:00:00Z' }]);
+    expect(allowedOperations(reserved, new Date('2026-01-02T10:00:00Z'))).toEqual([]);
+  });
+
+  it('allows capturing or cancelling an authorization', () => {
+    const authorized = paymentState('DelayedCapture', 'Authorized', 'Authorized', { ReservedUntil: '2026-01-08T10:00:00Z' });
+    expect(allowedOperations(authorized, NOW).map((item) => item.operation)).toEqual(['capture_payment', 'cancel_authorization']);
+  });
+
+  it('allows refunds of succeeded payments until everything is refunded', () => {
+    expect(allowedOperations(paymentState('Reservation', 'Succeeded', 'PartiallyRefunded'), NOW)).toEqual([{ operation: 'refund_payment', until: undefined }]);
+    expect(allowedOperations(paymentState('Immediate', 'Succeeded', 'Refunded'), NOW)).toEqual([]);
+  });
+});
+
+describe('assertOperationAllowed', () => {
+  it('accepts an operation the state allows', () => {
+    expect(() => assertOperationAllowed(paymentState('DelayedCapture', 'Authorized', 'Authorized'), 'capture_payment', ['T-1'], NOW)).not.toThrow();
+  });
+
+  it('names the required status and what is allowed instead', () => {
+    const error = rejection(() => assertOperationAllowed(paymentState('Immediate', 'Succeeded', 'Succeeded'), 'cancel_authorization', [], NOW));
+    expect(error.message).toBe('cancel_authorization only applies to DelayedCapture payments; payment P-1 has PaymentType Immediate');
+    expect(error.allowed).toEqual([{ operation: 'refund_payment', until: undefined }]);
+    expect(error.paymentDeadline).toBeUndefined();
+  });
+
+  it('tells until when an unpaid payment can be completed', () => {
+    const error = rejection(() => assertOperationAllowed(paymentState('Reservation', 'Prepared', 'Prepared'), 'finish_reservation', [], NOW));
+    expect(error.message).toBe('finish_reservation needs a Reserved payment; payment P-1 is Prepared');
+    expect(error.allowed).toEqual([]);
+    expect(error.paymentDeadline).toBe('2026-01-01T10:30:00Z');
+  });
+
+  it('checks the named transactions', () => {
+    const state = paymentState('Immediate', 'PartiallySucceeded', 'UserCanceled');
+    state.Transactions.push({ ...state.Transactions[0], TransactionId: 'T-2', Status: 'Succeeded' });
+    expect(rejection(() => assertOperationAllowed(state, 'refund_payment', ['T-2', 'T-1'], NOW)).message).toBe(
+      'Transaction T-1 is UserCanceled; refund_payment needs a Succeeded or PartiallyRefunded transaction'
+    );
+    expect(rejection(() => assertOperationAllowed(state, 'refund_payment', ['T-9'], NOW)).message).toBe('Transaction T-9 is not part of payment P-1');
+  });
+});
+
+describe('payment state checks', () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    harness = await startHarness({ context: { skipStateChecks: true } });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('can be left to Barion', async () => {
+    const started = parseJson(await harness.callTool('start_payment', { ...paymentArgs(10), format: 'json' }));
+    const result = await harness.callTool('cancel_authorization', { paymentId: started.PaymentId });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('**Invalid Payment State**');
+  });
+});
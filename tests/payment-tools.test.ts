@@ -0,0 +1,382 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { Harness, SHOP_EMAIL, parseJson, paymentArgs, startHarness } from './helpers/harness.js';
+
+describe('payment tools', () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.simulator.reset();
+  });
+
+  // Start a payment, let the customer complete it and return its ID and first transaction ID
+  async function completedPayment(total: number, overrides: Record<string, unknown> = {}) {
+    const started = parseJson(await harness.callTool('start_payment', { ...paymentArgs(total, overrides), format: 'json' }));
+    harness.simulator.completePayment(started.PaymentId);
+    const state = parseJson(await harness.callTool('get_payment_state', { paymentId: started.PaymentId, format: 'json' }));
+    return { paymentId: state.PaymentId as string, transactionId: state.Transactions[0].TransactionId as string, state };
+  }
+
+  it('registers every payment tool', async () => {
+    const { tools } = await harness.client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(
+      expect.arrayContaining([
+        'start_payment',
+        'get_payment_state',
+        'finish_reservation',
+        'refund_payment',
+        'capture_payment',
+        'cancel_authorization',
+        'charge_recurring',
+        'validate_payment',
+        'get_refundable_amounts',
+        'list_expiring_holds',
+        'search_payments',
+      ])
+    );
+  });
+
+  describe('start_payment', () => {
+    it('returns a concise confirmation by default', async () => {
+      const result = await harness.callTool('start_payment', paymentArgs(10));
+      expect(result).toEqual({ text: '✓ Payment Created completed successfully', isError: false });
+    });
+
+    it('returns the gateway URL of the configured base URL as json', async () => {
+      const result = await harness.callTool('start_payment', { ...paymentArgs(10), format: 'json' });
+      const data = parseJson(result);
+      expect(data.Status).toBe('Prepared');
+      expect(data.GatewayUrl).toBe(`${harness.simulator.url}/Pay?Id=${data.PaymentId}`);
+    });
+
+    it('shows the response in the detailed markdown output', async () => {
+      const result = await harness.callTool('start_payment', { ...paymentArgs(10), detail: 'detailed' });
+      expect(result.text).toMatch(/^## Payment Created - Success\n\n\*\*Payment ID:\*\* \w+\n\*\*Status:\*\* Prepared\n/);
+      expect(result.text).toContain('### Full Response');
+    });
+
+    it('rejects a negative total', async () => {
+      await expect(harness.callTool('start_payment', paymentArgs(-5))).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('Invalid arguments for tool start_payment'),
+      });
+    });
+
+    it('rejects an invalid payee email', async () => {
+      const args = paymentArgs(10);
+      (args.transactions as any[])[0].payee = 'not-an-email';
+      await expect(harness.callTool('start_payment', args)).rejects.toThrow(/Invalid email/);
+    });
+
+    it('rejects an unknown payment type and currency', async () => {
+      await expect(harness.callTool('start_payment', paymentArgs(10, { paymentType: 'Instant' }))).rejects.toThrow(/paymentType/);
+      await expect(harness.callTool('start_payment', paymentArgs(10, { currency: 'GBP' }))).rejects.toThrow(/currency/);
+    });
+
+    it('accepts phone numbers with spaces and rejects ones without a country code', async () => {
+      const accepted = await harness.callTool('start_payment', paymentArgs(10, { payerPhoneNumber: '+36 (30) 123-4567' }));
+      expect(accepted.isError).toBe(false);
+      await expect(harness.callTool('start_payment', paymentArgs(10, { payerPhoneNumber: '06 30 123 4567' }))).rejects.toThrow(/E\.164 phone number/);
+    });
+
+    it('rejects a malformed payment window', async () => {
+      await expect(harness.callTool('start_payment', paymentArgs(10, { paymentWindow: '30 minutes' }))).rejects.toThrow(/time span/);
+    });
+
+    it('reports Barion validation errors with guidance', async () => {
+      harness.simulator.injectError({ endpoint: '/v2/Payment/Start', status: 400, errorCode: 'ModelValidationError' });
+      const result = await harness.callTool('start_payment', paymentArgs(10));
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('❌ Start Payment Failed - Barion API Error');
+      expect(result.text).toContain('**Barion Validation Error**');
+      expect(result.text).toContain('ModelValidationError');
+    });
+
+    it('rejects an invalid cart before calling Barion', async () => {
+      const result = await harness.callTool('start_payment', paymentArgs(10.5, { currency: 'HUF' }));
+      expect(result.isError).toBe(true);
+      expect(result.text).toMatch(/^❌ Invalid Cart: Start Payment\n\n\*\*Issues:\*\*\n- `transactions\[0\]\.total`: Total 10\.5 has too many decimals; Barion accepts whole HUF amounts → use 11\n/);
+      expect(harness.simulator.snapshot().payments).toEqual([]);
+    });
+  });
+
+  describe('validate_payment', () => {
+    it('confirms a valid cart', async () => {
+      const result = await harness.callTool('validate_payment', { currency: 'EUR', transactions: paymentArgs(10).transactions });
+      expect(result).toEqual({ text: '✓ Cart is valid: 1 transaction, 10 EUR', isError: false });
+    });
+
+    it('reports every problem with a suggested correction without calling Barion', async () => {
+      const transactions = [
+        {
+          posTransactionId: 'T-1',
+          payee: SHOP_EMAIL,
+          total: 30,
+          items: [
+            { name: 'Widget', description: 'Blue widget', quantity: 3, unitPrice: 9.99, unit: 'piece', itemTotal: 29.99 },
+            { name: 'Gift wrap', description: 'Paper', quantity: 1, unitPrice: 0.5, unit: 'piece', itemTotal: 0.5 },
+          ],
+        },
+        { posTransactionId: 'T-1', payee: SHOP_EMAIL, total: 5.555, items: [{ name: 'Fee', description: 'Fee', quantity: 1, unitPrice: 5.555, unit: 'piece', itemTotal: 5.555 }] },
+      ];
+      const result = await harness.callTool('validate_payment', { currency: 'EUR', transactions, detail: 'detailed' });
+      expect(result.isError).toBe(false);
+      expect(result.text).toMatch(/^❌ Cart has 6 problems; Barion would reject it\n/);
+      expect(result.text).toContain('- `transactions[0].items[0].itemTotal`: Item total of "Widget" is 29.99, but quantity 3 × unit price 9.99 is 29.97 → use 29.97');
+      expect(result.text).toContain('- `transactions[0].total`: Total of T-1 is 30, but its items add up to 30.49 → use 30.49');
+      expect(result.text).toContain('- `transactions[1].posTransactionId`: posTransactionId "T-1" is also used by transactions[0]; every transaction needs its own → use T-1-2');
+      expect(result.text).toContain('- `transactions[1].total`: Total 5.555 has too many decimals; Barion accepts at most 2 decimals in EUR → use 5.56');
+      expect(result.text).toContain('- T-1: total 30 EUR, 2 items adding up to 30.49 EUR');
+      expect(harness.simulator.snapshot().payments).toEqual([]);
+    });
+  });
+
+  describe('get_payment_state', () => {
+    it('formats a prepared payment concisely', async () => {
+      const started = parseJson(await harness.callTool('start_payment', { ...paymentArgs(12.5), format: 'json' }));
+      const result = await harness.callTool('get_payment_state', { paymentId: started.PaymentId });
+      expect(result.text).toContain(`Payment ${started.PaymentId}\nStatus: Prepared\nType: Immediate\nAmount: 12.5 EUR\n`);
+      expect(result.text).toContain('⏳ Waiting for customer to complete payment');
+      expect(result.text).not.toContain('✓');
+    });
+
+    it('lists the transactions of a succeeded payment in detail', async () => {
+      const { paymentId, transactionId } = await completedPayment(20);
+      const result = await harness.callTool('get_payment_state', { paymentId, detail: 'detailed' });
+      expect(result.text).toMatch(/^## Payment Details\n\n/);
+      expect(result.text).toContain('**Status:** Succeeded');
+      expect(result.text).toContain(`**Transaction 1:**\n- ID: ${transactionId}\n- Status: Succeeded\n- Amount: 20 EUR\n- Payee: ${SHOP_EMAIL}`);
+    });
+
+    it('returns the raw response as json', async () => {
+      const { paymentId, state } = await completedPayment(20);
+      expect(state).toMatchObject({ PaymentId: paymentId, Status: 'Succeeded', Total: 20, Currency: 'EUR' });
+    });
+
+    it('explains unknown payment IDs', async () => {
+      const result = await harness.callTool('get_payment_state', { paymentId: 'missing' });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('**Resource Not Found**');
+      expect(result.text).toContain('PaymentNotFound');
+    });
+
+    it('requires a payment ID or one of our references', async () => {
+      const result = await harness.callTool('get_payment_state', {});
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Provide exactly one of paymentId, paymentRequestId or posTransactionId');
+    });
+  });
+
+  describe('refund_payment', () => {
+    it('refunds part of a succeeded payment', async () => {
+      const { paymentId, transactionId } = await completedPayment(30);
+      const result = await harness.callTool('refund_payment', { paymentId, transactionId, amount: 10, comment: 'Damaged', format: 'json' });
+      expect(result.isError).toBe(false);
+      expect(parseJson(result)).toEqual({
+        PaymentId: paymentId,
+        RefundedTransactions: [{ TransactionId: expect.any(String), Total: 10, POSTransactionId: 'T-1', Comment: 'Damaged', Status: 'Succeeded' }],
+        Errors: [],
+      });
+
+      const state = parseJson(await harness.callTool('get_payment_state', { paymentId, format: 'json' }));
+      expect(state.Transactions).toEqual(
+        expect.arrayContaining([expect.objectContaining({ TransactionType: 'Refund', Total: -10, RelatedId: transactionId })])
+      );
+    });
+
+    it('refunds several transactions with their items in one request', async () => {
+      const { paymentId, state } = await completedPayment(30, {
+        transactions: [
+          (paymentArgs(20).transactions as any[])[0],
+          { ...(paymentArgs(10).transactions as any[])[0], posTransactionId: 'T-2' },
+        ],
+      });
+      const [first, second] = state.Transactions.map((t: any) => t.TransactionId);
+      const returned = { name: 'Widget', description: 'Returned', quantity: 1, unit: 'piece', unitPrice: 5, itemTotal: 5 };
+      const result = await harness.callTool('refund_payment', {
+        paymentId,
+        transactions: [
+          { transactionId: first, amount: 20, comment: 'Order cancelled' },
+          { transactionId: second, amount: 5, posTransactionId: 'R-2', items: [returned] },
+        ],
+        format: 'json',
+      });
+      expect(parseJson(result).RefundedTransactions).toEqual([
+        expect.objectContaining({ Total: 20, POSTransactionId: 'T-1', Comment: 'Order cancelled' }),
+        expect.objectContaining({ Total: 5, POSTransactionId: 'R-2' }),
+      ]);
+
+      const refunded = parseJson(await harness.callTool('get_payment_state', { paymentId, format: 'json' }));
+      expect(refunded.Transactions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ TransactionId: first, Status: 'Refunded' }),
+          expect.objectContaining({ TransactionId: second, Status: 'PartiallyRefunded' }),
+          expect.objectContaining({ TransactionType: 'Refund', RelatedId: second, Items: [expect.objectContaining({ Description: 'Returned', ItemTotal: 5 })] }),
+        ])
+      );
+    });
+
+    it('refunds nothing when one of the transactions is rejected', async () => {
+      const { paymentId, transactionId } = await completedPayment(30);
+      const result = await harness.callTool('refund_payment', {
+        paymentId,
+        transactions: [
+          { transactionId, amount: 10 },
+          { transactionId: 'missing', amount: 5 },
+        ],
+      });
+      expect(result.isError).toBe(true);
+
+      const state = parseJson(await harness.callTool('get_payment_state', { paymentId, format: 'json' }));
+      expect(state.Transactions.filter((t: any) => t.TransactionType === 'Refund')).toEqual([]);
+    });
+
+    it('needs the transactions to refund', async () => {
+      const { paymentId, transactionId } = await completedPayment(30);
+      expect((await harness.callTool('refund_payment', { paymentId })).text).toContain('Provide transactionId and amount, or transactions');
+
+      const both = await harness.callTool('refund_payment', { paymentId, transactionId, amount: 5, transactions: [{ transactionId, amount: 5 }] });
+      expect(both.text).toContain('not both');
+
+      const twice = await harness.callTool('refund_payment', { paymentId, transactions: [{ transactionId, amount: 5 }, { transactionId, amount: 5 }] });
+      expect(twice.isError).toBe(true);
+      expect(twice.text).toContain(`Transaction ${transactionId} appears more than once`);
+    });
+
+    it('explains refunds above the paid amount', async () => {
+      const { paymentId, transactionId } = await completedPayment(30);
+      const result = await harness.callTool('refund_payment', { paymentId, transactionId, amount: 31 });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('**Amount Exceeds Maximum**');
+    });
+
+    it('rejects a zero amount', async () => {
+      await expect(harness.callTool('refund_payment', { paymentId: 'p', transactionId: 't', amount: 0 })).rejects.toThrow(/amount/);
+    });
+  });
+
+  describe('get_refundable_amounts', () => {
+    it('subtracts the earlier refunds of every transaction', async () => {
+      const { paymentId, transactionId } = await completedPayment(30);
+      await harness.callTool('refund_payment', { paymentId, transactionId, amount: 12.5, comment: 'Damaged' });
+
+      const result = await harness.callTool('get_refundable_amounts', { paymentId, format: 'json' });
+      expect(parseJson(result)).toEqual({
+        paymentId,
+        paymentStatus: 'Succeeded',
+        currency: 'EUR',
+        refundable: 17.5,
+        transactions: [
+          {
+            transactionId,
+            posTransactionId: 'T-1',
+            status: 'PartiallyRefunded',
+            total: 30,
+            refunded: 12.5,
+            refundable: 17.5,
+            refunds: [{ transactionId: expect.any(String), amount: 12.5, status: 'Succeeded', time: expect.any(String), comment: 'Damaged' }],
+          },
+        ],
+      });
+
+      const text = (await harness.callTool('get_refundable_amounts', { paymentId })).text;
+      expect(text).toBe(`17.5 EUR can still be refunded from payment ${paymentId}\n\n- ${transactionId} (T-1): 17.5 of 30 EUR refundable, 12.5 already refunded`);
+    });
+
+    it('explains why an unpaid payment cannot be refunded', async () => {
+      const started = parseJson(await harness.callTool('start_payment', { ...paymentArgs(10), format: 'json' }));
+      const result = await harness.callTool('get_refundable_amounts', { paymentId: started.PaymentId });
+      expect(result.isError).toBe(false);
+      expect(result.text).toMatch(/^Nothing can be refunded: Only succeeded payments can be refunded; this payment is Prepared/);
+    });
+  });
+
+  describe('finish_reservation', () => {
+    it('captures a reserved payment', async () => {
+      const { paymentId, transactionId, state } = await completedPayment(40, { paymentType: 'Reservation' });
+      expect(state.Status).toBe('Reserved');
+
+      const result = await harness.callTool('finish_reservation', { paymentId, transactions: [{ transactionId, total: 35 }] });
+      expect(result).toEqual({ text: '✓ Reservation Captured completed successfully', isError: false });
+
+      const finished = parseJson(await harness.callTool('get_payment_state', { paymentId, format: 'json' }));
+      expect(finished.Status).toBe('Succeeded');
+      expect(finished.Transactions[0].Total).toBe(35);
+    });
+
+    it('explains that an immediate payment cannot be finished', async () => {
+      const { paymentId, transactionId } = await completedPayment(40);
+      const result = await harness.callTool('finish_reservation', { paymentId, transactions: [{ transactionId, total: 40 }] });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('❌ Not Allowed in the Current Payment State: Finish Reservation');
+      expect(result.text).toContain(`**Issue:** finish_reservation only applies to Reservation payments; payment ${paymentId} has PaymentType Immediate`);
+      expect(result.text).toContain('**Allowed now:**\n- refund_payment\n');
+    });
+  });
+
+  describe('capture_payment', () => {
+    it('captures an authorized payment', async () => {
+      const { paymentId, transactionId, state } = await completedPayment(50, { paymentType: 'DelayedCapture' });
+      expect(state.Status).toBe('Authorized');
+
+      const result = await harness.callTool('capture_payment', { paymentId, transactions: [{ transactionId, total: 50 }], detail: 'detailed' });
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain('## Payment Captured - Success');
+      expect(result.text).toContain('**Status:** Succeeded');
+    });
+
+    it('rejects a transaction without a total', async () => {
+      await expect(harness.callTool('capture_payment', { paymentId: 'p', transactions: [{ transactionId: 't' }] })).rejects.toThrow(/total/);
+    });
+  });
+
+  describe('cancel_authorization', () => {
+    it('cancels an authorized payment', async () => {
+      const { paymentId } = await completedPayment(50, { paymentType: 'DelayedCapture' });
+      const result = await harness.callTool('cancel_authorization', { paymentId });
+      expect(result).toEqual({ text: '✓ Authorization Cancelled completed successfully', isError: false });
+
+      const state = parseJson(await harness.callTool('get_payment_state', { paymentId, format: 'json' }));
+      expect(state.Status).toBe('Canceled');
+    });
+  });
+
+  describe('charge_recurring', () => {
+    const recurring = { recurrenceId: 'sub-1', recurrenceType: 'MerchantInitiatedPayment' };
+
+    it('charges a registered token', async () => {
+      await completedPayment(15, { ...recurring, initiateRecurrence: true });
+      const { paymentType, ...charge } = paymentArgs(15, { recurrenceId: 'sub-1' });
+      const result = await harness.callTool('charge_recurring', charge);
+      expect(result.isError).toBe(false);
+      expect(result.text).toMatch(/^Recurring charge \w+\nStatus: Succeeded\nRecurrence Result: Successful\n/);
+    });
+
+    it('reports tokens that are not registered', async () => {
+      const { paymentType, ...charge } = paymentArgs(15, { recurrenceId: 'unknown' });
+      const result = await harness.callTool('charge_recurring', { ...charge, detail: 'detailed' });
+      expect(result.text).toContain('## Recurring Charge');
+      expect(result.text).toContain('**Recurrence Result:** NotFound');
+    });
+
+    it('requires a recurrence ID', async () => {
+      const { paymentType, ...charge } = paymentArgs(15);
+      await expect(harness.callTool('charge_recurring', charge)).rejects.toThrow(/recurrenceId/);
+    });
+
+    it('rejects initiateRecurrence without a recurrence ID before calling Barion', async () => {
+      const result = await harness.callTool('start_payment', paymentArgs(15, { initiateRecurrence: true }));
+      expect(result.isError).toBe(true);
+      expect(result.text).toMatch(/^❌ Start Payment failed: recurrenceId is required when initiateRecurrence is true\n/);
+      expect(harness.simulator.snapshot().payments).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { BarionApiError } from '../src/utils/barion-api-error.js';
+import { BarionClient, PaymentStateResponse, PaymentStatus } from '../src/utils/barion-client.js';
+import { PaymentWatcher } from '../src/utils/payment-watcher.js';
+
+function state(status: PaymentStatus): PaymentStateResponse {
+  return { PaymentId: 'P-1', Status: status, Transactions: [] } as unknown as PaymentStateResponse;
+}
+
+// A client whose getPaymentState calls are answered one by one by the test
+function fakeClient() {
+  const pending: { resolve: (state: PaymentStateResponse) => void; reject: (error: unknown) => void }[] = [];
+  const client = {
+    getPaymentState: () => new Promise<PaymentStateResponse>((resolve, reject) => pending.push({ resolve, reject })),
+  } as unknown as BarionClient;
+  return { client, pending };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('PaymentWatcher', () => {
+  let watcher: PaymentWatcher;
+
+  afterEach(() => {
+    watcher.stop();
+  });
+
+  it('checks again when asked during a request in flight', async () => {
+    const { client, pending } = fakeClient();
+    const changes: PaymentStatus[] = [];
+    watcher = new PaymentWatcher(client, (_, s) => void changes.push(s.Status), { initialIntervalMs: 60000 });
+
+    watcher.watch('P-1');
+    const check = watcher.check('P-1');
+    expect(pending).toHaveLength(1);
+
+    pending[0].resolve(state('Prepared'));
+    await flush();
+    expect(pending).toHaveLength(2);
+    pending[1].resolve(state('Succeeded'));
+    await check;
+    await flush();
+    expect(changes).toEqual(['Succeeded']);
+  });
+
+  it('ignores a request in flight that overlaps an update', async () => {
+    const { client, pending } = fakeClient();
+    const changes: PaymentStatus[] = [];
+    watcher = new PaymentWatcher(client, (_, s) => void changes.push(s.Status), { initialIntervalMs: 60000 });
+
+    watcher.watch('P-1');
+    await watcher.update('P-1', state('Prepared'));
+    await watcher.update('P-1', state('Succeeded'));
+    // Answered with the state from before the callback
+    pending[0].resolve(state('Prepared'));
+    await flush();
+    expect(changes).toEqual(['Succeeded']);
+  });
+
+  it('stops watching payments Barion does not know', async () => {
+    const { client, pending } = fakeClient();
+    watcher = new PaymentWatcher(client, () => undefined, { initialIntervalMs: 60000 });
+
+    watcher.watch('P-1');
+    pending[0].reject(
+      new BarionApiError('Payment not found', {
+        kind: 'api',
+        endpoint: '/v2/Payment/GetPaymentState',
+        environment: 'test',
+        status: 400,
+        errors: [{ ErrorCode: 'PaymentNotFound', Title: 'Not found', Description: 'Payment P-1 does not exist' }],
+      })
+    );
+    await flush();
+    expect(watcher.isWatching('P-1')).toBe(false);
+  });
+
+  it('keeps watching after other failures', async () => {
+    const { client, pending } = fakeClient();
+    watcher = new PaymentWatcher(client, () => undefined, { initialIntervalMs: 60000 });
+
+    watcher.watch('P-1');
+    pending[0].reject(new BarionApiError('timed out', { kind: 'timeout', endpoint: '/v2/Payment/GetPaymentState', environment: 'test' }));
+    await flush();
+    expect(watcher.isWatching('P-1')).toBe(true);
+  });
+});
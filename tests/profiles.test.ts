@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ProfileRegistry } from '../src/utils/profiles.js';
+
+describe('ProfileRegistry.load', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-profiles-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function profilesFile(paymentDefaults: unknown): string {
+    const file = join(dir, 'profiles.json');
+    writeFileSync(file, JSON.stringify({ profiles: { 'hu-shop': { poskey: 'poskey', paymentDefaults } } }));
+    return file;
+  }
+
+  it('applies the paymentDefaults of a profile over the server defaults', async () => {
+    const profiles = await ProfileRegistry.load(profilesFile({ locale: 'hu-HU', redirectUrl: 'https://shop.example.com/return' }), { locale: 'en-US', guestCheckout: false });
+    expect(profiles.paymentProfile().paymentDefaults).toEqual({ locale: 'hu-HU', guestCheckout: false, redirectUrl: 'https://shop.example.com/return' });
+  });
+
+  it('rejects invalid paymentDefaults and names the profile', async () => {
+    await expect(ProfileRegistry.load(profilesFile({ redirectUrl: 'shop.example.com', locale: 'xx-XX' }))).rejects.toThrow(
+      /^Profile "hu-shop" has invalid paymentDefaults: locale: Invalid enum value.*; redirectUrl: Invalid url$/
+    );
+    await expect(ProfileRegistry.load(profilesFile({ currency: 'EUR' }))).rejects.toThrow(/^Profile "hu-shop" has invalid paymentDefaults: paymentDefaults: Unrecognized key\(s\) in object: 'currency'/);
+  });
+
+  it('only reads JSON files', async () => {
+    await expect(ProfileRegistry.load(join(dir, 'profiles.yaml'))).rejects.toThrow('only JSON profiles files are supported');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { REDACTED, isSecretKey, maskAccountNumber, maskEmail, redactText, redactValue } from '../src/utils/redaction.js';
+
+describe('isSecretKey', () => {
+  it('recognizes credential keys regardless of case', () => {
+    for (const key of ['POSKey', 'poskey', 'x-api-key', 'apiKey', 'X-Barion-POS-Key', 'Authorization', 'password', 'token']) {
+      expect(isSecretKey(key)).toBe(true);
+    }
+    for (const key of ['posTransactionId', 'tokenExpiry', 'payee', '']) {
+      expect(isSecretKey(key)).toBe(false);
+    }
+  });
+});
+
+describe('masking', () => {
+  it('keeps the first letter and the domain of emails', () => {
+    expect(maskEmail('buyer@example.com')).toBe('b***@example.com');
+    expect(maskEmail('not an email')).toBe('***');
+  });
+
+  it('keeps the last four characters of account numbers', () => {
+    expect(maskAccountNumber('HU42 1177 3016 1111 1018 0000 0000')).toBe('****0000');
+    expect(maskAccountNumber('11773016-11111018')).toBe('****1018');
+    expect(maskAccountNumber('123')).toBe('****');
+  });
+});
+
+describe('redactText', () => {
+  it('masks POSKeys in URLs, emails, IBANs and GIRO account numbers', () => {
+    expect(redactText('GET /v2/Payment/GetPaymentState?POSKey=abc123&PaymentId=P-1')).toBe(`GET /v2/Payment/GetPaymentState?POSKey=${REDACTED}&PaymentId=P-1`);
+    expect(redactText('Sent to friend@example.com')).toBe('Sent to f***@example.com');
+    expect(redactText('IBAN HU42117730161111101800000000 and HU42 1177 3016 1111 1018 0000 0000')).toBe('IBAN ****0000 and ****0000');
+    expect(redactText('Account 11773016-11111018-00000000')).toBe('Account ****0000');
+  });
+
+  it('leaves other text alone', () => {
+    const text = 'Payment P-1 of 10 EUR, order ORD-2025-001';
+    expect(redactText(text)).toBe(text);
+  });
+});
+
+describe('redactValue', () => {
+  it('removes credentials and masks personal data in nested values', () => {
+    const value = {
+      POSKey: 'secret-poskey',
+      headers: { 'x-api-key': 'secret-api-key' },
+      Transactions: [{ Payee: 'shop@example.com', Comment: 'Refund to HU42117730161111101800000000' }],
+      accountNumber: '11773016-11111018',
+      PaymentId: 'P-1',
+      Total: 10,
+    };
+    expect(redactValue(value)).toEqual({
+      POSKey: REDACTED,
+      headers: { 'x-api-key': REDACTED },
+      Transactions: [{ Payee: 's***@example.com', Comment: 'Refund to ****0000' }],
+      accountNumber: '****1018',
+      PaymentId: 'P-1',
+      Total: 10,
+    });
+    expect(value.POSKey).toBe('secret-poskey');
+  });
+
+  it('removes payer names, phone numbers and addresses', () => {
+    expect(redactValue({ Payer: { Name: 'Jane Doe', Email: 'jane@example.org' }, BillingAddress: { City: 'Budapest' }, payerPhoneNumber: '36301234567', Status: 'Succeeded' })).toEqual({
+      Payer: REDACTED,
+      BillingAddress: REDACTED,
+      payerPhoneNumber: REDACTED,
+      Status: 'Succeeded',
+    });
+  });
+
+  it('keeps missing secrets missing and redacts error messages', () => {
+    expect(redactValue({ apiKey: undefined })).toEqual({ apiKey: undefined });
+    expect(redactValue(new Error('Unknown payer buyer@example.com'))).toBe('Unknown payer b***@example.com');
+  });
+});
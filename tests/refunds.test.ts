@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { PaymentStateResponse, TransactionDetail, TransactionStatus } from '../src/utils/barion-client.js';
+import { allowedOperations } from '../src/utils/payment-state-machine.js';
+import { computeRefundableAmounts, refundedAmount } from '../src/utils/refunds.js';
+
+function transaction(id: string, total: number, status: TransactionStatus, overrides: Partial<TransactionDetail> = {}): TransactionDetail {
+  return {
+    TransactionId: id,
+    POSTransactionId: `POS-${id}`,
+    TransactionTime: '2026-01-01T10:00:00Z',
+    Total: total,
+    Currency: 'EUR',
+    Payee: 'shop@example.com',
+    Status: status,
+    TransactionType: 'Shop',
+    ...overrides,
+  };
+}
+
+function refund(id: string, of: string, amount: number, status: TransactionStatus = 'Succeeded'): TransactionDetail {
+  return transaction(id, -amount, status, { TransactionType: 'Refund', RelatedId: of });
+}
+
+function paymentState(status: PaymentStateResponse['Status'], transactions: TransactionDetail[]): PaymentStateResponse {
+  return {
+    PaymentId: 'P-1',
+    PaymentRequestId: 'R-1',
+    POSId: 'pos',
+    POSName: 'Shop',
+    Status: status,
+    PaymentType: 'Immediate',
+    GuestCheckout: true,
+    CreatedAt: '2026-01-01T10:00:00Z',
+    ValidUntil: '2026-01-01T10:30:00Z',
+    Total: 30,
+    Currency: 'EUR',
+    Transactions: transactions,
+  };
+}
+
+describe('refundedAmount', () => {
+  it('adds up the refunds that moved money', () => {
+    const state = paymentState('Succeeded', [
+      transaction('T-1', 30, 'PartiallyRefunded'),
+      refund('F-1', 'T-1', 0.1),
+      refund('F-2', 'T-1', 0.2),
+      refund('F-3', 'T-1', 5, 'Timeout'),
+    ]);
+    expect(refundedAmount(state, 'T-1')).toBe(0.3);
+  });
+});
+
+describe('computeRefundableAmounts', () => {
+  it('lists what remains of every shop transaction', () => {
+    const state = paymentState('Succeeded', [
+      transaction('T-1', 20, 'Refunded'),
+      transaction('T-2', 10, 'PartiallyRefunded'),
+      transaction('FEE', 0.5, 'Succeeded', { TransactionType: 'CardProcessingFee' }),
+      refund('F-1', 'T-1', 20),
+      refund('F-2', 'T-2', 4),
+    ]);
+    const result = computeRefundableAmounts(state);
+    expect(result.refundable).toBe(6);
+    expect(result.reason).toBeUndefined();
+    expect(result.transactions.map(({ transactionId, refunded, refundable, reason }) => ({ transactionId, refunded, refundable, reason }))).toEqual([
+      { transactionId: 'T-1', refunded: 20, refundable: 0, reason: 'Fully refunded' },
+      { transactionId: 'T-2', refunded: 4, refundable: 6, reason: undefined },
+    ]);
+    expect(result.transactions[1].refunds).toEqual([{ transactionId: 'F-2', amount: 4, status: 'Succeeded', time: '2026-01-01T10:00:00Z', comment: undefined }]);
+  });
+
+  it('refunds nothing from payments that did not succeed', () => {
+    const result = computeRefundableAmounts(paymentState('Reserved', [transaction('T-1', 30, 'Reserved')]));
+    expect(result.refundable).toBe(0);
+    expect(result.reason).toBe('Only succeeded payments can be refunded; this payment is Reserved');
+    expect(result.transactions[0]).toMatchObject({ refundable: 0, reason: 'Payment is Reserved' });
+  });
+
+  it('refunds nothing from a fully refunded payment', () => {
+    // The refund transactions are not always part of the state
+    const state = paymentState('Succeeded', [transaction('T-1', 30, 'Refunded')]);
+    const result = computeRefundableAmounts(state);
+    expect(result.refundable).toBe(0);
+    expect(result.transactions[0]).toMatchObject({ refundable: 0, reason: 'Fully refunded' });
+    expect(allowedOperations(state)).toEqual([]);
+  });
+
+  it('explains transactions that cannot be refunded', () => {
+    const result = computeRefundableAmounts(paymentState('PartiallySucceeded', [transaction('T-1', 20, 'Succeeded'), transaction('T-2', 10, 'UserCanceled')]));
+    expect(result.refundable).toBe(20);
+    expect(result.transactions[1]).toMatchObject({ refundable: 0, reason: 'Transaction is UserCanceled' });
+  });
+});
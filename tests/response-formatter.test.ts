@@ -0,0 +1,155 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  CHARACTER_LIMIT,
+  formatPaymentState,
+  formatResponse,
+  formatWalletAccounts,
+  formatWalletStatement,
+} from '../src/utils/response-formatter.js';
+
+const payment = {
+  PaymentId: 'pay-1',
+  Status: 'Succeeded',
+  PaymentType: 'Immediate',
+  Currency: 'EUR',
+  Total: 30,
+  CreatedAt: '2025-10-01T12:00:00Z',
+  RecurrenceId: 'sub-1',
+  RecurrenceType: 'OneClickPayment',
+  TraceId: 'trace-1',
+  Transactions: [{ TransactionId: 'tx-1', Status: 'Succeeded', Total: 30, Payee: 'shop@example.com' }],
+  Errors: [],
+};
+
+describe('formatResponse', () => {
+  it('prints json regardless of the formatter', () => {
+    expect(formatResponse({ a: 1 }, 'json', 'concise', () => 'markdown')).toBe('{\n  "a": 1\n}');
+  });
+
+  it('falls back to json without a formatter', () => {
+    expect(formatResponse({ a: 1 }, 'markdown')).toBe('{\n  "a": 1\n}');
+  });
+
+  it('truncates long output', () => {
+    const text = formatResponse('x'.repeat(CHARACTER_LIMIT + 1), 'markdown', 'concise', (data) => data as string);
+    expect(text.length).toBeLessThan(CHARACTER_LIMIT);
+    expect(text).toContain(`[... Output truncated. Total length: ${CHARACTER_LIMIT + 1} characters.`);
+  });
+});
+
+describe('formatPaymentState', () => {
+  it('summarizes the payment concisely', () => {
+    expect(formatPaymentState(payment, 'concise')).toBe(
+      'Payment pay-1\nStatus: Succeeded\nType: Immediate\nAmount: 30 EUR\nCreated: 2025-10-01T12:00:00Z\n✓ Payment completed successfully\n\n'
+    );
+  });
+
+  it('marks prepared and failed payments', () => {
+    expect(formatPaymentState({ ...payment, Status: 'Prepared' }, 'concise')).toContain('⏳ Waiting for customer to complete payment');
+    expect(formatPaymentState({ ...payment, Status: 'Failed' }, 'concise')).toContain('✗ Payment failed');
+  });
+
+  it('uses placeholders for missing fields', () => {
+    expect(formatPaymentState({}, 'concise')).toBe('Payment N/A\nStatus: Unknown\nType: N/A\nAmount: 0 \nCreated: N/A\n\n\n');
+  });
+
+  it('lists details, transactions and errors', () => {
+    const text = formatPaymentState({ ...payment, GatewayUrl: 'https://gateway/Pay?Id=pay-1', Errors: [{ Title: 'Warning', Description: 'Check it' }] }, 'detailed');
+    expect(text).toBe(
+      [
+        '## Payment Details',
+        '',
+        '**Payment ID:** pay-1',
+        '**Status:** Succeeded',
+        '**Type:** Immediate',
+        '**Currency:** EUR',
+        '**Total Amount:** 30',
+        '**Created:** 2025-10-01T12:00:00Z',
+        '**Gateway URL:** https://gateway/Pay?Id=pay-1',
+        '**Recurrence ID:** sub-1',
+        '**Recurrence Type:** OneClickPayment',
+        '**Trace ID:** trace-1',
+        '',
+        '### Transactions',
+        '',
+        '**Transaction 1:**',
+        '- ID: tx-1',
+        '- Status: Succeeded',
+        '- Amount: 30 EUR',
+        '- Payee: shop@example.com',
+        '',
+        '',
+        '### Errors',
+        '',
+        '- Warning: Check it',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('omits empty sections', () => {
+    const text = formatPaymentState({ PaymentId: 'pay-2', Status: 'Prepared' }, 'detailed');
+    expect(text).not.toContain('###');
+    expect(text).not.toContain('Gateway URL');
+  });
+});
+
+describe('formatWalletAccounts', () => {
+  const accounts = [
+    { Id: 'acc-1', Currency: 'EUR', Balance: 100, Owner: 'shop@example.com' },
+    { Id: 'acc-2', Currency: 'HUF', Balance: 0, Owner: 'shop@example.com' },
+  ];
+
+  it('lists balances concisely', () => {
+    expect(formatWalletAccounts(accounts, 'concise')).toBe('Wallet Balances:\nEUR: 100\nHUF: 0\n');
+  });
+
+  it('lists account details', () => {
+    expect(formatWalletAccounts(accounts.slice(0, 1), 'detailed')).toBe(
+      '## Wallet Accounts (1 total)\n\n### Account 1\n- **Currency:** EUR\n- **Balance:** 100\n- **Account ID:** acc-1\n- **Owner:** shop@example.com\n\n'
+    );
+  });
+
+  it('handles no accounts', () => {
+    expect(formatWalletAccounts([], 'concise')).toBe('No wallet accounts found');
+    expect(formatWalletAccounts(undefined, 'detailed')).toBe('## Wallet Accounts\n\nNo accounts found.');
+  });
+});
+
+describe('formatWalletStatement', () => {
+  const transaction = (index: number, amount: number) => ({
+    TransactionId: `tx-${index}`,
+    TransactionTime: `2025-10-${String(index).padStart(2, '0')}T10:00:00Z`,
+    Amount: amount,
+    Currency: 'EUR',
+    Type: 'Shop',
+    Comment: `Order ${index}`,
+  });
+
+  it('signs amounts in the concise list', () => {
+    expect(formatWalletStatement([transaction(1, 25), transaction(2, -5)], 'concise')).toBe(
+      '2 transactions found\n\n2025-10-01T10:00:00Z: +25 EUR - Shop\n2025-10-02T10:00:00Z: -5 EUR - Shop\n'
+    );
+  });
+
+  it('shows the first ten transactions concisely', () => {
+    const text = formatWalletStatement(Array.from({ length: 12 }, (_, i) => transaction(i + 1, 1)), 'concise');
+    expect(text).toContain('12 transactions found');
+    expect(text).toContain('2025-10-10T10:00:00Z');
+    expect(text).not.toContain('2025-10-11T10:00:00Z');
+    expect(text).toMatch(/\.\.\. and 2 more transactions$/);
+  });
+
+  it('shows every transaction in detail', () => {
+    const text = formatWalletStatement(Array.from({ length: 12 }, (_, i) => transaction(i + 1, -1)), 'detailed');
+    expect(text).toMatch(/^## Wallet Statement \(12 transactions\)\n\n/);
+    expect(text).toContain(
+      '### Transaction 12\n- **Date/Time:** 2025-10-12T10:00:00Z\n- **Type:** Shop\n- **Amount:** -1 EUR\n- **Comment:** Order 12\n- **Transaction ID:** tx-12\n\n'
+    );
+  });
+
+  it('handles an empty period', () => {
+    expect(formatWalletStatement([], 'concise')).toBe('No transactions found for this period');
+    expect(formatWalletStatement([], 'detailed')).toBe('## Wallet Statement\n\nNo transactions found for this period.');
+  });
+});
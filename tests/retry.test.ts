@@ -0,0 +1,135 @@
+import { describe, expect, it } from '@jest/globals';
+import { BarionApiError } from '../src/utils/barion-api-error.js';
+import { RetryMode, RetryOptions, collectRetryReports, withRetry } from '../src/utils/retry.js';
+
+const FAST: RetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+function httpError(status: number): BarionApiError {
+  return new BarionApiError(`HTTP ${status}`, { kind: 'http', endpoint: '/v2/Transfer/Send', environment: 'test', status });
+}
+
+// An attempt that throws the given errors in turn, then returns 'done'
+function failing(...errors: unknown[]) {
+  const calls = { count: 0 };
+  const attempt = async () => {
+    const error = errors[calls.count++];
+    if (error !== undefined) {
+      throw error;
+    }
+    return 'done';
+  };
+  return { attempt, calls };
+}
+
+async function run(mode: RetryMode<string>, ...errors: unknown[]) {
+  const { attempt, calls } = failing(...errors);
+  const outcome = await collectRetryReports(() => withRetry('Send Money', attempt, mode, FAST).catch((error: unknown) => error));
+  return { result: outcome.result, reports: outcome.reports, attempts: calls.count };
+}
+
+describe('withRetry', () => {
+  describe('always', () => {
+    it('retries transient errors and reports the extra attempts', async () => {
+      const { result, reports, attempts } = await run({ kind: 'always' }, httpError(502), httpError(503));
+      expect(result).toBe('done');
+      expect(attempts).toBe(3);
+      expect(reports).toEqual([{ operation: 'Send Money', attempts: 3, outcome: 'succeeded', errors: ['HTTP 502', 'HTTP 503'] }]);
+    });
+
+    it('gives up after maxRetries', async () => {
+      const error = httpError(500);
+      const { result, reports, attempts } = await run({ kind: 'always' }, error, error, error, error);
+      expect(result).toBe(error);
+      expect(attempts).toBe(3);
+      expect(reports).toEqual([expect.objectContaining({ attempts: 3, outcome: 'failed' })]);
+    });
+
+    it('does not retry errors that are not transient', async () => {
+      const rejected = httpError(400);
+      const { result, reports, attempts } = await run({ kind: 'always' }, rejected);
+      expect(result).toBe(rejected);
+      expect(attempts).toBe(1);
+      expect(reports).toEqual([]);
+
+      const plain = new Error('bug');
+      expect((await run({ kind: 'always' }, plain)).result).toBe(plain);
+    });
+
+    it('reports nothing when the first attempt succeeds', async () => {
+      expect(await run({ kind: 'always' })).toEqual({ result: 'done', reports: [], attempts: 1 });
+    });
+  });
+
+  describe('never', () => {
+    it('does not resend after a transient error', async () => {
+      const lost = httpError(502);
+      const { result, reports, attempts } = await run({ kind: 'never' }, lost);
+      expect(result).toBe(lost);
+      expect(attempts).toBe(1);
+      expect(reports).toEqual([{ operation: 'Send Money', attempts: 1, outcome: 'unsafe', errors: ['HTTP 502'] }]);
+    });
+
+    it('resends after 429, which Barion did not process', async () => {
+      const { result, attempts } = await run({ kind: 'never' }, httpError(429));
+      expect(result).toBe('done');
+      expect(attempts).toBe(2);
+    });
+
+    it('treats timeouts and network errors as possibly applied', async () => {
+      const timeout = new BarionApiError('timed out', { kind: 'timeout', endpoint: '/v2/Payment/Start', environment: 'test' });
+      expect(timeout.transient).toBe(true);
+      expect(timeout.notProcessed).toBe(false);
+      expect((await run({ kind: 'never' }, timeout)).attempts).toBe(1);
+    });
+  });
+
+  describe('verify', () => {
+    function verifying(verify: () => Promise<{ applied: true; result: string } | { applied: false }>) {
+      const checks = { count: 0 };
+      const mode: RetryMode<string> = {
+        kind: 'verify',
+        verify: () => {
+          checks.count++;
+          return verify();
+        },
+      };
+      return { mode, checks };
+    }
+
+    it('resends when the first attempt did not go through', async () => {
+      const { mode, checks } = verifying(async () => ({ applied: false }));
+      const { result, reports, attempts } = await run(mode, httpError(502));
+      expect(result).toBe('done');
+      expect(attempts).toBe(2);
+      expect(checks.count).toBe(1);
+      expect(reports).toEqual([expect.objectContaining({ attempts: 2, outcome: 'succeeded' })]);
+    });
+
+    it('uses the existing result when the first attempt went through', async () => {
+      const { mode } = verifying(async () => ({ applied: true, result: 'found' }));
+      const { result, reports, attempts } = await run(mode, httpError(504));
+      expect(result).toBe('found');
+      expect(attempts).toBe(1);
+      expect(reports).toEqual([expect.objectContaining({ attempts: 1, outcome: 'recovered' })]);
+    });
+
+    it('does not resend when the check cannot tell', async () => {
+      const lost = httpError(502);
+      const { mode } = verifying(async () => {
+        throw new Error('history is ambiguous');
+      });
+      const { result, reports, attempts } = await run(mode, lost);
+      expect(result).toBe(lost);
+      expect(attempts).toBe(1);
+      expect(reports).toEqual([{ operation: 'Send Money', attempts: 1, outcome: 'unsafe', errors: ['HTTP 502', 'check failed: history is ambiguous'] }]);
+    });
+
+    it('skips the check after 429', async () => {
+      const { mode, checks } = verifying(async () => ({ applied: true, result: 'found' }));
+      const { result, attempts } = await run(mode, httpError(429));
+      expect(result).toBe('done');
+      expect(attempts).toBe(2);
+      expect(checks.count).toBe(0);
+    });
+  });
+});
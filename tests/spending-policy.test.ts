@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BarionApiError } from '../src/utils/barion-api-error.js';
+import { PolicyViolationError, SpendingPolicy } from '../src/utils/spending-policy.js';
+
+function send(amount: number, currency = 'EUR') {
+  return { currency, amount, recipientEmail: 'friend@example.com' };
+}
+
+function rule(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error: unknown) {
+    if (error instanceof PolicyViolationError) {
+      return error.rule;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('SpendingPolicy reservations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts pending transfers against the daily limit', async () => {
+    const policy = new SpendingPolicy({ dailyTotal: { limits: { EUR: 100 } } });
+    const first = policy.checkSendMoney(send(60));
+    expect(rule(() => policy.checkSendMoney(send(60)))).toBe('dailyTotal.EUR');
+    expect(policy.reservedTotal('EUR')).toBe(60);
+
+    await first.commit();
+    expect(policy.dailyTotal('EUR')).toBe(60);
+    expect(policy.reservedTotal('EUR')).toBe(0);
+    expect(rule(() => policy.checkWithdraw({ currency: 'EUR', amount: 50, accountNumber: 'HU42117730161111101800000000' }))).toBe('dailyTotal.EUR');
+  });
+
+  it('gives the amount back when a transfer is cancelled or rejected', async () => {
+    const policy = new SpendingPolicy({ dailyTotal: { limits: { EUR: 100 } } });
+    policy.checkSendMoney(send(80)).release();
+
+    const rejected = policy.checkSendMoney(send(80));
+    await rejected.fail(new BarionApiError('Insufficient balance', { kind: 'api', endpoint: '/v2/Transfer/Send', environment: 'test', status: 200 }));
+    // Settling twice does not count the amount again
+    await rejected.commit();
+    expect(policy.dailyTotal('EUR')).toBe(0);
+    expect(policy.reservedTotal('EUR')).toBe(0);
+  });
+
+  it('keeps counting a transfer whose response was lost', async () => {
+    const policy = new SpendingPolicy({ dailyTotal: { limits: { EUR: 100 } } });
+    const lost = policy.checkSendMoney(send(80));
+    await lost.fail(new BarionApiError('Request timed out', { kind: 'timeout', endpoint: '/v2/Transfer/Send', environment: 'test' }));
+    expect(policy.dailyTotal('EUR')).toBe(80);
+
+    const throttled = policy.checkSendMoney(send(20));
+    await throttled.fail(new BarionApiError('Too many requests', { kind: 'http', endpoint: '/v2/Transfer/Send', environment: 'test', status: 429 }));
+    expect(policy.dailyTotal('EUR')).toBe(80);
+  });
+
+  it('rejects currencies missing from a configured limit', () => {
+    const policy = new SpendingPolicy({
+      maxSingleAmount: { send_money: { EUR: 50 } },
+      dailyTotal: { tools: ['withdraw_to_bank'], limits: { EUR: 1000 } },
+    });
+    expect(rule(() => policy.checkSendMoney(send(10, 'HUF')))).toBe('maxSingleAmount.send_money');
+    expect(rule(() => policy.checkWithdraw({ currency: 'USD', amount: 10, accountNumber: 'HU42117730161111101800000000' }))).toBe('dailyTotal');
+    expect(rule(() => policy.checkSendMoney(send(10)))).toBeUndefined();
+  });
+
+  it('does not fail a completed transfer when the state file cannot be written', async () => {
+    // A regular file where the state directory should be
+    writeFileSync(join(dir, 'blocked'), '');
+    const policy = new SpendingPolicy({ dailyTotal: { limits: { EUR: 100 } } }, join(dir, 'blocked', 'state.json'));
+
+    await expect(policy.checkSendMoney(send(30)).commit()).resolves.toBeUndefined();
+    expect(policy.dailyTotal('EUR')).toBe(30);
+  });
+});
+
+describe('SpendingPolicy limits', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'barion-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('limits single transfers per tool', () => {
+    const policy = new SpendingPolicy({ maxSingleAmount: { send_money: { EUR: 50 }, withdraw_to_bank: { EUR: 500 } } });
+    expect(rule(() => policy.checkSendMoney(send(50)))).toBeUndefined();
+    expect(rule(() => policy.checkSendMoney(send(50.01)))).toBe('maxSingleAmount.send_money.EUR');
+    expect(rule(() => policy.checkWithdraw({ currency: 'EUR', amount: 400, accountNumber: 'HU42117730161111101800000000' }))).toBeUndefined();
+  });
+
+  it('adds up completed transfers of the tools covered by the daily limit', async () => {
+    const policy = new SpendingPolicy({ dailyTotal: { tools: ['send_money'], limits: { EUR: 100 } } });
+    await policy.checkSendMoney(send(70)).commit();
+    await policy.checkWithdraw({ currency: 'EUR', amount: 500, accountNumber: 'HU42117730161111101800000000' }).commit();
+    expect(policy.dailyTotal('EUR')).toBe(70);
+
+    expect(rule(() => policy.checkSendMoney(send(30)))).toBeUndefined();
+    let violation: unknown;
+    try {
+      policy.checkSendMoney(send(40));
+    } catch (error: unknown) {
+      violation = error;
+    }
+    expect(violation).toMatchObject({
+      rule: 'dailyTotal.EUR',
+      message: '40 EUR would exceed the daily limit of 100 EUR',
+      details: { 'Spent Today': '70 EUR', 'Pending Transfers': '30 EUR', 'Remaining Today': '0 EUR' },
+    });
+  });
+
+  it('keeps daily totals across restarts', async () => {
+    const file = join(dir, 'policy.json');
+    writeFileSync(file, JSON.stringify({ dailyTotal: { limits: { EUR: 100 } } }));
+    const policy = await SpendingPolicy.load(file);
+    await policy.checkSendMoney(send(60)).commit();
+
+    const reloaded = await SpendingPolicy.load(file);
+    expect(reloaded.dailyTotal('EUR')).toBe(60);
+    expect(rule(() => reloaded.checkSendMoney(send(50)))).toBe('dailyTotal.EUR');
+  });
+
+  it('saves transfers that complete at the same time', async () => {
+    const file = join(dir, 'policy.json');
+    writeFileSync(file, JSON.stringify({ dailyTotal: { limits: { EUR: 100 } } }));
+    const policy = await SpendingPolicy.load(file);
+    const transfers = [10, 20, 30].map((amount) => policy.checkSendMoney(send(amount)));
+    await Promise.all(transfers.map((transfer) => transfer.commit()));
+
+    const reloaded = await SpendingPolicy.load(file);
+    expect(reloaded.dailyTotal('EUR')).toBe(60);
+  });
+
+  it('checks the recipient and IBAN allowlists before the amounts', () => {
+    const policy = new SpendingPolicy({
+      allowedRecipientEmails: ['Supplier@example.com'],
+      allowedIbans: ['HU42 1177 3016 1111 1018 0000 0000'],
+      maxSingleAmount: { send_money: { EUR: 1 } },
+    });
+    expect(rule(() => policy.checkSendMoney({ currency: 'EUR', amount: 1000, recipientEmail: 'friend@example.com' }))).toBe('allowedRecipientEmails');
+    expect(rule(() => policy.checkSendMoney({ currency: 'EUR', amount: 1, recipientEmail: 'supplier@EXAMPLE.com' }))).toBeUndefined();
+    expect(rule(() => policy.checkWithdraw({ currency: 'EUR', amount: 10, accountNumber: 'hu42117730161111101800000000' }))).toBeUndefined();
+    expect(rule(() => policy.checkWithdraw({ currency: 'EUR', amount: 10, accountNumber: 'HU42117730161111101800000001' }))).toBe('allowedIbans');
+  });
+});
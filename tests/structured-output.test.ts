@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog } from '../src/utils/audit-log.js';
+import { Harness, paymentArgs, startHarness } from './helpers/harness.js';
+
+// The SDK client validates structuredContent against the output schema of tools it has listed
+async function callStructured(harness: Harness, name: string, args: Record<string, unknown> = {}) {
+  const result = await harness.client.callTool({ name, arguments: args });
+  expect(result.isError).toBeFalsy();
+  return result.structuredContent as any;
+}
+
+describe('structured tool output', () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    harness = await startHarness({ simulator: { balances: { EUR: 100 } } });
+    await harness.client.listTools();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.simulator.reset();
+  });
+
+  it('declares an output schema for every tool', async () => {
+    const { tools } = await harness.client.listTools();
+    for (const tool of tools) {
+      expect(tool.outputSchema).toMatchObject({ type: 'object', properties: expect.any(Object) });
+    }
+  });
+
+  it('returns the payment responses next to the markdown text', async () => {
+    const result = await harness.client.callTool({ name: 'start_payment', arguments: paymentArgs(10) });
+    expect(result.content).toEqual([{ type: 'text', text: '✓ Payment Created completed successfully' }]);
+    expect(result.structuredContent).toMatchObject({ Status: 'Prepared', GatewayUrl: expect.stringContaining('/Pay?Id=') });
+
+    const paymentId = (result.structuredContent as any).PaymentId;
+    harness.simulator.completePayment(paymentId);
+    const state = await callStructured(harness, 'get_payment_state', { paymentId });
+    expect(state).toMatchObject({ PaymentId: paymentId, Status: 'Succeeded', Total: 10, Currency: 'EUR' });
+
+    const refund = await callStructured(harness, 'refund_payment', { paymentId, transactionId: state.Transactions[0].TransactionId, amount: 4 });
+    expect(refund).toMatchObject({ PaymentId: paymentId, RefundedTransactions: [{ Total: 4, Status: 'Succeeded' }] });
+
+    const refundable = await callStructured(harness, 'get_refundable_amounts', { paymentId });
+    expect(refundable).toMatchObject({ paymentId, refundable: 6, transactions: [{ refunded: 4, refundable: 6 }] });
+  });
+
+  it('wraps list responses in an object', async () => {
+    const accounts = await callStructured(harness, 'get_wallet_accounts');
+    expect(accounts).toEqual({ Accounts: [expect.objectContaining({ Currency: 'EUR', Balance: 100 })] });
+
+    const balance = await callStructured(harness, 'get_wallet_balance', { currency: 'HUF' });
+    expect(balance).toEqual({ Accounts: [] });
+
+    const profiles = await callStructured(harness, 'list_profiles');
+    expect(profiles.profiles).toEqual([expect.objectContaining({ name: 'default', environment: 'test' })]);
+  });
+
+  it('returns the transfer response', async () => {
+    const sent = await callStructured(harness, 'send_money', { recipientEmail: 'friend@example.com', currency: 'EUR', amount: 5 });
+    expect(sent).toMatchObject({ IsSuccessful: true, TargetEmail: 'friend@example.com', Amount: { Currency: 'EUR', Value: 5 } });
+  });
+
+  it('has no structured content for errors', async () => {
+    const result = await harness.client.callTool({ name: 'get_payment_state', arguments: { paymentId: 'missing' } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
+
+describe('cancelled operations', () => {
+  let harness: Harness;
+  let auditDir: string;
+
+  beforeAll(async () => {
+    auditDir = mkdtempSync(join(tmpdir(), 'barion-audit-'));
+    const auditLog = await AuditLog.open(join(auditDir, 'audit.jsonl'));
+    // The test client does not support elicitation, so every confirmation is refused
+    harness = await startHarness({ context: { requireConfirmation: true, auditLog } });
+    await harness.client.listTools();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  it('are reported as errors and audited as cancelled', async () => {
+    const started = await callStructured(harness, 'start_payment', paymentArgs(10, { paymentType: 'DelayedCapture' }));
+    harness.simulator.completePayment(started.PaymentId);
+
+    const result = await harness.callTool('cancel_authorization', { paymentId: started.PaymentId });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('does not support elicitation');
+
+    const { entries } = await callStructured(harness, 'query_audit_log', { tool: 'cancel_authorization' });
+    expect(entries).toEqual([expect.objectContaining({ status: 'cancelled', error: undefined })]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ToolFilter, ToolFilterOptions, parseToolPatterns } from '../src/utils/tool-filter.js';
+
+const TOOLS: Record<string, boolean> = {
+  get_payment_state: true,
+  start_payment: false,
+  refund_payment: false,
+  get_wallet_accounts: true,
+  send_money: false,
+  verify_audit_log: true,
+};
+
+// Register the tools above (true = read-only) and return the ones the filter keeps
+function exposed(options: ToolFilterOptions): string[] {
+  const server = new McpServer({ name: 'tool-filter-test', version: '0.0.0' });
+  return new ToolFilter(options).apply(server, (recorder) => {
+    for (const [name, readOnly] of Object.entries(TOOLS)) {
+      recorder.registerTool(name, { description: name, annotations: readOnly ? { readOnlyHint: true } : {} }, async () => ({ content: [] }));
+    }
+  });
+}
+
+describe('ToolFilter', () => {
+  it('exposes every tool by default', () => {
+    expect(exposed({})).toEqual(Object.keys(TOOLS));
+  });
+
+  it('keeps only tools annotated as read-only', () => {
+    expect(exposed({ readOnly: true })).toEqual(['get_payment_state', 'get_wallet_accounts', 'verify_audit_log']);
+  });
+
+  it('matches enable and disable globs against the whole name', () => {
+    expect(exposed({ enable: ['*_payment*'] })).toEqual(['get_payment_state', 'start_payment', 'refund_payment']);
+    expect(exposed({ enable: ['payment'] })).toEqual([]);
+    expect(exposed({ enable: ['s?nd_money', 'get_*'] })).toEqual(['get_payment_state', 'get_wallet_accounts', 'send_money']);
+    expect(exposed({ disable: ['*_payment', 'send_money'] })).toEqual(['get_payment_state', 'get_wallet_accounts', 'verify_audit_log']);
+  });
+
+  it('applies disable after enable and read-only to both', () => {
+    expect(exposed({ enable: ['get_*', 'send_money'], disable: ['get_wallet_*'] })).toEqual(['get_payment_state', 'send_money']);
+    expect(exposed({ readOnly: true, enable: ['*'], disable: ['verify_*'] })).toEqual(['get_payment_state', 'get_wallet_accounts']);
+  });
+
+  it('treats regular expression characters in patterns literally', () => {
+    expect(exposed({ enable: ['get.payment.state'] })).toEqual([]);
+  });
+
+  it('describes its settings', () => {
+    expect(new ToolFilter().describe()).toBe('none');
+    expect(new ToolFilter({ readOnly: true, enable: ['get_*'], disable: ['get_wallet_*', 'x'] }).describe()).toBe('read-only, enable=get_*, disable=get_wallet_*,x');
+  });
+});
+
+describe('parseToolPatterns', () => {
+  it('splits comma-separated lists and drops empty entries', () => {
+    expect(parseToolPatterns()).toEqual([]);
+    expect(parseToolPatterns(' get_*, send_money ,')).toEqual(['get_*', 'send_money']);
+    expect(parseToolPatterns(['get_*,list_*', 'send_money'])).toEqual(['get_*', 'list_*', 'send_money']);
+  });
+});
@@ -0,0 +1,319 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { SpendingPolicy } from '../src/utils/spending-policy.js';
+import { UserHistoryItem, WalletClient } from '../src/utils/wallet-client.js';
+import { jsonResponse, mockFetch } from './helpers/fake-fetch.js';
+import { API_KEY, Harness, SHOP_EMAIL, TEST_RETRY, parseJson, startHarness } from './helpers/harness.js';
+
+const BANK_ACCOUNT = {
+  accountNumber: 'HU42117730161111101800000000',
+  accountHolderName: 'Test Shop Kft.',
+  swift: 'OTPVHUHB',
+};
+
+describe('wallet tools', () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    harness = await startHarness({ simulator: { balances: { EUR: 100, HUF: 5000 } } });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.simulator.reset();
+  });
+
+  it('registers every wallet tool', async () => {
+    const { tools } = await harness.client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(
+      expect.arrayContaining([
+        'get_wallet_accounts',
+        'get_wallet_balance',
+        'get_wallet_statement',
+        'withdraw_to_bank',
+        'get_user_history',
+        'send_money',
+      ])
+    );
+  });
+
+  describe('get_wallet_accounts', () => {
+    it('lists the balances concisely', async () => {
+      const result = await harness.callTool('get_wallet_accounts');
+      expect(result).toEqual({ text: 'Wallet Balances:\nEUR: 100\nHUF: 5000\n', isError: false });
+    });
+
+    it('shows account details', async () => {
+      const result = await harness.callTool('get_wallet_accounts', { detail: 'detailed' });
+      expect(result.text).toMatch(/^## Wallet Accounts \(2 total\)\n\n### Account 1\n- \*\*Currency:\*\* EUR\n- \*\*Balance:\*\* 100\n/);
+      expect(result.text).toContain(`- **Owner:** ${SHOP_EMAIL}`);
+    });
+
+    it('returns the accounts as json', async () => {
+      const accounts = parseJson(await harness.callTool('get_wallet_accounts', { format: 'json' }));
+      expect(accounts).toEqual([
+        expect.objectContaining({ Currency: 'EUR', Balance: 100, Owner: SHOP_EMAIL }),
+        expect.objectContaining({ Currency: 'HUF', Balance: 5000, Owner: SHOP_EMAIL }),
+      ]);
+    });
+  });
+
+  describe('get_wallet_balance', () => {
+    it('filters by currency', async () => {
+      const result = await harness.callTool('get_wallet_balance', { currency: 'HUF' });
+      expect(result.text).toBe('Wallet Balances:\nHUF: 5000\n');
+    });
+
+    it('reports currencies without an account', async () => {
+      expect((await harness.callTool('get_wallet_balance', { currency: 'CZK' })).text).toBe('No wallet accounts found');
+      expect((await harness.callTool('get_wallet_balance', { currency: 'CZK', detail: 'detailed' })).text).toBe('## Wallet Accounts\n\nNo accounts found.');
+    });
+
+    it('rejects unsupported currencies', async () => {
+      await expect(harness.callTool('get_wallet_balance', { currency: 'GBP' })).rejects.toThrow(/currency/);
+    });
+  });
+
+  describe('get_wallet_statement', () => {
+    it('formats the transactions of the month', async () => {
+      const fetchMock = mockFetch(() =>
+        jsonResponse({
+          Transactions: [
+            { TransactionId: 'tx-1', TransactionTime: '2025-10-02T10:00:00Z', Amount: 25, Currency: 'EUR', Type: 'Shop', Comment: 'Order 1' },
+            { TransactionId: 'tx-2', TransactionTime: '2025-10-03T10:00:00Z', Amount: -5, Currency: 'EUR', Type: 'Refund', Comment: '' },
+          ],
+          Errors: [],
+        })
+      );
+      try {
+        const result = await harness.callTool('get_wallet_statement', { year: 2025, month: 10, currency: 'EUR' });
+        expect(result.text).toBe('2 transactions found\n\n2025-10-02T10:00:00Z: +25 EUR - Shop\n2025-10-03T10:00:00Z: -5 EUR - Refund\n');
+
+        const url = fetchMock.mock.calls[0][0] as string;
+        expect(url).toContain('/v3/userhistory/gethistory?Year=2025&Month=10&Currency=EUR');
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it('reports an empty month', async () => {
+      const result = await harness.callTool('get_wallet_statement', { year: 2025, month: 1 });
+      expect(result.text).toBe('No transactions found for this period');
+    });
+
+    it('rejects an invalid month', async () => {
+      await expect(harness.callTool('get_wallet_statement', { year: 2025, month: 13 })).rejects.toThrow(/month/);
+    });
+  });
+
+  describe('withdraw_to_bank', () => {
+    it('debits the wallet', async () => {
+      const result = await harness.callTool('withdraw_to_bank', { ...BANK_ACCOUNT, currency: 'EUR', amount: 40 });
+      expect(result).toEqual({ text: '✓ Withdrawal Initiated completed successfully', isError: false });
+      expect((await harness.callTool('get_wallet_balance', { currency: 'EUR' })).text).toBe('Wallet Balances:\nEUR: 60\n');
+    });
+
+    it('explains insufficient balance', async () => {
+      const result = await harness.callTool('withdraw_to_bank', { ...BANK_ACCOUNT, currency: 'EUR', amount: 500 });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('**Insufficient Funds**');
+      expect(result.text).toContain('InsufficientBalance');
+    });
+
+    it('requires the bank details', async () => {
+      await expect(harness.callTool('withdraw_to_bank', { currency: 'EUR', amount: 10 })).rejects.toThrow(/accountNumber/);
+    });
+  });
+
+  describe('send_money', () => {
+    it('transfers from the account of the currency', async () => {
+      const result = await harness.callTool('send_money', { recipientEmail: 'friend@example.com', currency: 'HUF', amount: 1000, detail: 'detailed' });
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain('## Money Sent - Success');
+      expect(parseJson({ ...result, text: result.text.split('```json\n')[1].split('\n```')[0] })).toMatchObject({
+        IsSuccessful: true,
+        TargetEmail: 'friend@example.com',
+        Amount: { Currency: 'HUF', Value: 1000 },
+      });
+    });
+
+    it('fails before calling Barion when there is no account in the currency', async () => {
+      const result = await harness.callTool('send_money', { recipientEmail: 'friend@example.com', currency: 'USD', amount: 10 });
+      expect(result.isError).toBe(true);
+      expect(result.text).toMatch(/^❌ Send Money failed: No account found with currency USD\n\nTroubleshooting:/);
+    });
+
+    it('rejects an invalid recipient', async () => {
+      await expect(harness.callTool('send_money', { recipientEmail: 'friend', currency: 'EUR', amount: 10 })).rejects.toThrow(/Invalid email/);
+    });
+  });
+
+  describe('get_user_history', () => {
+    it('lists wallet movements newest first', async () => {
+      await harness.callTool('withdraw_to_bank', { ...BANK_ACCOUNT, currency: 'EUR', amount: 10, comment: 'Payout' });
+      await harness.callTool('send_money', { recipientEmail: 'friend@example.com', currency: 'EUR', amount: 5 });
+
+      const result = await harness.callTool('get_user_history', { currency: 'EUR', detail: 'detailed' });
+      expect(result.text).toMatch(/^## Wallet Statement \(2 transactions\)\n\n### Transaction 1\n/);
+      expect(result.text).toMatch(/### Transaction 1\n- \*\*Date\/Time:\*\* \S+\n- \*\*Type:\*\* TransferToEmail\n- \*\*Amount:\*\* -5 EUR\n/);
+      expect(result.text).toMatch(/- \*\*Type:\*\* Withdraw\n- \*\*Amount:\*\* -10 EUR\n- \*\*Comment:\*\* Payout \(ref [0-9a-f]{12}\)\n/);
+    });
+
+    it('needs at least one filter', async () => {
+      const result = await harness.callTool('get_user_history');
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('At least one parameter');
+    });
+
+    it('rejects limits above 20', async () => {
+      await expect(harness.callTool('get_user_history', { limit: 21 })).rejects.toThrow(/limit/);
+    });
+  });
+});
+
+describe('wallet tools with a spending policy', () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    const policy = new SpendingPolicy({ maxSingleAmount: { send_money: { EUR: 50 } } });
+    harness = await startHarness({ simulator: { balances: { EUR: 100 } }, context: { policy } });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('blocks transfers above the limit without calling Barion', async () => {
+    const result = await harness.callTool('send_money', { recipientEmail: 'friend@example.com', currency: 'EUR', amount: 80 });
+    expect(result.isError).toBe(true);
+    expect(result.text).toMatch(/^❌ Blocked by Spending Policy: Send Money\n/);
+    expect(harness.simulator.snapshot().history).toEqual([]);
+  });
+});
+
+describe('wallet tools with rejected credentials', () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    harness = await startHarness({ simulator: { apiKeys: ['another-api-key'] } });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('explains the authentication failure', async () => {
+    const result = await harness.callTool('get_wallet_accounts');
+    expect(result.isError).toBe(true);
+    expect(result.text).toMatch(/^❌ Authentication Failed: Get Wallet Accounts\n/);
+    expect(result.text).toContain("Currently using 'test'");
+  });
+});
+
+describe('retried transfers', () => {
+  const client = new WalletClient(API_KEY, 'test', TEST_RETRY, { baseUrl: 'http://barion.test' });
+
+  function historyItem(amount: number, description: string, loginName: string | null = 'friend@example.com', inProgress = false): UserHistoryItem {
+    return {
+      Id: `item-${description}`,
+      Type: 'TransferToEmail',
+      HappenedAtUtc: new Date().toISOString(),
+      Amount: amount,
+      Currency: 'EUR',
+      Description: description,
+      BalanceChangeType: amount >= 0 ? 'Increase' : 'Decrease',
+      ConcurrencyOrder: 1,
+      TargetAccount: { UserAccountId: null, ShopId: null, Type: 'Email', LoginName: loginName, OrganizationName: null, ShopName: null },
+      IsInProgress: inProgress,
+    };
+  }
+
+  const timeout = () => {
+    throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+  };
+  const connectionRefused = () => {
+    throw new TypeError('fetch failed', { cause: new Error('connect ECONNREFUSED') });
+  };
+
+  // The transfer fails once (with a 502 unless fail says otherwise); history() answers the lookups and gets the comment of the first attempt
+  function barion(history: (comment: string) => UserHistoryItem[], fail: () => Response = () => jsonResponse({}, 502, 'Bad Gateway')) {
+    const transfers: string[] = [];
+    const fetchMock = mockFetch((url, init) => {
+      if (url.pathname === '/v2/accounts') {
+        return jsonResponse({ Accounts: [{ Id: 'acc-eur', Owner: 'Shop', Balance: 100, Currency: 'EUR' }] });
+      }
+      if (url.pathname === '/v3/userhistory/gethistory') {
+        return jsonResponse({ UserHistory: history(transfers[0]) });
+      }
+      transfers.push(JSON.parse(String(init?.body)).Comment);
+      return transfers.length === 1 ? fail() : jsonResponse({ IsSuccessful: true, TransactionId: 'tx-resent' });
+    });
+    return { transfers, fetchMock };
+  }
+
+  it('returns the transfer that carries the reference of the request', async () => {
+    const { transfers, fetchMock } = barion((comment) => [historyItem(-20, 'Dinner (ref 000000000000)'), historyItem(-20, comment)]);
+    try {
+      const result = await client.sendMoney({ recipientEmail: 'Friend@example.com', currency: 'EUR', amount: 20, comment: 'Dinner' });
+      expect(result).toEqual({ IsSuccessful: true, TransactionId: expect.stringMatching(/^item-Dinner \(ref [0-9a-f]{12}\)$/) });
+      expect(transfers).toHaveLength(1);
+      expect(transfers[0]).not.toBe('Dinner (ref 000000000000)');
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('does not resend when the history has a similar transfer without the reference', async () => {
+    const { transfers, fetchMock } = barion(() => [historyItem(20, 'Incoming'), historyItem(-20, 'Dinner')]);
+    try {
+      await expect(client.sendMoney({ recipientEmail: 'friend@example.com', currency: 'EUR', amount: 20, comment: 'Dinner' })).rejects.toThrow(/502/);
+      expect(transfers).toHaveLength(1);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('does not resend when the referenced transfer went to someone else', async () => {
+    const { transfers, fetchMock } = barion((comment) => [historyItem(-20, comment, 'other@example.com')]);
+    try {
+      await expect(client.sendMoney({ recipientEmail: 'friend@example.com', currency: 'EUR', amount: 20 })).rejects.toThrow(/502/);
+      expect(transfers).toHaveLength(1);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('counts a referenced transfer that is still in progress', async () => {
+    const { transfers, fetchMock } = barion((comment) => [historyItem(-20, comment, 'friend@example.com', true)], timeout);
+    try {
+      const result = await client.sendMoney({ recipientEmail: 'friend@example.com', currency: 'EUR', amount: 20 });
+      expect(result).toEqual({ IsSuccessful: true, TransactionId: expect.stringMatching(/^item-ref [0-9a-f]{12}$/) });
+      expect(transfers).toHaveLength(1);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('does not resend a timed out transfer that is not in the history yet', async () => {
+    const { transfers, fetchMock } = barion(() => [], timeout);
+    try {
+      await expect(client.sendMoney({ recipientEmail: 'friend@example.com', currency: 'EUR', amount: 20 })).rejects.toThrow(/timed out/);
+      expect(transfers).toHaveLength(1);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('resends when the connection failed and only incoming items match the amount', async () => {
+    const { transfers, fetchMock } = barion(() => [historyItem(20, 'Incoming')], connectionRefused);
+    try {
+      const result = await client.withdraw({ ...BANK_ACCOUNT, currency: 'EUR', amount: 20 });
+      expect(result).toEqual({ IsSuccessful: true, TransactionId: 'tx-resent' });
+      expect(transfers).toEqual([expect.stringMatching(/^ref [0-9a-f]{12}$/), transfers[0]]);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+});